@@ -1,267 +1,407 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { Calculator, CheckCircle2, Building2 } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Calculator, Building2, AlertTriangle, Info, X, ArrowLeftRight, Landmark } from 'lucide-react';
 import { InputField } from './components/InputField';
 import { Results } from './components/Results';
-import { RepaymentMethod, CollateralType, LoanInputs, CalculationResult, MonthlyPayment } from './types';
+import { DebtList } from './components/DebtList';
+import { StressPolicySelector } from './components/StressPolicySelector';
+import { RatePathEditor } from './components/RatePathEditor';
+import { PrepaymentEditor } from './components/PrepaymentEditor';
+import { LoanCalendarEditor } from './components/LoanCalendarEditor';
+import { IncomeBuilder } from './components/IncomeBuilder';
+import { ScenarioManager } from './components/ScenarioManager';
+import { ScenarioComparison } from './components/ScenarioComparison';
+import { ValidationSummary } from './components/ValidationSummary';
+import { RefinanceComparison } from './components/RefinanceComparison';
+import { ProductCatalog } from './components/ProductCatalog';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { useI18n } from './components/LocaleProvider';
+import { calculateDsr, GRADUATED_ANNUAL_STEP } from './services/dsrEngine';
+import { DSR_CAP_PRESETS } from './services/dsrSolver';
+import { loadScenarios, persistScenarios, createScenario, MAX_COMPARED_SCENARIOS } from './services/scenarioStorage';
+import { loadLastSession, persistLastSession } from './services/lastSession';
+import { loadProductCatalog, persistProductCatalog } from './services/productCatalog';
+import { decodeShareLink, encodeShareLink, readShareParam, ShareLinkResult, SHARE_PARAM } from './services/shareLink';
+import { recognizeIncome } from './services/incomeRules';
+import { hasErrors, validateInputs } from './services/validation';
+import { DEFAULT_REFINANCE_SETTINGS } from './services/refinance';
+import { MessageKey, MessageParams } from './services/i18n';
+import { DEFAULT_LOAN_INPUTS, RULES_VERSION } from './constants';
+import { RepaymentMethod, CollateralType, RateType, RegulationZone, BorrowerStatus, LoanInputs, PropertyInfo, IncomeSettings, CalculationResult, SavedScenario, RefinanceSettings, LoanProduct } from './types';
+
+type AppMode = 'dsr' | 'refinance' | 'products';
+
+// Debounce so typing into a field creates one history entry, not one per keystroke
+const URL_SYNC_DELAY_MS = 800;
+
+// A link worth telling the user about: unreadable, or made with older rules
+const linkWithProblem = (link: ShareLinkResult | null): ShareLinkResult | null =>
+  link && ('error' in link || link.outdated) ? link : null;
+
+const describeLinkProblem = (link: ShareLinkResult, t: (key: MessageKey, params?: MessageParams) => string): string =>
+  'error' in link
+    ? t('app.linkError', { error: t(link.error, link.params) })
+    : t('app.linkOutdated', { version: link.rulesVersion });
 
 function App() {
+  const { t, formatNumber } = useI18n();
+
   // State for Inputs
-  const [inputs, setInputs] = useState<LoanInputs>({
-    annualIncome: 50000000, // Default 5,000 만원 -> 50,000,000 원
-    loanAmount: 300000000, // Default 3억 -> 300,000,000 원
-    interestRate: 4.5, // Default 4.5%
-    loanTermYear: 30, // Default 30 years
-    gracePeriodYear: 0,
-    repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
-    collateralType: CollateralType.Housing,
-    applyStressDsr: false,
+  // A shared link in the URL takes precedence over the last session, which takes precedence over the defaults
+  const [initialLink] = useState<ShareLinkResult | null>(() => {
+    const param = readShareParam();
+    return param ? decodeShareLink(param) : null;
+  });
+  const [lastSession] = useState(() => (initialLink && 'inputs' in initialLink ? null : loadLastSession()));
+  const [inputs, setInputs] = useState<LoanInputs>(() => {
+    if (initialLink && 'inputs' in initialLink) return initialLink.inputs;
+    return lastSession?.inputs ?? DEFAULT_LOAN_INPUTS;
   });
+  // Kept as the link rather than a message so the notice follows language changes
+  const [linkNotice, setLinkNotice] = useState<ShareLinkResult | null>(() => linkWithProblem(initialLink));
+  // Rules version the restored session was saved under, when an update has changed it since
+  const [rulesNotice, setRulesNotice] = useState<string | null>(() => lastSession?.previousRulesVersion ?? null);
 
-  const captureRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    persistLastSession(inputs);
+  }, [inputs]);
 
-  // Calculation Logic
-  const calculateDSR = useMemo((): CalculationResult => {
-    const {
-      loanAmount,
-      interestRate,
-      loanTermYear,
-      gracePeriodYear,
-      repaymentMethod,
-      annualIncome,
-      applyStressDsr,
-      collateralType
-    } = inputs;
-
-    const monthlyPayments: MonthlyPayment[] = [];
-    const totalMonths = loanTermYear * 12;
-    const graceMonths = gracePeriodYear * 12;
-    
-    // Base Interest Rate (Monthly)
-    const monthlyRate = (interestRate / 100) / 12;
-    
-    // Stress DSR Rate
-    const stressRate = applyStressDsr ? 3.0 : 0;
-    const stressInterestRate = interestRate + stressRate;
-    const stressMonthlyRate = (stressInterestRate / 100) / 12;
-
-    let remainingBalance = loanAmount;
-    let totalInterest = 0;
-    let totalPayment = 0;
-
-    // 1. Generate Actual Payment Schedule (for Display)
-    for (let m = 1; m <= totalMonths; m++) {
-      let interestPayment = remainingBalance * monthlyRate;
-      let principalPayment = 0;
-      let monthlyTotal = 0;
-
-      if (m <= graceMonths) {
-        // Grace Period: Interest Only
-        monthlyTotal = interestPayment;
-      } else {
-        const remainingMonths = totalMonths - (m - 1);
-        const effectiveRemainingMonths = totalMonths - graceMonths; 
-
-        if (repaymentMethod === RepaymentMethod.PrincipalEqual) {
-          principalPayment = loanAmount / effectiveRemainingMonths;
-          monthlyTotal = principalPayment + interestPayment;
-        } else {
-          // Principal & Interest Equal
-          const n = effectiveRemainingMonths;
-          // Recalculate PMT based on remaining balance at start of repayment period
-          // For simplicity in standard P&I, we calculate PMT for the amortizing period
-          // effectively treating it as a new loan starting after grace period.
-          // Note: Accurate P&I with grace period usually keeps the original loan amount as basis if interest was paid.
-          monthlyTotal = (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, n)) / (Math.pow(1 + monthlyRate, n) - 1);
-          principalPayment = monthlyTotal - interestPayment;
-        }
-      }
+  // Target DSR cap for the limit solver
+  const [dsrCap, setDsrCap] = useState<number>(DSR_CAP_PRESETS.Bank);
 
-      remainingBalance -= principalPayment;
-      if (remainingBalance < 0) remainingBalance = 0; 
+  // Result panel: the DSR calculation, keep-vs-switch for a refinance (대환대출), or the product ranking
+  const [mode, setMode] = useState<AppMode>('dsr');
+  const [refinance, setRefinance] = useState<RefinanceSettings>(DEFAULT_REFINANCE_SETTINGS);
 
-      monthlyPayments.push({
-        month: m,
-        payment: monthlyTotal,
-        principal: principalPayment,
-        interest: interestPayment,
-        balance: remainingBalance
-      });
+  // Imported lender products
+  const [products, setProducts] = useState<LoanProduct[]>(loadProductCatalog);
 
-      totalInterest += interestPayment;
-      totalPayment += monthlyTotal;
-    }
+  useEffect(() => {
+    persistProductCatalog(products);
+  }, [products]);
 
-    // 2. Calculate DSR Ratio (Official Logic)
-    // DSR = (Annual Principal Burden + Annual Interest Burden) / Annual Income
-
-    let annualPrincipalBurden = 0;
-    let annualInterestBurden = 0;
-
-    // A. Principal Burden Calculation
-    if (collateralType === CollateralType.Housing) {
-        // Housing Logic: Penalize Grace Period
-        // If Grace Period exists, Principal is divided by (Loan Term - Grace Period)
-        const effectiveTermYear = loanTermYear - gracePeriodYear;
-        if (effectiveTermYear > 0) {
-            annualPrincipalBurden = loanAmount / effectiveTermYear;
-        } else {
-            annualPrincipalBurden = loanAmount; // Should not happen logically unless term=grace
-        }
-    } else {
-        // Other Collateral Logic: Standard Average
-        // Usually treated as LoanAmount / LoanTerm (or specific deemed maturity like 8/10 years)
-        // Here we use LoanTerm based on user input.
-        annualPrincipalBurden = loanAmount / loanTermYear;
-    }
+  // Saved Scenarios
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(loadScenarios);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
 
-    // B. Interest Burden Calculation
-    // Use Stress Rate if applied. 
-    // We calculate the Total Interest over the full term using the Stress Rate, then divide by Loan Term.
-    let totalStressInterest = 0;
-    
-    // Quick simulation for Total Interest under Stress Rate
-    // We can't just use 'totalInterest' from above because that uses the actual rate.
-    let stressBalance = loanAmount;
-    for (let m = 1; m <= totalMonths; m++) {
-        const stressInt = stressBalance * stressMonthlyRate;
-        let stressPrincipal = 0;
-        
-        if (m > graceMonths) {
-             const effectiveRemainingMonths = totalMonths - graceMonths;
-             if (repaymentMethod === RepaymentMethod.PrincipalEqual) {
-                 stressPrincipal = loanAmount / effectiveRemainingMonths;
-             } else {
-                 const n = effectiveRemainingMonths;
-                 const pmt = (loanAmount * stressMonthlyRate * Math.pow(1 + stressMonthlyRate, n)) / (Math.pow(1 + stressMonthlyRate, n) - 1);
-                 stressPrincipal = pmt - stressInt;
-             }
-        }
-        
-        totalStressInterest += stressInt;
-        stressBalance -= stressPrincipal;
-        if (stressBalance < 0) stressBalance = 0;
-    }
+  useEffect(() => {
+    persistScenarios(scenarios);
+  }, [scenarios]);
 
-    annualInterestBurden = totalStressInterest / loanTermYear;
+  // Keep the URL in sync with the inputs so links and back/forward navigation restore scenarios
+  const isFirstUrlSync = useRef(true);
+  const skipNextUrlPush = useRef(false);
 
-    // Total Annual Repayment for DSR
-    const annualRepaymentForDsr = annualPrincipalBurden + annualInterestBurden;
+  useEffect(() => {
+    if (skipNextUrlPush.current) {
+      skipNextUrlPush.current = false;
+      return;
+    }
+    const timer = setTimeout(() => {
+      const encoded = encodeShareLink(inputs);
+      if (readShareParam() === encoded) return;
 
-    const dsrRatio = annualIncome > 0 ? (annualRepaymentForDsr / annualIncome) * 100 : 0;
+      const url = new URL(window.location.href);
+      url.searchParams.set(SHARE_PARAM, encoded);
+      if (isFirstUrlSync.current) window.history.replaceState(null, '', url);
+      else window.history.pushState(null, '', url);
+      isFirstUrlSync.current = false;
+    }, URL_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [inputs]);
 
-    return {
-      dsrRatio,
-      monthlyPayments,
-      totalInterest, // Actual total interest
-      totalPayment, // Actual total payment
-      avgMonthlyPayment: totalPayment / totalMonths,
-      stressDsrRateUsed: stressInterestRate
+  useEffect(() => {
+    const handlePopState = () => {
+      const param = readShareParam();
+      const link = param ? decodeShareLink(param) : null;
+      if (link && 'error' in link) {
+        setLinkNotice(link);
+        return;
+      }
+      skipNextUrlPush.current = true;
+      setInputs(link && 'inputs' in link ? link.inputs : DEFAULT_LOAN_INPUTS);
     };
-  }, [inputs]);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const captureRef = useRef<HTMLDivElement>(null);
+
+  // Calculation Logic
+  const validationIssues = useMemo(() => validateInputs(inputs), [inputs]);
+  const inputsValid = !hasErrors(validationIssues);
+  // Invalid inputs are never calculated, so no NaN reaches the results or the AI prompt
+  const calculateDSR = useMemo((): CalculationResult | null => (inputsValid ? calculateDsr(inputs) : null), [inputs, inputsValid]);
+
+  // Inline message for a field, from its first error
+  const fieldError = (field: string): string | undefined => {
+    const issue = validationIssues.find((i) => i.field === field && i.severity === 'error');
+    return issue ? t(issue.message, issue.params) : undefined;
+  };
 
   // Handlers
   const updateInput = (key: keyof LoanInputs, value: any) => {
     setInputs(prev => ({ ...prev, [key]: value }));
   };
 
+  // The reset path's spread follows the contract rate, so the first reset keeps the entered
+  // rate unless the assumed index rate moves
+  const updateInterestRate = (interestRate: number) => {
+    setInputs(prev => ({
+      ...prev,
+      interestRate,
+      ratePath: { ...prev.ratePath, spread: Number((interestRate - prev.ratePath.indexRate).toFixed(4)) },
+    }));
+  };
+
+  // The builder's recognized income replaces the directly entered income while enabled;
+  // the entered income is kept aside and restored when the builder is turned off
+  const updateIncome = (settings: IncomeSettings) => {
+    setInputs(prev => {
+      const manualAnnualIncome = prev.income.enabled ? prev.income.manualAnnualIncome : prev.annualIncome;
+      return {
+        ...prev,
+        income: { ...settings, manualAnnualIncome },
+        annualIncome: settings.enabled ? recognizeIncome(settings).total : manualAnnualIncome,
+      };
+    });
+  };
+
+  const updateProperty = (key: keyof PropertyInfo, value: any) => {
+    setInputs(prev => ({ ...prev, property: { ...prev.property, [key]: value } }));
+  };
+
+  const saveScenario = (name: string) => {
+    const scenario = createScenario(name, inputs);
+    setScenarios(prev => [...prev, scenario]);
+    setActiveScenarioId(scenario.id);
+  };
+
+  const overwriteScenario = (id: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, inputs, savedAt: new Date().toISOString() } : s));
+  };
+
+  const loadScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    setInputs(scenario.inputs);
+    setActiveScenarioId(id);
+  };
+
+  const duplicateScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    setScenarios(prev => [...prev, createScenario(t('scenario.copyName', { name: scenario.name }), scenario.inputs)]);
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+  };
+
+  const deleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    setComparedIds(prev => prev.filter(c => c !== id));
+    if (activeScenarioId === id) setActiveScenarioId(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setComparedIds(prev => {
+      if (prev.includes(id)) return prev.filter(c => c !== id);
+      return prev.length < MAX_COMPARED_SCENARIOS ? [...prev, id] : prev;
+    });
+  };
+
+  // A product picked from the ranking becomes the scenario in the form
+  const loadProduct = (productInputs: LoanInputs) => {
+    setInputs(productInputs);
+    setMode('dsr');
+  };
+
+  const comparedScenarios = comparedIds
+    .map(id => scenarios.find(s => s.id === id))
+    .filter((s): s is SavedScenario => s !== undefined);
+
   return (
     <div className="min-h-screen bg-slate-50 py-8 px-4 sm:px-6 lg:px-8">
       <div ref={captureRef} className="max-w-6xl mx-auto bg-slate-50 p-4 sm:p-6 rounded-xl">
         {/* Header */}
-        <div className="mb-8 text-center sm:text-left">
-          <h1 className="text-3xl font-bold text-slate-900 flex items-center justify-center sm:justify-start gap-3">
-            <Calculator className="w-8 h-8 text-blue-600" />
-            Smart DSR 계산기
-          </h1>
-          <p className="mt-2 text-slate-600">
-            스트레스 DSR 3.0% 적용 시뮬레이션 및 AI 기반 상환 분석
-          </p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="text-center sm:text-left">
+            <h1 className="text-3xl font-bold text-slate-900 flex items-center justify-center sm:justify-start gap-3">
+              <Calculator className="w-8 h-8 text-blue-600" />
+              {t('app.title')}
+            </h1>
+            <p className="mt-2 text-slate-600">
+              {t('app.subtitle')}
+            </p>
+          </div>
+          <LocaleSwitcher />
         </div>
 
+        {linkNotice && (
+          <div className="mb-6 flex items-start gap-3 p-4 rounded-lg border border-amber-300 bg-amber-50 text-sm text-amber-900" data-html2canvas-ignore="true">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-amber-600" />
+            <p className="flex-1">{describeLinkProblem(linkNotice, t)}</p>
+            <button onClick={() => setLinkNotice(null)} className="text-amber-500 hover:text-amber-700" aria-label={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {rulesNotice && (
+          <div className="mb-6 flex items-start gap-3 p-4 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-900" data-html2canvas-ignore="true">
+            <Info className="w-5 h-5 flex-shrink-0 text-blue-600" />
+            <p className="flex-1">{t('app.rulesUpdated', { from: rulesNotice, to: RULES_VERSION })}</p>
+            <button onClick={() => setRulesNotice(null)} className="text-blue-400 hover:text-blue-600" aria-label={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Input Section */}
           <div className="lg:col-span-4 space-y-6">
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-              <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b pb-2">대출 조건 입력</h2>
+              <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b pb-2">{t('inputs.title')}</h2>
               
               <div className="space-y-5">
-                <InputField 
-                  label="연소득 (세전)" 
-                  unit="원" 
-                  value={inputs.annualIncome} 
-                  onChange={(v) => updateInput('annualIncome', v)}
-                  step={1000000}
-                />
+                {inputs.income.enabled ? (
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.recognizedIncome')}</label>
+                    <div className="flex items-center justify-between rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm">
+                      <span className="font-semibold text-slate-900">{formatNumber(inputs.annualIncome)} {t('unit.won')}</span>
+                      <span className="text-xs text-slate-500">{t('inputs.recognizedIncomeHint')}</span>
+                    </div>
+                  </div>
+                ) : (
+                  <InputField 
+                    label={t('inputs.annualIncome')} 
+                    unit={t('unit.won')} 
+                    value={inputs.annualIncome} 
+                    onChange={(v) => updateInput('annualIncome', v)}
+                    error={fieldError('annualIncome')}
+                    step={1000000}
+                  />
+                )}
 
                 <InputField 
-                  label="대출 금액" 
-                  unit="원" 
+                  label={t('inputs.loanAmount')} 
+                  unit={t('unit.won')} 
                   value={inputs.loanAmount} 
                   onChange={(v) => updateInput('loanAmount', v)}
+                  error={fieldError('loanAmount')}
                   step={1000000}
                 />
 
                 <div className="grid grid-cols-2 gap-4">
                   <InputField 
-                    label="대출 기간" 
-                    unit="년" 
+                    label={t('inputs.loanTerm')} 
+                    unit={t('unit.year')} 
                     value={inputs.loanTermYear} 
                     onChange={(v) => updateInput('loanTermYear', v)}
+                    error={fieldError('loanTermYear')}
                   />
                   <InputField 
-                    label="거치 기간" 
-                    unit="년" 
+                    label={t('inputs.gracePeriod')} 
+                    unit={t('unit.year')} 
                     value={inputs.gracePeriodYear} 
                     onChange={(v) => updateInput('gracePeriodYear', v)}
+                    error={fieldError('gracePeriodYear')}
                   />
                 </div>
 
                 <InputField 
-                  label="대출 금리" 
+                  label={t('inputs.interestRate')} 
                   unit="%" 
                   value={inputs.interestRate} 
-                  onChange={(v) => updateInput('interestRate', v)}
+                  onChange={updateInterestRate}
+                  error={fieldError('interestRate')}
                   step={0.1}
                 />
 
+                {/* Rate Type */}
+                <div>
+                  <label className="text-sm font-medium text-slate-700 mb-2 block">{t('inputs.rateType')}</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <select
+                      value={inputs.rateType}
+                      onChange={(e) => updateInput('rateType', e.target.value)}
+                      className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                    >
+                      {[RateType.Variable, RateType.Mixed, RateType.Periodic, RateType.Fixed].map((type) => (
+                        <option key={type} value={type}>{t(`rateType.${type}`)}</option>
+                      ))}
+                    </select>
+                    {(inputs.rateType === RateType.Mixed || inputs.rateType === RateType.Periodic) && (
+                      <InputField
+                        label=""
+                        unit={t(inputs.rateType === RateType.Mixed ? 'inputs.fixedPeriodUnit' : 'inputs.resetPeriodUnit')}
+                        value={inputs.fixedPeriodYear}
+                        onChange={(v) => updateInput('fixedPeriodYear', v)}
+                        error={fieldError('fixedPeriodYear')}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {inputs.rateType !== RateType.Fixed && (
+                  <RatePathEditor
+                    rateType={inputs.rateType}
+                    fixedPeriodYear={inputs.fixedPeriodYear}
+                    ratePath={inputs.ratePath}
+                    onChange={(ratePath) => updateInput('ratePath', ratePath)}
+                  />
+                )}
+
                 {/* Repayment Method */}
                 <div>
-                  <label className="text-sm font-medium text-slate-700 mb-2 block">상환 방식</label>
+                  <label className="text-sm font-medium text-slate-700 mb-2 block">{t('inputs.repaymentMethod')}</label>
                   <div className="grid grid-cols-2 gap-2">
-                    <button
-                      onClick={() => updateInput('repaymentMethod', RepaymentMethod.PrincipalInterestEqual)}
-                      className={`px-3 py-2 text-sm rounded-md border transition-all ${
-                        inputs.repaymentMethod === RepaymentMethod.PrincipalInterestEqual
-                          ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
-                          : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
-                      }`}
-                    >
-                      원리금균등
-                    </button>
-                    <button
-                      onClick={() => updateInput('repaymentMethod', RepaymentMethod.PrincipalEqual)}
-                      className={`px-3 py-2 text-sm rounded-md border transition-all ${
-                        inputs.repaymentMethod === RepaymentMethod.PrincipalEqual
-                          ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
-                          : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
-                      }`}
-                    >
-                      원금균등
-                    </button>
+                    {Object.values(RepaymentMethod).map((method) => (
+                      <button
+                        key={method}
+                        onClick={() => updateInput('repaymentMethod', method)}
+                        className={`px-3 py-2 text-sm rounded-md border transition-all ${
+                          inputs.repaymentMethod === method
+                            ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                            : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                        }`}
+                      >
+                        {t(`repaymentMethod.${method}`)}
+                      </button>
+                    ))}
                   </div>
+                  {inputs.repaymentMethod === RepaymentMethod.Bullet && (
+                    <p className="text-xs text-slate-500 mt-1 ml-1">
+                      {t(inputs.collateralType === CollateralType.Housing ? 'inputs.bulletHintHousing' : 'inputs.bulletHintOther')}
+                    </p>
+                  )}
+                  {inputs.repaymentMethod === RepaymentMethod.Graduated && (
+                    <p className="text-xs text-slate-500 mt-1 ml-1">
+                      {t('inputs.graduatedHint', { step: GRADUATED_ANNUAL_STEP })}
+                    </p>
+                  )}
                 </div>
 
+                {/* Start date and day count */}
+                <LoanCalendarEditor
+                  calendar={inputs.calendar}
+                  onChange={(calendar) => updateInput('calendar', calendar)}
+                  fieldError={fieldError}
+                />
+
                 {/* Collateral Type */}
                 <div>
-                  <label className="text-sm font-medium text-slate-700 mb-2 block">담보 종류</label>
+                  <label className="text-sm font-medium text-slate-700 mb-2 block">{t('inputs.collateralType')}</label>
                   <div className="relative">
                     <select
                       value={inputs.collateralType}
                       onChange={(e) => updateInput('collateralType', e.target.value)}
                       className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border appearance-none"
                     >
-                      <option value={CollateralType.Housing}>주택 및 오피스텔</option>
-                      <option value={CollateralType.Other}>기타 담보대출 (토지/상가 등)</option>
+                      <option value={CollateralType.Housing}>{t('collateral.Housing')}</option>
+                      <option value={CollateralType.Other}>{t('collateral.Other')}</option>
                     </select>
                     <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
                       <Building2 className="w-4 h-4" />
@@ -269,47 +409,138 @@ function App() {
                   </div>
                   {inputs.collateralType === CollateralType.Housing && inputs.gracePeriodYear > 0 && (
                     <p className="text-xs text-orange-600 mt-1 ml-1">
-                      * 주택담보대출 거치기간 설정 시 DSR 계산에서 원금 상환 기간이 단축되어 불리할 수 있습니다.
+                      {t('inputs.housingGraceWarning')}
                     </p>
                   )}
                 </div>
 
-                {/* Stress DSR Toggle */}
-                <div 
-                  className={`p-4 rounded-lg border cursor-pointer transition-all ${
-                    inputs.applyStressDsr 
-                      ? 'bg-indigo-50 border-indigo-500 ring-1 ring-indigo-500' 
-                      : 'bg-slate-50 border-slate-200 hover:border-slate-300'
-                  }`}
-                  onClick={() => updateInput('applyStressDsr', !inputs.applyStressDsr)}
-                >
-                  <div className="flex items-start gap-3">
-                    <div className={`mt-0.5 w-5 h-5 rounded border flex items-center justify-center flex-shrink-0 ${
-                       inputs.applyStressDsr ? 'bg-indigo-600 border-indigo-600' : 'bg-white border-slate-400'
-                    }`}>
-                      {inputs.applyStressDsr && <CheckCircle2 className="w-3.5 h-3.5 text-white" />}
-                    </div>
-                    <div>
-                      <p className={`text-sm font-medium ${inputs.applyStressDsr ? 'text-indigo-900' : 'text-slate-700'}`}>
-                        스트레스 DSR (3.0%) 적용
-                      </p>
-                      <p className="text-xs text-slate-500 mt-1">
-                        수도권 규제지역 주택담보대출 시뮬레이션
-                      </p>
+                {/* Property (LTV/DTI) */}
+                {inputs.collateralType === CollateralType.Housing && (
+                  <div className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+                    <InputField
+                      label={t('inputs.propertyPrice')}
+                      unit={t('unit.won')}
+                      value={inputs.property.price}
+                      onChange={(v) => updateProperty('price', v)}
+                      error={fieldError('property.price')}
+                      step={10000000}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.zone')}</label>
+                        <select
+                          value={inputs.property.zone}
+                          onChange={(e) => updateProperty('zone', e.target.value)}
+                          className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                        >
+                          {Object.values(RegulationZone).map((zone) => (
+                            <option key={zone} value={zone}>{t(`zone.${zone}`)}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.borrowerStatus')}</label>
+                        <select
+                          value={inputs.property.borrowerStatus}
+                          onChange={(e) => updateProperty('borrowerStatus', e.target.value)}
+                          className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                        >
+                          {Object.values(BorrowerStatus).map((status) => (
+                            <option key={status} value={status}>{t(`borrowerStatus.${status}`)}</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
+
+                {/* Stress DSR Policy */}
+                <StressPolicySelector
+                  settings={inputs.stressDsr}
+                  onChange={(settings) => updateInput('stressDsr', settings)}
+                />
 
               </div>
             </div>
+
+            <IncomeBuilder
+              settings={inputs.income}
+              annualIncome={inputs.annualIncome}
+              onChange={updateIncome}
+            />
+
+            <DebtList
+              debts={inputs.existingDebts}
+              onChange={(debts) => updateInput('existingDebts', debts)}
+              fieldError={fieldError}
+            />
+
+            <PrepaymentEditor
+              settings={inputs.prepayment}
+              onChange={(settings) => updateInput('prepayment', settings)}
+            />
+
+            <ScenarioManager
+              scenarios={scenarios}
+              activeScenarioId={activeScenarioId}
+              comparedIds={comparedIds}
+              onSave={saveScenario}
+              onOverwrite={overwriteScenario}
+              onLoad={loadScenario}
+              onDuplicate={duplicateScenario}
+              onRename={renameScenario}
+              onDelete={deleteScenario}
+              onToggleCompare={toggleCompare}
+            />
           </div>
 
           {/* Result Section */}
-          <div className="lg:col-span-8">
-            <Results result={calculateDSR} inputs={inputs} captureRef={captureRef} />
+          <div className="lg:col-span-8 space-y-6">
+            <div className="flex gap-2" data-html2canvas-ignore="true">
+              {([['dsr', Calculator], ['refinance', ArrowLeftRight], ['products', Landmark]] as const).map(([id, Icon]) => (
+                <button
+                  key={id}
+                  onClick={() => setMode(id)}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm rounded-lg border transition-all ${
+                    mode === id
+                      ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                      : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {t(`app.mode.${id}`)}
+                </button>
+              ))}
+            </div>
+            {mode === 'dsr' && comparedScenarios.length >= 2 && (
+              <ScenarioComparison scenarios={comparedScenarios} onRemove={toggleCompare} />
+            )}
+            {validationIssues.length > 0 && <ValidationSummary issues={validationIssues} />}
+            {mode === 'refinance' ? (
+              <RefinanceComparison inputs={inputs} settings={refinance} onChange={setRefinance} dsrCap={dsrCap} inputsValid={inputsValid} />
+            ) : mode === 'products' ? (
+              <ProductCatalog
+                inputs={inputs}
+                products={products}
+                onProductsChange={setProducts}
+                onLoadProduct={loadProduct}
+                dsrCap={dsrCap}
+                inputsValid={inputsValid}
+              />
+            ) : calculateDSR && (
+              <Results
+                result={calculateDSR}
+                inputs={inputs}
+                dsrCap={dsrCap}
+                onDsrCapChange={setDsrCap}
+                captureRef={captureRef}
+              />
+            )}
           </div>
         </div>
       </div>
+
+      <UpdatePrompt />
     </div>
   );
 }
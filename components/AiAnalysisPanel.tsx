@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrainCircuit, Lightbulb, Loader2, RotateCcw, Send, Square, WifiOff } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { AnalysisProvider, AnalysisSession } from '../services/analysisProvider';
+import { ANALYSIS_PROVIDERS, loadAnalysisProvider, persistAnalysisProvider } from '../services/analysisSettings';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleProvider';
+import { AiAnalysisResult, AiChatMessage, AiRiskLevel, CalculationResult, LoanInputs } from '../types';
+
+interface AiAnalysisPanelProps {
+  inputs: LoanInputs;
+  result: CalculationResult;
+  // Reports each completed analysis together with the result it describes
+  onAnalysisComplete?: (analysis: AiAnalysisResult, provider: AnalysisProvider, result: CalculationResult) => void;
+}
+
+const RISK_BADGES: Record<AiRiskLevel, { label: MessageKey; className: string }> = {
+  'Safe': { label: 'risk.Safe', className: 'bg-green-100 text-green-700' },
+  'Caution': { label: 'risk.Caution', className: 'bg-yellow-100 text-yellow-700' },
+  'High Risk': { label: 'risk.HighRisk', className: 'bg-red-100 text-red-700' },
+};
+
+const QUESTION_EXAMPLES: MessageKey[] = ['analysis.exampleTerm', 'analysis.exampleFixed'];
+
+// Browser connectivity. Only remote providers depend on it; the calculator itself runs offline.
+const useOnlineStatus = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+};
+
+export const AiAnalysisPanel: React.FC<AiAnalysisPanelProps> = ({ inputs, result, onAnalysisComplete }) => {
+  const { locale, t } = useI18n();
+  const [provider, setProvider] = useState<AnalysisProvider>(loadAnalysisProvider);
+  const [analysis, setAnalysis] = useState<Partial<AiAnalysisResult> | null>(null);
+  const [messages, setMessages] = useState<AiChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Result the conversation was started with; a different current result makes it stale
+  const [sessionResult, setSessionResult] = useState<CalculationResult | null>(null);
+  const [sessionLocale, setSessionLocale] = useState(locale); // Language the session answers in
+
+  const sessionRef = useRef<AnalysisSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stale = sessionResult !== null && (sessionResult !== result || sessionLocale !== locale);
+  const online = useOnlineStatus();
+  const offline = !online && provider.requiresNetwork;
+  const offlineFallback = ANALYSIS_PROVIDERS.find((p) => !p.requiresNetwork && p.isAvailable());
+
+  // Stop any reply still streaming for the previous inputs
+  useEffect(() => {
+    abortRef.current?.abort();
+  }, [result]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const reset = () => {
+    abortRef.current?.abort();
+    sessionRef.current = null;
+    setSessionResult(null);
+    setAnalysis(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const beginStream = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming(true);
+    setError(null);
+    return controller;
+  };
+
+  const endStream = () => {
+    abortRef.current = null;
+    setStreaming(false);
+  };
+
+  const handleAnalyze = async () => {
+    reset();
+    const session = provider.createSession(inputs, result, locale);
+    sessionRef.current = session;
+    setSessionResult(result);
+    setSessionLocale(locale);
+
+    const controller = beginStream();
+    const final = await session.analyze(
+      (partial) => !controller.signal.aborted && setAnalysis(partial),
+      controller.signal
+    );
+    // Superseded by a newer analysis, which owns the panel state now
+    if (abortRef.current !== controller) return;
+
+    if (final && !controller.signal.aborted) {
+      setAnalysis(final);
+      onAnalysisComplete?.(final, provider, result);
+    } else {
+      // Without a complete analysis there is nothing to follow up on; offer a fresh start
+      sessionRef.current = null;
+      setSessionResult(null);
+      setAnalysis(null);
+      setError(controller.signal.aborted
+        ? t('analysis.cancelled')
+        : t(navigator.onLine ? 'analysis.failed' : 'analysis.offlineFailed'));
+    }
+    endStream();
+  };
+
+  const handleAsk = async (text: string) => {
+    const session = sessionRef.current;
+    if (!session || !text.trim() || streaming) return;
+
+    setQuestion('');
+    setMessages((prev) => [...prev, { role: 'user', text: text.trim() }, { role: 'model', text: '' }]);
+    const updateReply = (reply: string) =>
+      setMessages((prev) => [...prev.slice(0, -1), { role: 'model', text: reply }]);
+
+    const controller = beginStream();
+    const reply = await session.ask(
+      text.trim(),
+      (partial) => !controller.signal.aborted && updateReply(partial),
+      controller.signal
+    );
+    if (abortRef.current !== controller) return;
+
+    if (reply === null) {
+      if (!controller.signal.aborted) setError(t(navigator.onLine ? 'analysis.replyFailed' : 'analysis.offlineFailed'));
+      // Drop an empty placeholder, keep whatever had streamed before the cancel
+      setMessages((prev) => (prev[prev.length - 1]?.text ? prev : prev.slice(0, -1)));
+    }
+    endStream();
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleProviderChange = (id: string) => {
+    const next = ANALYSIS_PROVIDERS.find((p) => p.id === id);
+    if (!next) return;
+    reset();
+    setProvider(next);
+    persistAnalysisProvider(next.id);
+  };
+
+  const badge = analysis?.riskLevel ? RISK_BADGES[analysis.riskLevel] : null;
+
+  return (
+    <div className="bg-gradient-to-r from-indigo-50 to-blue-50 rounded-xl border border-indigo-100 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BrainCircuit className="w-6 h-6 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-indigo-900">{t('analysis.title')}</h3>
+        </div>
+        <div className="flex items-center gap-2" data-html2canvas-ignore="true">
+          <select
+            value={provider.id}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            disabled={streaming}
+            title={t(`provider.${provider.id}.description`)}
+            aria-label={t('analysis.engine')}
+            className="rounded-md border border-indigo-200 bg-white py-2 pl-2 pr-8 text-sm text-slate-700 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {ANALYSIS_PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id} disabled={!p.isAvailable() || (!online && p.requiresNetwork)}>
+                {t(`provider.${p.id}.label`)}
+                {!p.isAvailable() ? t('analysis.noApiKey') : !online && p.requiresNetwork ? t('analysis.offlineSuffix') : ''}
+              </option>
+            ))}
+          </select>
+          {streaming && (
+            <button
+              onClick={handleCancel}
+              className="px-3 py-2 bg-white border border-slate-300 text-slate-600 text-sm font-medium rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-1.5"
+            >
+              <Square className="w-3.5 h-3.5" />
+              {t('analysis.stop')}
+            </button>
+          )}
+          {!sessionResult && !streaming && (
+            <button
+              onClick={handleAnalyze}
+              disabled={offline}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              {t('analysis.run')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {offline && (
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3 p-3 rounded-lg bg-slate-100 border border-slate-200 text-sm text-slate-700" data-html2canvas-ignore="true">
+          <span className="flex items-center gap-2">
+            <WifiOff className="w-4 h-4 flex-shrink-0 text-slate-500" />
+            {t('analysis.offline', { provider: t(`provider.${provider.id}.label`) })}
+          </span>
+          {offlineFallback && (
+            <button
+              onClick={() => handleProviderChange(offlineFallback.id)}
+              disabled={streaming}
+              className="font-medium text-indigo-700 hover:underline disabled:opacity-50"
+            >
+              {t('analysis.useOffline', { provider: t(`provider.${offlineFallback.id}.label`) })}
+            </button>
+          )}
+        </div>
+      )}
+
+      {stale && (
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          <span>{t('analysis.stale')}</span>
+          <button
+            onClick={handleAnalyze}
+            disabled={offline}
+            data-html2canvas-ignore="true"
+            className="flex items-center gap-1 font-medium text-amber-900 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            {t('analysis.rerun')}
+          </button>
+        </div>
+      )}
+
+      {streaming && !analysis?.summary && (
+        <div className="text-indigo-600 text-sm animate-pulse">{t('analysis.loading')}</div>
+      )}
+
+      {error && !streaming && <div className="text-sm text-red-600 mb-3">{error}</div>}
+
+      {analysis?.summary && (
+        <div className={`space-y-3 ${stale ? 'opacity-60' : ''}`}>
+          <div className="bg-white p-4 rounded-lg border border-indigo-100 shadow-sm">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-semibold text-slate-800">{t('analysis.summary')}</span>
+              {badge && (
+                <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${badge.className}`}>{t(badge.label)}</span>
+              )}
+            </div>
+            <p className="text-sm text-slate-700 whitespace-pre-line">{analysis.summary}</p>
+          </div>
+
+          {(analysis.stressDsrImpact || analysis.gracePeriodImpact) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {analysis.stressDsrImpact && (
+                <div className="bg-white p-4 rounded-lg border border-indigo-100 shadow-sm">
+                  <div className="text-sm font-semibold text-slate-800 mb-1">{t('analysis.stressImpact')}</div>
+                  <p className="text-sm text-slate-700">{analysis.stressDsrImpact}</p>
+                </div>
+              )}
+              {analysis.gracePeriodImpact && (
+                <div className="bg-white p-4 rounded-lg border border-indigo-100 shadow-sm">
+                  <div className="text-sm font-semibold text-slate-800 mb-1">{t('analysis.graceImpact')}</div>
+                  <p className="text-sm text-slate-700">{analysis.gracePeriodImpact}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {analysis.suggestions && analysis.suggestions.length > 0 && (
+            <div className="bg-white p-4 rounded-lg border border-indigo-100 shadow-sm">
+              <div className="flex items-center gap-1.5 text-sm font-semibold text-slate-800 mb-2">
+                <Lightbulb className="w-4 h-4 text-amber-500" />
+                {t('analysis.suggestions')}
+              </div>
+              <ul className="space-y-1.5">
+                {analysis.suggestions.map((suggestion, index) => (
+                  <li key={index} className="flex gap-2 text-sm text-slate-700">
+                    <span className="font-semibold text-indigo-600">{index + 1}.</span>
+                    {suggestion}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Follow-up chat, available once the analysis has finished */}
+      {sessionRef.current && analysis?.suggestions && (
+        <div className={`mt-4 space-y-3 ${stale ? 'opacity-60' : ''}`}>
+          {messages.map((message, index) => (
+            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              {message.role === 'user' ? (
+                <div className="max-w-[80%] px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm">{message.text}</div>
+              ) : (
+                <div className="max-w-[90%] prose prose-sm text-slate-700 bg-white p-3 rounded-lg border border-indigo-100 shadow-sm">
+                  {message.text ? <ReactMarkdown>{message.text}</ReactMarkdown> : <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {!stale && (
+            <div data-html2canvas-ignore="true">
+              {messages.length === 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {QUESTION_EXAMPLES.map((key) => t(key)).map((example) => (
+                    <button
+                      key={example}
+                      onClick={() => handleAsk(example)}
+                      disabled={streaming || offline}
+                      className="px-3 py-1 text-xs rounded-full border border-indigo-200 bg-white text-indigo-700 hover:bg-indigo-50 disabled:opacity-50"
+                    >
+                      {example}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleAsk(question);
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  type="text"
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  placeholder={t('analysis.placeholder')}
+                  className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={streaming || offline || !question.trim()}
+                  className="px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                  aria-label={t('analysis.send')}
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, FileDown, FileSpreadsheet } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { CalculationResult, LoanInputs } from '../types';
+import {
+  buildScheduleRows,
+  groupScheduleByYear,
+  isDatedSchedule,
+  exportScheduleCsv,
+  exportScheduleXlsx,
+  ScheduleRow,
+  ScheduleYear,
+} from '../services/scheduleExport';
+
+interface AmortizationTableProps {
+  result: CalculationResult;
+  inputs: LoanInputs;
+}
+
+type TableItem =
+  | { kind: 'year'; group: ScheduleYear }
+  | { kind: 'month'; row: ScheduleRow };
+
+// Fixed row height lets the list render only the rows inside the viewport
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 432;
+const OVERSCAN = 6;
+
+const GRID_COLUMNS = 'grid grid-cols-[5rem_repeat(6,minmax(0,1fr))] gap-2 items-center px-3';
+// Wider first column for the payment date under the installment number
+const DATED_GRID_COLUMNS = 'grid grid-cols-[6.5rem_repeat(6,minmax(0,1fr))] gap-2 items-center px-3';
+
+export const AmortizationTable: React.FC<AmortizationTableProps> = ({ result, inputs }) => {
+  const { locale, t, formatNumber } = useI18n();
+  const formatAmount = (val: number) => formatNumber(val, { maximumFractionDigits: 0 });
+  const [expandedYears, setExpandedYears] = useState<Set<number>>(new Set([1]));
+  const [showPrepayment, setShowPrepayment] = useState(true);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const schedule = showPrepayment && result.prepayment ? result.prepayment.monthlyPayments : result.monthlyPayments;
+  const rows = useMemo(() => buildScheduleRows(schedule, inputs.gracePeriodYear * 12), [schedule, inputs.gracePeriodYear]);
+  const years = useMemo(() => groupScheduleByYear(rows), [rows]);
+  const gridColumns = isDatedSchedule(rows) ? DATED_GRID_COLUMNS : GRID_COLUMNS;
+
+  const items = useMemo(() => {
+    const list: TableItem[] = [];
+    years.forEach((group) => {
+      list.push({ kind: 'year', group });
+      if (expandedYears.has(group.year)) {
+        group.rows.forEach((row) => list.push({ kind: 'month', row }));
+      }
+    });
+    return list;
+  }, [years, expandedYears]);
+
+  const toggleYear = (year: number) => {
+    setExpandedYears((prev) => {
+      const next = new Set(prev);
+      if (next.has(year)) next.delete(year);
+      else next.add(year);
+      return next;
+    });
+  };
+
+  const allExpanded = expandedYears.size === years.length;
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(items.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const exportButtonClass = "flex items-center gap-1 px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-600 hover:bg-slate-50 transition-all";
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-base font-semibold text-slate-800">{t('schedule.title')}</h3>
+        <div className="flex flex-wrap items-center gap-2" data-html2canvas-ignore="true">
+          {result.prepayment && (
+            <label className="flex items-center gap-1.5 text-sm text-slate-600 mr-2">
+              <input type="checkbox" checked={showPrepayment} onChange={(e) => setShowPrepayment(e.target.checked)} />
+              {t('schedule.withPrepayment')}
+            </label>
+          )}
+          <button
+            onClick={() => setExpandedYears(allExpanded ? new Set() : new Set(years.map((y) => y.year)))}
+            className={exportButtonClass}
+          >
+            {t(allExpanded ? 'schedule.collapseAll' : 'schedule.expandAll')}
+          </button>
+          <button onClick={() => exportScheduleCsv(inputs, result, rows, locale)} className={exportButtonClass}>
+            <FileDown className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={() => exportScheduleXlsx(inputs, result, rows, locale)} className={exportButtonClass}>
+            <FileSpreadsheet className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      <div className="text-sm border border-slate-200 rounded-lg overflow-hidden">
+        <div className={`${gridColumns} h-9 bg-slate-100 text-slate-500 font-medium`}>
+          <span>{t('results.installment')}</span>
+          <span className="text-right">{t('results.monthlyPayment')}</span>
+          <span className="text-right">{t('results.principal')}</span>
+          <span className="text-right">{t('results.interest')}</span>
+          <span className="text-right">{t('schedule.cumulativePrincipal')}</span>
+          <span className="text-right">{t('schedule.cumulativeInterest')}</span>
+          <span className="text-right">{t('schedule.balance')}</span>
+        </div>
+
+        <div
+          className="overflow-y-auto"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, items.length * ROW_HEIGHT) }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ height: items.length * ROW_HEIGHT, position: 'relative' }}>
+            {items.slice(first, last).map((item, i) => {
+              const top = (first + i) * ROW_HEIGHT;
+
+              if (item.kind === 'year') {
+                const { group } = item;
+                const lastRow = group.rows[group.rows.length - 1];
+                return (
+                  <button
+                    key={`y${group.year}`}
+                    onClick={() => toggleYear(group.year)}
+                    className={`${gridColumns} w-full text-left absolute border-b border-slate-200 font-semibold hover:bg-blue-50 ${
+                      group.hasGrace ? 'bg-amber-50 text-amber-900' : 'bg-slate-50 text-slate-800'
+                    }`}
+                    style={{ top, height: ROW_HEIGHT }}
+                  >
+                    <span className="flex items-center gap-1">
+                      {expandedYears.has(group.year) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      {t('chart.yearTick', { year: group.year })}
+                      {group.rows[0].date && (
+                        <span className="text-[10px] font-normal text-slate-500">{group.rows[0].date.slice(0, 7).replace('-', '.')}~</span>
+                      )}
+                    </span>
+                    <span className="text-right">{formatAmount(group.payment + group.prepayment)}</span>
+                    <span className="text-right">{formatAmount(group.principal + group.prepayment)}</span>
+                    <span className="text-right">{formatAmount(group.interest)}</span>
+                    <span className="text-right">{formatAmount(lastRow.cumulativePrincipal)}</span>
+                    <span className="text-right">{formatAmount(lastRow.cumulativeInterest)}</span>
+                    <span className="text-right">{formatAmount(group.endBalance)}</span>
+                  </button>
+                );
+              }
+
+              const { row } = item;
+              return (
+                <div
+                  key={`m${row.month}`}
+                  className={`${gridColumns} absolute w-full border-b border-slate-100 ${
+                    row.isGrace ? 'bg-amber-50/50 text-amber-800' : 'text-slate-700'
+                  }`}
+                  style={{ top, height: ROW_HEIGHT }}
+                >
+                  <span className="pl-5">
+                    {row.month}
+                    {row.isGrace && <span className="ml-1 text-xs">{t('schedule.grace')}</span>}
+                    {row.date && (
+                      <span className="block text-[10px] leading-none text-slate-400" title={t('schedule.interestDays', { days: row.days ?? 0 })}>{row.date}</span>
+                    )}
+                  </span>
+                  <span className="text-right">
+                    {formatAmount(row.payment)}
+                    {row.prepayment ? <span className="block text-[10px] leading-none text-blue-600">{t('schedule.prepaid', { amount: formatAmount(row.prepayment) })}</span> : null}
+                  </span>
+                  <span className="text-right">{formatAmount(row.principal)}</span>
+                  <span className="text-right">{formatAmount(row.interest)}</span>
+                  <span className="text-right">{formatAmount(row.cumulativePrincipal)}</span>
+                  <span className="text-right">{formatAmount(row.cumulativeInterest)}</span>
+                  <span className="text-right">{formatAmount(row.balance)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {inputs.gracePeriodYear > 0 && (
+        <p className="text-xs text-amber-700 mt-2 ml-1">{t('schedule.graceHint')}</p>
+      )}
+    </div>
+  );
+};
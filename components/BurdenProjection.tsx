@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { DEFAULT_PROJECTION_SETTINGS, projectBurden } from '../services/projection';
+import { CalculationResult, LoanInputs, ProjectionSettings } from '../types';
+
+interface BurdenProjectionProps {
+  inputs: LoanInputs;
+  result: CalculationResult;
+}
+
+// Loan year compared against the first year in the summary
+const COMPARISON_YEAR = 10;
+
+export const BurdenProjection: React.FC<BurdenProjectionProps> = ({ inputs, result }) => {
+  const { t, formatNumber, formatCurrency, formatCompactCurrency } = useI18n();
+  const [settings, setSettings] = useState<ProjectionSettings>(DEFAULT_PROJECTION_SETTINGS);
+
+  const projection = useMemo(
+    () => projectBurden(result.monthlyPayments, inputs.annualIncome, settings),
+    [result.monthlyPayments, inputs.annualIncome, settings]
+  );
+
+  const updateSetting = (key: keyof ProjectionSettings, value: number) => setSettings((prev) => ({ ...prev, [key]: value }));
+
+  const firstYear = projection.years[0];
+  const laterYear = projection.years[Math.min(COMPARISON_YEAR, projection.years.length) - 1];
+  const formatRatio = (ratio: number) => `${formatNumber(ratio, { maximumFractionDigits: 1 })}%`;
+  const yearLabel = (entry: { year: number; calendarYear?: number }) =>
+    entry.calendarYear !== undefined ? t('chart.calendarYearTick', { year: entry.calendarYear }) : t('chart.yearTick', { year: entry.year });
+
+  const ratioData = projection.years.map((entry) => ({ ...entry, label: yearLabel(entry) }));
+  const costData = [
+    { label: t('projection.interest'), nominal: projection.nominalInterest, real: projection.realInterest },
+    { label: t('projection.totalPayment'), nominal: projection.nominalPayment, real: projection.realPayment },
+  ];
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm lg:col-span-2">
+      <div className="flex items-center gap-2 mb-1">
+        <TrendingUp className="w-5 h-5 text-blue-600" />
+        <h3 className="text-base font-semibold text-slate-800">{t('projection.title')}</h3>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">{t('projection.description')}</p>
+
+      <div className="grid grid-cols-2 gap-3 mb-4 max-w-md" data-html2canvas-ignore="true">
+        <InputField label={t('projection.incomeGrowth')} unit="%" value={settings.incomeGrowth} onChange={(v) => updateSetting('incomeGrowth', v)} step={0.1} />
+        <InputField label={t('projection.inflation')} unit="%" value={settings.inflation} onChange={(v) => updateSetting('inflation', v)} step={0.1} />
+      </div>
+
+      {firstYear && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-5">
+          <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+            <div className="text-xs text-slate-500 mb-1">{t('projection.ratioInYear', { year: yearLabel(firstYear) })}</div>
+            <div className="text-lg font-bold text-slate-900">{formatRatio(firstYear.paymentToIncome)}</div>
+            <div className="text-xs text-slate-500 mt-1">{t('projection.incomeOf', { income: formatCompactCurrency(firstYear.income) })}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+            <div className="text-xs text-slate-500 mb-1">{t('projection.ratioInYear', { year: yearLabel(laterYear) })}</div>
+            <div className={`text-lg font-bold ${laterYear.paymentToIncome > firstYear.paymentToIncome ? 'text-red-600' : 'text-blue-600'}`}>
+              {formatRatio(laterYear.paymentToIncome)}
+            </div>
+            <div className="text-xs text-slate-500 mt-1">{t('projection.incomeOf', { income: formatCompactCurrency(laterYear.income) })}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+            <div className="text-xs text-slate-500 mb-1">{t('projection.realInterest')}</div>
+            <div className="text-lg font-bold text-slate-900">{formatCurrency(projection.realInterest)}</div>
+            <div className="text-xs text-slate-500 mt-1">{t('projection.nominalInterestOf', { amount: formatCompactCurrency(projection.nominalInterest) })}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('projection.ratioTitle')}</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={ratioData} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={12} tickMargin={10} minTickGap={20} />
+                <YAxis fontSize={12} tickFormatter={(val) => `${val}%`} width={45} />
+                <RechartsTooltip
+                  formatter={(value: number, _name: string, item: any) => [
+                    `${formatRatio(value)} (${formatCurrency(item.payload.payment)} / ${formatCurrency(item.payload.income)})`,
+                    t('projection.paymentToIncome'),
+                  ]}
+                />
+                <ReferenceLine
+                  y={result.dsrRatio}
+                  stroke="#f59e0b"
+                  strokeDasharray="4 4"
+                  label={{ value: t('projection.currentDsr', { dsr: result.dsrRatio.toFixed(1) }), position: 'insideTopRight', fontSize: 11, fill: '#b45309' }}
+                />
+                <Bar dataKey="paymentToIncome" fill="#3b82f6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('projection.costTitle')}</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={costData} margin={{ top: 10, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" fontSize={12} tickMargin={10} />
+                <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={55} />
+                <RechartsTooltip
+                  formatter={(value: number, name: string) => [formatCurrency(value), t(name === 'nominal' ? 'projection.nominal' : 'projection.real')]}
+                />
+                <Legend formatter={(val) => t(val === 'nominal' ? 'projection.nominal' : 'projection.real')} />
+                <Bar dataKey="nominal" fill="#94a3b8" name="nominal" />
+                <Bar dataKey="real" fill="#3b82f6" name="real" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { DEBT_RULES } from '../services/debtRules';
+import { DebtType, ExistingDebt, RepaymentMethod } from '../types';
+
+interface DebtListProps {
+  debts: ExistingDebt[];
+  onChange: (debts: ExistingDebt[]) => void;
+  fieldError?: (field: string) => string | undefined;
+}
+
+const createDebt = (): ExistingDebt => ({
+  id: crypto.randomUUID(),
+  type: DebtType.Credit,
+  balance: 30000000,
+  interestRate: 5.5,
+  remainingTermYear: 5,
+  repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+});
+
+export const DebtList: React.FC<DebtListProps> = ({ debts, onChange, fieldError = () => undefined }) => {
+  const { t } = useI18n();
+  const updateDebt = (id: string, key: keyof ExistingDebt, value: any) => {
+    onChange(debts.map((d) => (d.id === id ? { ...d, [key]: value } : d)));
+  };
+
+  const removeDebt = (id: string) => {
+    onChange(debts.filter((d) => d.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-semibold text-slate-800">{t('debts.title')}</h2>
+        <button
+          onClick={() => onChange([...debts, createDebt()])}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-600 hover:bg-slate-50 transition-all"
+        >
+          <Plus className="w-4 h-4" />
+          {t('debts.add')}
+        </button>
+      </div>
+
+      {debts.length === 0 && (
+        <p className="text-sm text-slate-500">{t('debts.empty')}</p>
+      )}
+
+      <div className="space-y-4">
+        {debts.map((debt, index) => {
+          const rule = DEBT_RULES[debt.type];
+          const usesActualTerm = rule.principalRule === 'Actual';
+
+          return (
+            <div key={debt.id} className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">{t('debts.item', { index: index + 1 })}</span>
+                <button
+                  onClick={() => removeDebt(debt.id)}
+                  className="text-slate-400 hover:text-red-500 transition-colors"
+                  aria-label={t('debts.remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <select
+                value={debt.type}
+                onChange={(e) => updateDebt(debt.id, 'type', e.target.value)}
+                className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+              >
+                {Object.values(DebtType).map((type) => (
+                  <option key={type} value={type}>{t(`debtType.${type}`)}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 ml-1">* {t(`debtRule.${rule.principalRule}`, { years: rule.deemedTermYear ?? 0 })}</p>
+
+              {rule.principalRule !== 'Excluded' && (
+                <>
+                  <InputField
+                    label={t('debts.balance')}
+                    unit={t('unit.won')}
+                    value={debt.balance}
+                    onChange={(v) => updateDebt(debt.id, 'balance', v)}
+                    error={fieldError(`existingDebts.${debt.id}.balance`)}
+                    step={1000000}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <InputField
+                      label={t('debts.interestRate')}
+                      unit="%"
+                      value={debt.interestRate}
+                      onChange={(v) => updateDebt(debt.id, 'interestRate', v)}
+                      error={fieldError(`existingDebts.${debt.id}.interestRate`)}
+                      step={0.1}
+                    />
+                    {usesActualTerm && (
+                      <InputField
+                        label={t('debts.remainingTerm')}
+                        unit={t('unit.year')}
+                        value={debt.remainingTermYear}
+                        onChange={(v) => updateDebt(debt.id, 'remainingTermYear', v)}
+                        error={fieldError(`existingDebts.${debt.id}.remainingTermYear`)}
+                      />
+                    )}
+                  </div>
+
+                  {rule.principalRule !== 'InterestOnly' && (
+                    <select
+                      value={debt.repaymentMethod}
+                      onChange={(e) => updateDebt(debt.id, 'repaymentMethod', e.target.value)}
+                      className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                    >
+                      {Object.values(RepaymentMethod).map((method) => (
+                        <option key={method} value={method}>{t(`repaymentMethod.${method}`)}</option>
+                      ))}
+                    </select>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
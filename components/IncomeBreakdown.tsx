@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { useI18n } from './LocaleProvider';
+import { MINIMUM_RECOGNIZED_INCOME, recognizeIncome } from '../services/incomeRules';
+import { IncomeSettings } from '../types';
+
+interface IncomeBreakdownProps {
+  settings: IncomeSettings;
+}
+
+// How the recognized income used as the DSR denominator was derived
+export const IncomeBreakdown: React.FC<IncomeBreakdownProps> = ({ settings }) => {
+  const { t, formatCurrency } = useI18n();
+  const recognized = useMemo(() => recognizeIncome(settings), [settings]);
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <h3 className="text-base font-semibold text-slate-800 mb-4">{t('incomeBreakdown.title')}</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b">
+              <th className="py-2 font-medium">{t('incomeBreakdown.source')}</th>
+              <th className="py-2 font-medium">{t('incomeBreakdown.evidence')}</th>
+              <th className="py-2 font-medium text-right">{t('incomeBreakdown.reported')}</th>
+              <th className="py-2 font-medium text-right">{t('incomeBreakdown.recognized')}</th>
+              <th className="py-2 font-medium pl-4">{t('incomeBreakdown.basis')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recognized.lines.map((line) => (
+              <tr key={line.id} className={`border-b last:border-0 ${line.counted ? 'text-slate-700' : 'text-slate-400'}`}>
+                <td className="py-2">
+                  {t(`incomeType.${line.type}`)}
+                  <span className="ml-1 text-xs text-slate-500">({t(`incomeOwner.${line.owner}`)})</span>
+                </td>
+                <td className="py-2 text-xs">{t(`incomeEvidence.${line.type}`)}</td>
+                <td className="py-2 text-right">{formatCurrency(line.reported)}</td>
+                <td className="py-2 text-right">{line.counted ? formatCurrency(line.recognized) : '-'}</td>
+                <td className="py-2 pl-4 text-xs">{t(line.counted ? `incomeRule.${line.type}` : 'incomeRule.notCombined')}</td>
+              </tr>
+            ))}
+            {recognized.minimumApplied && (
+              <tr className="text-amber-700">
+                <td className="py-2" colSpan={3}>{t('incomeBreakdown.minimum')}</td>
+                <td className="py-2 text-right">{formatCurrency(MINIMUM_RECOGNIZED_INCOME)}</td>
+                <td className="py-2 pl-4 text-xs">{t('incomeBreakdown.minimumHint')}</td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold text-slate-900 border-t">
+              <td className="pt-2" colSpan={3}>
+                {t('incomeBreakdown.total')}
+                {recognized.coBorrowerIncome > 0 && (
+                  <span className="ml-1 text-xs font-normal text-slate-500">
+                    {t('incomeBreakdown.totalSplit', {
+                      borrower: formatCurrency(recognized.borrowerIncome),
+                      coBorrower: formatCurrency(recognized.coBorrowerIncome),
+                    })}
+                  </span>
+                )}
+              </td>
+              <td className="pt-2 text-right">{formatCurrency(recognized.total)}</td>
+              <td></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { recognizeIncome } from '../services/incomeRules';
+import { IncomeOwner, IncomeSettings, IncomeSource, IncomeType } from '../types';
+
+interface IncomeBuilderProps {
+  settings: IncomeSettings;
+  annualIncome: number; // Seeds the first source when the builder is switched on
+  onChange: (settings: IncomeSettings) => void;
+}
+
+const createSource = (amount: number, owner = IncomeOwner.Borrower): IncomeSource => ({
+  id: crypto.randomUUID(),
+  type: IncomeType.Earned,
+  owner,
+  amount,
+});
+
+export const IncomeBuilder: React.FC<IncomeBuilderProps> = ({ settings, annualIncome, onChange }) => {
+  const { t, formatCurrency } = useI18n();
+  const recognized = recognizeIncome(settings);
+
+  const updateSource = (id: string, key: keyof IncomeSource, value: any) => {
+    onChange({ ...settings, sources: settings.sources.map((s) => (s.id === id ? { ...s, [key]: value } : s)) });
+  };
+
+  const toggleEnabled = () => {
+    const enabled = !settings.enabled;
+    const sources = enabled && settings.sources.length === 0 ? [createSource(annualIncome)] : settings.sources;
+    onChange({ ...settings, enabled, sources });
+  };
+
+  const toggleButtonClass = (active: boolean) =>
+    `px-3 py-2 text-sm rounded-md border transition-all ${
+      active
+        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-semibold text-slate-800">{t('incomeBuilder.title')}</h2>
+        <button onClick={toggleEnabled} className={toggleButtonClass(settings.enabled)}>
+          {t(settings.enabled ? 'incomeBuilder.detailedOn' : 'incomeBuilder.detailed')}
+        </button>
+      </div>
+
+      {!settings.enabled ? (
+        <p className="text-sm text-slate-500">{t('incomeBuilder.description')}</p>
+      ) : (
+        <div className="space-y-4">
+          {settings.sources.map((source, index) => (
+            <div key={source.id} className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">{t('incomeBuilder.item', { index: index + 1 })}</span>
+                <button
+                  onClick={() => onChange({ ...settings, sources: settings.sources.filter((s) => s.id !== source.id) })}
+                  className="text-slate-400 hover:text-red-500 transition-colors"
+                  aria-label={t('incomeBuilder.remove')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={source.type}
+                  onChange={(e) => updateSource(source.id, 'type', e.target.value)}
+                  className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                >
+                  {Object.values(IncomeType).map((type) => (
+                    <option key={type} value={type}>{t(`incomeType.${type}`)}</option>
+                  ))}
+                </select>
+                <select
+                  value={source.owner}
+                  onChange={(e) => updateSource(source.id, 'owner', e.target.value)}
+                  className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+                >
+                  {Object.values(IncomeOwner).map((owner) => (
+                    <option key={owner} value={owner}>{t(`incomeOwner.${owner}`)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <InputField
+                label={t('incomeBuilder.amount', { evidence: t(`incomeEvidence.${source.type}`) })}
+                unit={t('unit.won')}
+                value={source.amount}
+                onChange={(v) => updateSource(source.id, 'amount', v)}
+                step={1000000}
+              />
+              <p className="text-xs text-slate-500 ml-1">* {t(`incomeRule.${source.type}`)}</p>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange({ ...settings, sources: [...settings.sources, createSource(0)] })}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-600 hover:bg-slate-50 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              {t('incomeBuilder.addBorrower')}
+            </button>
+            <button
+              onClick={() => onChange({ ...settings, sources: [...settings.sources, createSource(0, IncomeOwner.CoBorrower)] })}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-600 hover:bg-slate-50 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              {t('incomeBuilder.addCoBorrower')}
+            </button>
+          </div>
+
+          {settings.sources.some((s) => s.owner === IncomeOwner.CoBorrower) && (
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.combineCoBorrower}
+                onChange={(e) => onChange({ ...settings, combineCoBorrower: e.target.checked })}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              {t('incomeBuilder.combine')}
+            </label>
+          )}
+
+          <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 text-sm">
+            <span className="text-slate-600">{t('incomeBreakdown.total')}</span>
+            <span className="font-bold text-blue-700">{formatCurrency(recognized.total)}</span>
+          </div>
+          {recognized.minimumApplied && (
+            <p className="text-xs text-amber-700 ml-1">* {t('incomeBuilder.minimumApplied')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useI18n } from './LocaleProvider';
 
 interface InputFieldProps {
   label: string;
@@ -7,6 +8,7 @@ interface InputFieldProps {
   unit?: string;
   step?: number;
   placeholder?: string;
+  error?: string; // Inline validation message
 }
 
 export const InputField: React.FC<InputFieldProps> = ({
@@ -15,8 +17,11 @@ export const InputField: React.FC<InputFieldProps> = ({
   onChange,
   unit,
   step = 1,
-  placeholder
+  placeholder,
+  error
 }) => {
+  const { formatNumber } = useI18n();
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Remove commas for the actual numeric value
     const rawValue = e.target.value.replace(/,/g, '');
@@ -27,13 +32,13 @@ export const InputField: React.FC<InputFieldProps> = ({
     }
 
     const numberValue = parseFloat(rawValue);
-    if (!isNaN(numberValue)) {
+    if (Number.isFinite(numberValue)) {
       onChange(numberValue);
     }
   };
 
-  // Format display value with commas
-  const displayValue = value === 0 ? '' : value.toLocaleString('ko-KR');
+  // Format display value with the locale's digit grouping (commas in both supported locales)
+  const displayValue = value === 0 ? '' : formatNumber(value, { maximumFractionDigits: 3 });
 
   return (
     <div className="flex flex-col gap-1">
@@ -45,7 +50,10 @@ export const InputField: React.FC<InputFieldProps> = ({
           value={displayValue}
           onChange={handleChange}
           placeholder={placeholder}
-          className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+          aria-invalid={error ? true : undefined}
+          className={`block w-full rounded-md py-2 pl-3 pr-10 text-slate-900 placeholder:text-slate-400 focus:ring-2 sm:text-sm bg-white border ${
+            error ? 'border-red-400 focus:border-red-500 focus:ring-red-500' : 'border-slate-300 focus:border-blue-500 focus:ring-blue-500'
+          }`}
         />
         {unit && (
           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
@@ -53,6 +61,7 @@ export const InputField: React.FC<InputFieldProps> = ({
           </div>
         )}
       </div>
+      {error && <p className="text-xs text-red-600 ml-1">{error}</p>}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { DSR_CAP_PRESETS } from '../services/dsrSolver';
+import { hasErrors, validateDsrCap } from '../services/validation';
+import { LoanInputs, SolverResult } from '../types';
+
+interface LimitSolverProps {
+  inputs: LoanInputs;
+  dsrCap: number;
+  solved: SolverResult; // solveDsrLimits(inputs, dsrCap)
+  onDsrCapChange: (cap: number) => void;
+}
+
+export const LimitSolver: React.FC<LimitSolverProps> = ({ inputs, dsrCap, solved, onDsrCapChange }) => {
+  const { t, formatCurrency } = useI18n();
+  const isPreset = dsrCap === DSR_CAP_PRESETS.Bank || dsrCap === DSR_CAP_PRESETS.NonBank;
+  // An invalid custom cap stays in the field with its error and is not applied
+  const [invalidCap, setInvalidCap] = useState<number | null>(null);
+  const capIssue = invalidCap !== null ? validateDsrCap(invalidCap)[0] : undefined;
+  const usage = solved.maxLoanAmount > 0 ? Math.min((inputs.loanAmount / solved.maxLoanAmount) * 100, 100) : 100;
+  const withinLimit = solved.headroom >= 0;
+
+  const capButtonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md border transition-all ${
+      active
+        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  const changeCap = (cap: number) => {
+    if (hasErrors(validateDsrCap(cap))) {
+      setInvalidCap(cap);
+      return;
+    }
+    setInvalidCap(null);
+    onDsrCapChange(cap);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-blue-600" />
+          <h3 className="text-base font-semibold text-slate-800">{t('limitSolver.title')}</h3>
+        </div>
+        <div className="flex items-center gap-2" data-html2canvas-ignore="true">
+          <button onClick={() => changeCap(DSR_CAP_PRESETS.Bank)} className={capButtonClass(dsrCap === DSR_CAP_PRESETS.Bank)}>
+            {t('limitSolver.bank', { cap: DSR_CAP_PRESETS.Bank })}
+          </button>
+          <button onClick={() => changeCap(DSR_CAP_PRESETS.NonBank)} className={capButtonClass(dsrCap === DSR_CAP_PRESETS.NonBank)}>
+            {t('limitSolver.nonBank', { cap: DSR_CAP_PRESETS.NonBank })}
+          </button>
+          <div className="w-24">
+            <InputField
+              label=""
+              unit="%"
+              value={invalidCap ?? (isPreset ? 0 : dsrCap)}
+              placeholder={t('limitSolver.custom')}
+              onChange={changeCap}
+              step={1}
+              error={capIssue && t(capIssue.message, capIssue.params)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Headroom */}
+      <div className="mb-5">
+        <div className="flex justify-between text-sm mb-1">
+          <span className="text-slate-600">{t('limitSolver.currentLoan', { amount: formatCurrency(inputs.loanAmount) })}</span>
+          <span className="text-slate-600">{t('limitSolver.limit', { amount: formatCurrency(solved.maxLoanAmount) })}</span>
+        </div>
+        <div className="w-full h-2.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className={`h-full ${withinLimit ? 'bg-blue-500' : 'bg-red-500'}`} style={{ width: `${usage}%` }}></div>
+        </div>
+        <p className={`text-sm font-medium mt-2 ${withinLimit ? 'text-blue-700' : 'text-red-600'}`}>
+          {withinLimit
+            ? t('limitSolver.headroom', { cap: dsrCap, amount: formatCurrency(solved.headroom) })
+            : t('limitSolver.overLimit', { cap: dsrCap, amount: formatCurrency(-solved.headroom) })}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('limitSolver.maxLoan')}</div>
+          <div className="text-lg font-bold text-slate-900">{formatCurrency(solved.maxLoanAmount)}</div>
+          <div className="text-xs text-slate-500 mt-1">{t('limitSolver.monthlyPayment', { amount: formatCurrency(solved.maxLoanMonthlyPayment) })}</div>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('limitSolver.minIncome')}</div>
+          <div className="text-lg font-bold text-slate-900">{formatCurrency(solved.minAnnualIncome)}</div>
+          <div className="text-xs text-slate-500 mt-1">{t('limitSolver.minIncomeBasis')}</div>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('limitSolver.minTerm')}</div>
+          <div className="text-lg font-bold text-slate-900">
+            {solved.minLoanTermYear !== null ? t('unit.years', { years: solved.minLoanTermYear }) : t('limitSolver.notApplicable')}
+          </div>
+          <div className="text-xs text-slate-500 mt-1">{t('limitSolver.minTermBasis')}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CalendarDays } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { buildAccrualPeriods } from '../services/dayCount';
+import { DayCountConvention, LoanCalendar } from '../types';
+
+interface LoanCalendarEditorProps {
+  calendar: LoanCalendar;
+  onChange: (calendar: LoanCalendar) => void;
+  fieldError?: (field: string) => string | undefined;
+}
+
+export const LoanCalendarEditor: React.FC<LoanCalendarEditorProps> = ({ calendar, onChange, fieldError = () => undefined }) => {
+  const { t } = useI18n();
+
+  const update = (key: keyof LoanCalendar, value: any) => {
+    onChange({ ...calendar, [key]: value });
+  };
+
+  const firstPeriod = buildAccrualPeriods(calendar, 1)?.[0];
+  const startDateError = fieldError('calendar.startDate');
+
+  return (
+    <div className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+      <div className="flex items-center gap-2">
+        <CalendarDays className="w-4 h-4 text-slate-500" />
+        <span className="text-sm font-medium text-slate-700">{t('calendar.title')}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-1">
+          <label className="text-sm font-medium text-slate-700">{t('calendar.startDate')}</label>
+          <input
+            type="date"
+            value={calendar.startDate}
+            onChange={(e) => update('startDate', e.target.value)}
+            aria-invalid={startDateError ? true : undefined}
+            className={`block w-full rounded-md py-2 px-3 text-slate-900 focus:ring-2 sm:text-sm bg-white border ${
+              startDateError ? 'border-red-400 focus:border-red-500 focus:ring-red-500' : 'border-slate-300 focus:border-blue-500 focus:ring-blue-500'
+            }`}
+          />
+          {startDateError && <p className="text-xs text-red-600 ml-1">{startDateError}</p>}
+        </div>
+        <InputField
+          label={t('calendar.paymentDay')}
+          unit={t('calendar.dayUnit')}
+          value={calendar.paymentDay}
+          onChange={(v) => update('paymentDay', v)}
+          error={fieldError('calendar.paymentDay')}
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium text-slate-700 mb-1 block">{t('calendar.dayCount')}</label>
+        <select
+          value={calendar.dayCount}
+          onChange={(e) => update('dayCount', e.target.value)}
+          disabled={!firstPeriod}
+          className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border disabled:bg-slate-100 disabled:text-slate-400"
+        >
+          {Object.values(DayCountConvention).map((convention) => (
+            <option key={convention} value={convention}>{t(`dayCount.${convention}`)}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-slate-500 ml-1">
+        {firstPeriod
+          ? t('calendar.firstPayment', { date: firstPeriod.date, days: firstPeriod.days })
+          : t('calendar.undatedHint')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import {
+  formatCompactCurrency,
+  formatCurrency,
+  formatNumber,
+  loadLocale,
+  MessageKey,
+  MessageParams,
+  persistLocale,
+  translate,
+} from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (val: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (val: number) => string;
+  formatCompactCurrency: (val: number) => string;
+}
+
+const createValue = (locale: Locale, setLocale: (locale: Locale) => void): I18nContextValue => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  formatNumber: (val, options) => formatNumber(locale, val, options),
+  formatCurrency: (val) => formatCurrency(locale, val),
+  formatCompactCurrency: (val) => formatCompactCurrency(locale, val),
+});
+
+// Components rendered outside the provider get Korean, the app's original language
+const I18nContext = createContext<I18nContextValue>(createValue('ko', () => {}));
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Only an explicit choice is saved, so the browser language keeps applying until then
+  const value = useMemo(() => createValue(locale, (next) => {
+    setLocale(next);
+    persistLocale(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from './LocaleProvider';
+
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2" data-html2canvas-ignore="true">
+      <Languages className="w-4 h-4 text-slate-500" aria-label={t('app.language')} />
+      {LOCALES.map((l) => (
+        <button
+          key={l.id}
+          onClick={() => setLocale(l.id)}
+          className={`px-3 py-1.5 text-sm rounded-md border transition-all ${
+            locale === l.id
+              ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+              : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          {l.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Loader2, Square, RotateCcw } from 'lucide-react';
+import { ComposedChart, Area, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { DEFAULT_MONTE_CARLO_SETTINGS, MAX_MONTE_CARLO_PATHS } from '../services/monteCarlo';
+import { runMonteCarlo } from '../services/monteCarloRunner';
+import { CalculationResult, LoanInputs, MonteCarloResult, MonteCarloSettings } from '../types';
+
+interface MonteCarloSimulationProps {
+  inputs: LoanInputs;
+  result: CalculationResult;
+}
+
+const DRIFT_PRESETS = [-0.5, -0.25, 0, 0.25, 0.5]; // %p per year
+
+// Most points the band chart draws; longer schedules are sampled
+const MAX_CHART_POINTS = 120;
+
+// Default threshold: 20% above the first amortizing payment, rounded to 10,000 won
+const defaultThreshold = (result: CalculationResult) => {
+  const firstAmortizing = result.monthlyPayments.find((p) => p.principal > 0) ?? result.monthlyPayments[0];
+  return firstAmortizing ? Math.round((firstAmortizing.payment * 1.2) / 10000) * 10000 : 0;
+};
+
+export const MonteCarloSimulation: React.FC<MonteCarloSimulationProps> = ({ inputs, result }) => {
+  const { t, formatNumber, formatCurrency, formatCompactCurrency } = useI18n();
+  const [settings, setSettings] = useState<MonteCarloSettings>(() => ({
+    ...DEFAULT_MONTE_CARLO_SETTINGS,
+    paymentThreshold: defaultThreshold(result),
+  }));
+  const [simulation, setSimulation] = useState<{ result: MonteCarloResult; inputs: LoanInputs; threshold: number } | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const running = progress !== null;
+  const stale = simulation !== null && simulation.inputs !== inputs;
+
+  const updateSetting = (key: keyof MonteCarloSettings, value: number) => setSettings((prev) => ({ ...prev, [key]: value }));
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ completed: 0, total: settings.paths });
+
+    const runSettings = { ...settings, paths: Math.min(Math.max(1, settings.paths), MAX_MONTE_CARLO_PATHS) };
+    const outcome = await runMonteCarlo(inputs, runSettings, (completed, total) => {
+      if (!controller.signal.aborted) setProgress({ completed, total });
+    }, controller.signal);
+    // Superseded by a newer run
+    if (abortRef.current !== controller) return;
+
+    if (outcome) setSimulation({ result: outcome, inputs, threshold: runSettings.paymentThreshold });
+    else if (!controller.signal.aborted) setError(t('monteCarlo.failed'));
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const bands = simulation?.result.paymentBands ?? [];
+  const sampleStep = Math.max(1, Math.ceil(bands.length / MAX_CHART_POINTS));
+  const bandData = bands
+    .filter((_, index) => index % sampleStep === 0 || index === bands.length - 1)
+    .map((b) => ({ month: b.month, outer: [b.p5, b.p95], inner: [b.p25, b.p75], median: b.p50 }));
+
+  const histogramData = simulation?.result.totalInterest.histogram.map((bin) => ({
+    label: formatCompactCurrency((bin.from + bin.to) / 2),
+    range: `${formatCurrency(bin.from)} ~ ${formatCurrency(bin.to)}`,
+    count: bin.count,
+  })) ?? [];
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2">
+          <Dices className="w-5 h-5 text-blue-600" />
+          <h3 className="text-base font-semibold text-slate-800">{t('monteCarlo.title')}</h3>
+        </div>
+        <div data-html2canvas-ignore="true">
+          {running ? (
+            <button
+              onClick={handleCancel}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-300 text-slate-600 text-sm font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              <Square className="w-3.5 h-3.5" />
+              {t('monteCarlo.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {stale && <RotateCcw className="w-3.5 h-3.5" />}
+              {t('monteCarlo.run')}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">{t('monteCarlo.description', { paths: formatNumber(settings.paths) })}</p>
+
+      {/* Rate model */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3" data-html2canvas-ignore="true">
+        <InputField label={t('monteCarlo.paths')} value={settings.paths} onChange={(v) => updateSetting('paths', v)} step={100} />
+        <InputField label={t('monteCarlo.volatility')} unit="%p" value={settings.volatility} onChange={(v) => updateSetting('volatility', v)} step={0.1} />
+        <InputField label={t('monteCarlo.threshold')} unit={t('unit.won')} value={settings.paymentThreshold} onChange={(v) => updateSetting('paymentThreshold', v)} step={10000} />
+        <InputField label={t('monteCarlo.floor')} unit="%" value={settings.floor} onChange={(v) => updateSetting('floor', v)} step={0.1} />
+        <InputField label={t('monteCarlo.cap')} unit="%" value={settings.cap} onChange={(v) => updateSetting('cap', v)} step={0.1} />
+        <div className="flex flex-col gap-1">
+          <label className="text-sm font-medium text-slate-700">{t('monteCarlo.drift')}</label>
+          <div className="grid grid-cols-5 gap-1">
+            {DRIFT_PRESETS.map((drift) => (
+              <button
+                key={drift}
+                onClick={() => updateSetting('driftPerYear', drift)}
+                title={`${drift > 0 ? '+' : ''}${drift}${t('monteCarlo.driftUnit')}`}
+                className={`py-2 text-xs rounded-md border transition-all ${
+                  settings.driftPerYear === drift
+                    ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                    : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {drift > 0 ? '+' : ''}{drift}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {running && (
+        <div className="mb-3">
+          <div className="flex items-center gap-2 text-sm text-blue-700 mb-1">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t('monteCarlo.progress', { completed: formatNumber(progress.completed), total: formatNumber(progress.total) })}
+          </div>
+          <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.completed / Math.max(1, progress.total)) * 100}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {error && !running && <div className="text-sm text-red-600 mb-3">{error}</div>}
+
+      {stale && (
+        <div className="mb-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">{t('monteCarlo.stale')}</div>
+      )}
+
+      {simulation && (
+        <div className={`space-y-5 ${stale ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('monteCarlo.exceedProbability')}</div>
+              <div className={`text-lg font-bold ${simulation.result.exceedProbability > 0.2 ? 'text-red-600' : 'text-slate-900'}`}>
+                {formatNumber(simulation.result.exceedProbability * 100, { maximumFractionDigits: 1 })}%
+              </div>
+              <div className="text-xs text-slate-500 mt-1">{t('monteCarlo.exceedHint', { threshold: formatCurrency(simulation.threshold) })}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('monteCarlo.totalInterest')}</div>
+              <div className="text-lg font-bold text-slate-900">{formatCurrency(simulation.result.totalInterest.p50)}</div>
+              <div className="text-xs text-slate-500 mt-1">
+                {t('monteCarlo.totalInterestRange', {
+                  low: formatCompactCurrency(simulation.result.totalInterest.p5),
+                  high: formatCompactCurrency(simulation.result.totalInterest.p95),
+                })}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('monteCarlo.deterministic')}</div>
+              <div className="text-lg font-bold text-slate-900">{formatCurrency(result.totalInterest)}</div>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('monteCarlo.bandsTitle')}</h4>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={bandData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="month" tickFormatter={(month) => t('chart.monthTick', { month })} fontSize={12} tickMargin={10} minTickGap={40} />
+                  <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={55} domain={['auto', 'auto']} />
+                  <RechartsTooltip
+                    formatter={(value: number | number[], name: string) => [
+                      Array.isArray(value) ? `${formatCurrency(value[0])} ~ ${formatCurrency(value[1])}` : formatCurrency(value),
+                      name,
+                    ]}
+                    labelFormatter={(label) => t('results.installmentNumber', { month: String(label) })}
+                  />
+                  <Legend />
+                  <Area type="stepAfter" dataKey="outer" stroke="none" fill="#bfdbfe" fillOpacity={0.6} name={t('monteCarlo.band90')} />
+                  <Area type="stepAfter" dataKey="inner" stroke="none" fill="#60a5fa" fillOpacity={0.6} name={t('monteCarlo.band50')} />
+                  <Line type="stepAfter" dataKey="median" stroke="#1d4ed8" strokeWidth={2} dot={false} name={t('monteCarlo.median')} />
+                  {simulation.threshold > 0 && (
+                    <ReferenceLine
+                      y={simulation.threshold}
+                      stroke="#dc2626"
+                      strokeDasharray="4 4"
+                      label={{ value: t('monteCarlo.thresholdLine'), position: 'insideTopRight', fontSize: 11, fill: '#dc2626' }}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('monteCarlo.histogramTitle')}</h4>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogramData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" fontSize={11} tickMargin={8} minTickGap={20} />
+                  <YAxis fontSize={12} width={45} allowDecimals={false} />
+                  <RechartsTooltip
+                    formatter={(value: number) => [formatNumber(value), t('monteCarlo.pathCount')]}
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.range ?? ''}
+                  />
+                  <Bar dataKey="count" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { PiggyBank } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { MonthlyPayment, PrepaymentResult, PrepaymentStrategy } from '../types';
+
+interface PrepaymentComparisonProps {
+  baseline: MonthlyPayment[];
+  prepayment: PrepaymentResult;
+  strategy: PrepaymentStrategy;
+}
+
+// Calendar month of the last installment: its scheduled date for dated schedules,
+// otherwise counted from this month
+const payoffDate = (schedule: MonthlyPayment[], months: number) => {
+  const scheduled = schedule[months - 1]?.date;
+  if (scheduled) return scheduled.slice(0, 7).replace('-', '.');
+  const date = new Date();
+  date.setMonth(date.getMonth() + months);
+  return `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const PrepaymentComparison: React.FC<PrepaymentComparisonProps> = ({ baseline, prepayment, strategy }) => {
+  const { t, formatCurrency, formatCompactCurrency } = useI18n();
+  const balanceLabel = (name: string) => t(name === 'baseline' ? 'prepayment.baselineBalance' : 'prepayment.revisedBalance');
+
+  // "N years M months" from an installment count
+  const formatMonths = (months: number) => {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    const parts = [
+      years > 0 ? t('unit.years', { years }) : '',
+      rest > 0 ? t('unit.months', { months: rest }) : '',
+    ].filter(Boolean);
+    return parts.join(' ') || t('unit.months', { months: 0 });
+  };
+  const monthsSaved = prepayment.baselinePayoffMonth - prepayment.payoffMonth;
+
+  // Yearly balance points for both schedules
+  const chartData = baseline
+    .filter((p) => p.month % 12 === 0 || p.month === baseline.length)
+    .map((p) => {
+      const revised = prepayment.monthlyPayments[p.month - 1];
+      return {
+        year: Math.ceil(p.month / 12),
+        baseline: p.balance,
+        revised: revised ? revised.balance : 0,
+      };
+    });
+
+  // First regular installment after the first prepayment, to show the reduced payment
+  const firstPrepaid = prepayment.monthlyPayments.find((p) => p.prepayment);
+  const nextRevised = firstPrepaid ? prepayment.monthlyPayments[firstPrepaid.month] : undefined;
+  const nextBaseline = firstPrepaid ? baseline[firstPrepaid.month] : undefined;
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center gap-2 mb-4">
+        <PiggyBank className="w-5 h-5 text-blue-600" />
+        <h3 className="text-base font-semibold text-slate-800">{t('prepayment.effectTitle')}</h3>
+        <span className="text-xs text-slate-500">
+          ({t(`prepayment.strategy.${strategy}`)})
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-5">
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('prepayment.totalPrepaid')}</div>
+          <div className="text-lg font-bold text-slate-900">{formatCurrency(prepayment.totalPrepaid)}</div>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('prepayment.interestSaved')}</div>
+          <div className="text-lg font-bold text-blue-600">{formatCurrency(prepayment.interestSaved)}</div>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('prepayment.fees')}</div>
+          <div className="text-lg font-bold text-red-600">{formatCurrency(prepayment.totalFees)}</div>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+          <div className="text-xs text-slate-500 mb-1">{t('prepayment.netSavings')}</div>
+          <div className={`text-lg font-bold ${prepayment.netSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(prepayment.netSavings)}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600 mb-4">
+        <span>
+          {t('prepayment.payoff')} {payoffDate(baseline, prepayment.baselinePayoffMonth)} → <strong className="text-slate-900">{payoffDate(prepayment.monthlyPayments, prepayment.payoffMonth)}</strong>
+          {monthsSaved > 0 && <span className="text-blue-600"> ({t('prepayment.shortenedBy', { period: formatMonths(monthsSaved) })})</span>}
+        </span>
+        {nextRevised && nextBaseline && (
+          <span>
+            {t('prepayment.monthlyPayment')} {formatCurrency(nextBaseline.payment)} → <strong className="text-slate-900">{formatCurrency(nextRevised.payment)}</strong>
+          </span>
+        )}
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="year" tickFormatter={(year) => t('chart.yearTick', { year })} fontSize={12} tickMargin={10} />
+            <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={55} />
+            <RechartsTooltip
+              formatter={(value: number, name: string) => [formatCurrency(value), balanceLabel(name)]}
+            />
+            <Legend formatter={balanceLabel} />
+            <Line type="monotone" dataKey="baseline" stroke="#94a3b8" strokeWidth={2} dot={false} name="baseline" />
+            <Line type="monotone" dataKey="revised" stroke="#3b82f6" strokeWidth={2} dot={false} name="revised" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {prepayment.fees.some((f) => f.fee > 0) && (
+        <p className="text-xs text-slate-500 mt-3">
+          {t('prepayment.feesCharged', {
+            fees: prepayment.fees
+              .filter((f) => f.fee > 0)
+              .map((f) => `${t('results.installmentNumber', { month: f.month })} ${formatCurrency(f.fee)}`)
+              .join(', '),
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
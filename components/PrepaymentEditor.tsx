@@ -0,0 +1,144 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { Prepayment, PrepaymentFeeRule, PrepaymentSettings, PrepaymentStrategy } from '../types';
+
+interface PrepaymentEditorProps {
+  settings: PrepaymentSettings;
+  onChange: (settings: PrepaymentSettings) => void;
+}
+
+const createPrepayment = (): Prepayment => ({
+  id: crypto.randomUUID(),
+  month: 12,
+  amount: 10000000,
+  repeatIntervalMonth: 0,
+});
+
+export const PrepaymentEditor: React.FC<PrepaymentEditorProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const updatePrepayment = (id: string, key: keyof Prepayment, value: number) => {
+    onChange({
+      ...settings,
+      prepayments: settings.prepayments.map((p) => (p.id === id ? { ...p, [key]: value } : p)),
+    });
+  };
+
+  const updateFeeRule = (key: keyof PrepaymentFeeRule, value: number) => {
+    onChange({ ...settings, feeRule: { ...settings.feeRule, [key]: value } });
+  };
+
+  const strategyButtonClass = (strategy: PrepaymentStrategy) =>
+    `px-3 py-2 text-sm rounded-md border transition-all ${
+      settings.strategy === strategy
+        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4 border-b pb-2">
+        <h2 className="text-lg font-semibold text-slate-800">{t('prepayment.title')}</h2>
+        <button
+          onClick={() => onChange({ ...settings, prepayments: [...settings.prepayments, createPrepayment()] })}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-600 hover:bg-slate-50 transition-all"
+        >
+          <Plus className="w-4 h-4" />
+          {t('prepayment.add')}
+        </button>
+      </div>
+
+      {settings.prepayments.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {t('prepayment.empty')}
+        </p>
+      ) : (
+        <div className="space-y-5">
+          <div className="space-y-4">
+            {settings.prepayments.map((p, index) => (
+              <div key={p.id} className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700">{t('prepayment.item', { index: index + 1 })}</span>
+                  <button
+                    onClick={() => onChange({ ...settings, prepayments: settings.prepayments.filter((x) => x.id !== p.id) })}
+                    className="text-slate-400 hover:text-red-500 transition-colors"
+                    aria-label={t('prepayment.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <InputField
+                  label={t('prepayment.amount')}
+                  unit={t('unit.won')}
+                  value={p.amount}
+                  onChange={(v) => updatePrepayment(p.id, 'amount', v)}
+                  step={1000000}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <InputField
+                    label={t('prepayment.month')}
+                    unit={t('results.installment')}
+                    value={p.month}
+                    onChange={(v) => updatePrepayment(p.id, 'month', v)}
+                  />
+                  <InputField
+                    label={t('prepayment.repeat')}
+                    unit={t('refinance.monthUnit')}
+                    value={p.repeatIntervalMonth}
+                    placeholder={t('prepayment.once')}
+                    onChange={(v) => updatePrepayment(p.id, 'repeatIntervalMonth', v)}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-slate-700 mb-2 block">{t('prepayment.strategy')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => onChange({ ...settings, strategy: PrepaymentStrategy.ShortenTerm })}
+                className={strategyButtonClass(PrepaymentStrategy.ShortenTerm)}
+              >
+                {t('prepayment.strategy.ShortenTerm')}
+              </button>
+              <button
+                onClick={() => onChange({ ...settings, strategy: PrepaymentStrategy.ReducePayment })}
+                className={strategyButtonClass(PrepaymentStrategy.ReducePayment)}
+              >
+                {t('prepayment.strategy.ReducePayment')}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <InputField
+              label={t('prepayment.feeRate')}
+              unit="%"
+              value={settings.feeRule.feeRate}
+              onChange={(v) => updateFeeRule('feeRate', v)}
+              step={0.1}
+            />
+            <InputField
+              label={t('prepayment.feePeriod')}
+              unit={t('unit.year')}
+              value={settings.feeRule.slidingPeriodYear}
+              onChange={(v) => updateFeeRule('slidingPeriodYear', v)}
+            />
+          </div>
+          <InputField
+            label={t('prepayment.exemption')}
+            unit={t('unit.won')}
+            value={settings.feeRule.annualExemptionAmount}
+            onChange={(v) => updateFeeRule('annualExemptionAmount', v)}
+            step={1000000}
+          />
+          <p className="text-xs text-slate-500 ml-1">
+            {t('prepayment.feeFormula')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
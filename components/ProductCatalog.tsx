@@ -0,0 +1,255 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileDown, Landmark, Trash2, Upload } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import {
+  CatalogImportResult,
+  downloadCatalogTemplate,
+  InvalidProductError,
+  parseProductCatalog,
+  productRate,
+  rankProducts,
+} from '../services/productCatalog';
+import { MessageKey, MessageParams } from '../services/i18n';
+import { LoanInputs, LoanProduct, ProductAdjustment, ProductIneligibility, ProductRankKey } from '../types';
+
+interface ProductCatalogProps {
+  inputs: LoanInputs;
+  products: LoanProduct[];
+  onProductsChange: (products: LoanProduct[]) => void;
+  onLoadProduct: (inputs: LoanInputs) => void;
+  dsrCap: number;
+  inputsValid: boolean; // False while the borrower's inputs have errors
+}
+
+const RANK_KEYS: ProductRankKey[] = ['dsr', 'monthlyPayment', 'totalCost'];
+
+const ADJUSTMENT_LABELS: Record<ProductAdjustment, MessageKey> = {
+  term: 'catalog.adjustedTerm',
+  method: 'catalog.adjustedMethod',
+  grace: 'catalog.adjustedGrace',
+};
+
+const INELIGIBILITY_LABELS: Record<ProductIneligibility, MessageKey> = {
+  collateral: 'catalog.ineligibleCollateral',
+  amount: 'catalog.ineligibleAmount',
+};
+
+// Skipped rows listed after an import; the rest are summarized as a count
+const MAX_LISTED_IMPORT_ERRORS = 5;
+
+const BUTTON_CLASS = "flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-slate-300 bg-white text-slate-600 hover:bg-slate-50 transition-colors";
+
+export const ProductCatalog: React.FC<ProductCatalogProps> = ({ inputs, products, onProductsChange, onLoadProduct, dsrCap, inputsValid }) => {
+  const { t, formatNumber, formatCurrency, formatCompactCurrency } = useI18n();
+  const [rankBy, setRankBy] = useState<ProductRankKey>('totalCost');
+  const [importResult, setImportResult] = useState<CatalogImportResult | null>(null);
+  const [importError, setImportError] = useState<{ key: MessageKey; params?: MessageParams } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const ranking = useMemo(
+    () => (inputsValid ? rankProducts(inputs, products, dsrCap, rankBy) : null),
+    [inputs, products, dsrCap, rankBy, inputsValid]
+  );
+
+  // An import replaces the catalog, so a day's rate sheet is loaded in one step
+  const handleFile = async (file: File) => {
+    setImportResult(null);
+    setImportError(null);
+    try {
+      const result = parseProductCatalog(await file.text());
+      setImportResult(result);
+      if (result.products.length > 0) onProductsChange(result.products);
+    } catch (error) {
+      setImportError(error instanceof InvalidProductError
+        ? { key: error.key, params: error.params }
+        : { key: 'catalog.error.unreadable' });
+    }
+  };
+
+  const handleClear = () => {
+    onProductsChange([]);
+    setImportResult(null);
+  };
+
+  const termLabel = (product: LoanProduct) =>
+    t(`rateType.${product.rateType}`) + (product.fixedPeriodYear > 0 ? ` ${t('catalog.fixedPeriod', { years: product.fixedPeriodYear })}` : '');
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Landmark className="w-5 h-5 text-blue-600" />
+            <h3 className="text-base font-semibold text-slate-800">{t('catalog.title')}</h3>
+          </div>
+          <p className="text-xs text-slate-500">{t('catalog.description')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2" data-html2canvas-ignore="true">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={BUTTON_CLASS}>
+            <Upload className="w-4 h-4" />
+            {t('catalog.import')}
+          </button>
+          <button onClick={downloadCatalogTemplate} className={BUTTON_CLASS}>
+            <FileDown className="w-4 h-4" />
+            {t('catalog.template')}
+          </button>
+          {products.length > 0 && (
+            <button onClick={handleClear} className={BUTTON_CLASS} aria-label={t('catalog.clear')} title={t('catalog.clear')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {importError && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{t('catalog.importFailed', { error: t(importError.key, importError.params) })}</div>
+      )}
+      {importResult && (
+        <div className={`p-3 rounded-lg border text-sm ${importResult.errors.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+          <p>{t('catalog.imported', { count: importResult.products.length, skipped: importResult.errors.length })}</p>
+          {importResult.errors.length > 0 && (
+            <ul className="mt-1 text-xs space-y-0.5">
+              {importResult.errors.slice(0, MAX_LISTED_IMPORT_ERRORS).map(({ row, error, params }) => (
+                <li key={row}>{t('catalog.rowError', { row, error: t(error, params) })}</li>
+              ))}
+              {importResult.errors.length > MAX_LISTED_IMPORT_ERRORS && (
+                <li>{t('catalog.moreErrors', { count: importResult.errors.length - MAX_LISTED_IMPORT_ERRORS })}</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {products.length === 0 ? (
+        <p className="p-6 text-center text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg">{t('catalog.empty')}</p>
+      ) : !ranking ? (
+        <p className="p-6 text-center text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg">{t('catalog.invalidInputs')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2" data-html2canvas-ignore="true">
+            <span className="text-sm text-slate-600">{t('catalog.rankBy')}</span>
+            {RANK_KEYS.map((key) => (
+              <button
+                key={key}
+                onClick={() => setRankBy(key)}
+                className={`px-3 py-1.5 text-sm rounded-md border transition-all ${
+                  rankBy === key
+                    ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                    : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {t(`catalog.rank.${key}`)}
+              </button>
+            ))}
+            <span className="text-xs text-slate-500 ml-auto">
+              {t('catalog.borrower', { amount: formatCompactCurrency(inputs.loanAmount), collateral: t(`collateral.${inputs.collateralType}`), cap: dsrCap })}
+            </span>
+          </div>
+
+          {ranking.ranked.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('catalog.noEligible')}</p>
+          ) : (
+            <div className="overflow-x-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-sm tabular-nums">
+                <thead className="bg-slate-100 text-xs text-slate-500">
+                  <tr>
+                    <th className="p-2 text-left font-medium">#</th>
+                    <th className="p-2 text-left font-medium">{t('catalog.product')}</th>
+                    <th className="p-2 text-right font-medium">{t('catalog.rate')}</th>
+                    <th className="p-2 text-left font-medium">{t('catalog.terms')}</th>
+                    <th className="p-2 text-right font-medium">DSR</th>
+                    <th className="p-2 text-right font-medium">{t('catalog.monthlyPayment')}</th>
+                    <th className="p-2 text-right font-medium">{t('catalog.totalCost')}</th>
+                    <th className="p-2" data-html2canvas-ignore="true"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranking.ranked.map((evaluation, index) => {
+                    const { product } = evaluation;
+                    return (
+                      <tr key={product.id} className={`border-t border-slate-100 ${evaluation.passesDsrCap ? '' : 'bg-red-50/50'}`}>
+                        <td className="p-2 text-slate-500">{index + 1}</td>
+                        <td className="p-2">
+                          <div className="font-medium text-slate-800">{product.lender}</div>
+                          <div className="text-xs text-slate-500">{product.name}</div>
+                        </td>
+                        <td className="p-2 text-right">
+                          <div className="font-medium text-slate-800">{formatNumber(productRate(product), { maximumFractionDigits: 2 })}%</div>
+                          <div className="text-xs text-slate-500">{termLabel(product)}</div>
+                        </td>
+                        <td className="p-2 text-xs text-slate-600">
+                          <div>
+                            {t('catalog.termSummary', {
+                              term: evaluation.inputs.loanTermYear,
+                              grace: evaluation.inputs.gracePeriodYear,
+                              method: t(`repaymentMethod.${evaluation.inputs.repaymentMethod}`),
+                            })}
+                          </div>
+                          {evaluation.adjustments.length > 0 && (
+                            <div className="text-amber-700">{evaluation.adjustments.map((a) => t(ADJUSTMENT_LABELS[a])).join(', ')}</div>
+                          )}
+                        </td>
+                        <td className="p-2 text-right">
+                          <div className={`font-semibold ${evaluation.passesDsrCap ? 'text-slate-900' : 'text-red-600'}`}>{evaluation.dsrRatio.toFixed(2)}%</div>
+                          {!evaluation.passesDsrCap && <div className="text-xs font-medium text-red-600">{t('catalog.overCap')}</div>}
+                        </td>
+                        <td className="p-2 text-right text-slate-800">{formatCurrency(evaluation.monthlyPayment)}</td>
+                        <td className="p-2 text-right">
+                          <div className="text-slate-800">{formatCurrency(evaluation.totalCost)}</div>
+                          <div className="text-xs text-slate-500">
+                            {t('catalog.costBreakdown', {
+                              interest: formatCompactCurrency(evaluation.totalInterest),
+                              fees: formatCompactCurrency(evaluation.upfrontCost + evaluation.prepaymentFees),
+                            })}
+                          </div>
+                        </td>
+                        <td className="p-2 text-right" data-html2canvas-ignore="true">
+                          <button
+                            onClick={() => onLoadProduct(evaluation.inputs)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-500 text-blue-700 bg-blue-50 hover:bg-blue-100 whitespace-nowrap"
+                          >
+                            {t('catalog.load')}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-slate-500">{t('catalog.footnote')}</p>
+
+          {ranking.ineligible.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('catalog.ineligibleTitle', { count: ranking.ineligible.length })}</h4>
+              <ul className="text-xs text-slate-600 space-y-1">
+                {ranking.ineligible.map(({ product, reasons }) => (
+                  <li key={product.id}>
+                    <span className="font-medium text-slate-700">{product.lender} · {product.name}</span>
+                    {' — '}
+                    {reasons.map((reason) => t(INELIGIBILITY_LABELS[reason], {
+                      collateral: t(`collateral.${product.collateralType}`),
+                      max: formatCompactCurrency(product.maxLoanAmount),
+                    })).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
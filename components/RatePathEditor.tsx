@@ -0,0 +1,122 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { RateChange, RatePath, RatePathMode, RateType } from '../types';
+
+interface RatePathEditorProps {
+  rateType: RateType;
+  fixedPeriodYear: number;
+  ratePath: RatePath;
+  onChange: (ratePath: RatePath) => void;
+}
+
+export const RatePathEditor: React.FC<RatePathEditorProps> = ({ rateType, fixedPeriodYear, ratePath, onChange }) => {
+  const { t } = useI18n();
+  const update = (key: keyof RatePath, value: any) => {
+    onChange({ ...ratePath, [key]: value });
+  };
+
+  const updateChange = (index: number, key: keyof RateChange, value: number) => {
+    update('changes', ratePath.changes.map((c, i) => (i === index ? { ...c, [key]: value } : c)));
+  };
+
+  const addChange = () => {
+    const last = ratePath.changes[ratePath.changes.length - 1];
+    const next: RateChange = last
+      ? { month: last.month + 12, rate: last.rate }
+      : { month: Math.max(1, fixedPeriodYear * 12) + 1, rate: ratePath.indexRate + ratePath.spread };
+    update('changes', [...ratePath.changes, next]);
+  };
+
+  const modeButtonClass = (mode: RatePathMode) =>
+    `px-3 py-1.5 text-xs rounded-md border transition-all ${
+      ratePath.mode === mode
+        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  const resetDescription = rateType === RateType.Fixed
+    ? ''
+    : t(`ratePath.reset.${rateType}`, { years: fixedPeriodYear, months: ratePath.variableResetMonth });
+
+  return (
+    <div className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">{t('ratePath.title')}</span>
+        <div className="flex gap-1">
+          <button onClick={() => update('mode', RatePathMode.Reset)} className={modeButtonClass(RatePathMode.Reset)}>
+            {t('ratePath.mode.Reset')}
+          </button>
+          <button onClick={() => update('mode', RatePathMode.Explicit)} className={modeButtonClass(RatePathMode.Explicit)}>
+            {t('ratePath.mode.Explicit')}
+          </button>
+        </div>
+      </div>
+
+      {ratePath.mode === RatePathMode.Reset ? (
+        <>
+          <p className="text-xs text-slate-500 ml-1">{t('ratePath.resetHint', { reset: resetDescription })}</p>
+          <div className="grid grid-cols-2 gap-4">
+            <InputField
+              label={t('ratePath.indexRate')}
+              unit="%"
+              value={ratePath.indexRate}
+              onChange={(v) => update('indexRate', v)}
+              step={0.1}
+            />
+            <InputField
+              label={t('ratePath.spread')}
+              unit="%p"
+              value={ratePath.spread}
+              onChange={(v) => update('spread', v)}
+              step={0.1}
+            />
+            <InputField
+              label={t('ratePath.indexStep')}
+              unit="%p"
+              value={ratePath.indexStepPerReset}
+              onChange={(v) => update('indexStepPerReset', v)}
+              step={0.1}
+            />
+            {rateType !== RateType.Periodic && (
+              <InputField
+                label={t('ratePath.resetMonth')}
+                unit={t('refinance.monthUnit')}
+                value={ratePath.variableResetMonth}
+                onChange={(v) => update('variableResetMonth', v)}
+              />
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="space-y-2">
+          {ratePath.changes.map((change, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1">
+                <InputField label={t('ratePath.changeMonth')} unit={t('results.installment')} value={change.month} onChange={(v) => updateChange(index, 'month', v)} />
+              </div>
+              <div className="flex-1">
+                <InputField label={t('results.rate')} unit="%" value={change.rate} onChange={(v) => updateChange(index, 'rate', v)} step={0.1} />
+              </div>
+              <button
+                onClick={() => update('changes', ratePath.changes.filter((_, i) => i !== index))}
+                className="mb-2.5 text-slate-400 hover:text-red-500 transition-colors"
+                aria-label={t('ratePath.removeChange')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addChange}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md border border-slate-300 text-slate-600 bg-white hover:bg-slate-50 transition-all"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('ratePath.addChange')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useMemo } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import { compareRefinance } from '../services/refinance';
+import { buildScheduleRows, groupScheduleByYear } from '../services/scheduleExport';
+import { hasErrors, validateRefinance } from '../services/validation';
+import {
+  DebtType,
+  LoanInputs,
+  RateType,
+  RefinanceCandidate,
+  RefinanceCurrentLoan,
+  RefinanceSettings,
+  RepaymentMethod,
+} from '../types';
+
+interface RefinanceComparisonProps {
+  inputs: LoanInputs;
+  settings: RefinanceSettings;
+  onChange: (settings: RefinanceSettings) => void;
+  dsrCap: number;
+  inputsValid: boolean; // False while the borrower's inputs have errors
+}
+
+const SELECT_CLASS = "block w-full rounded-md border-slate-300 py-2 pl-3 pr-8 text-slate-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border";
+
+// Most points the savings chart draws; longer schedules are sampled
+const MAX_CHART_POINTS = 120;
+
+export const RefinanceComparison: React.FC<RefinanceComparisonProps> = ({ inputs, settings, onChange, dsrCap, inputsValid }) => {
+  const { t, formatNumber, formatCurrency, formatCompactCurrency } = useI18n();
+  const { current, candidate } = settings;
+
+  const issues = useMemo(() => validateRefinance(settings), [settings]);
+  const result = useMemo(
+    () => (inputsValid && !hasErrors(issues) ? compareRefinance(inputs, settings) : null),
+    [inputs, settings, inputsValid, issues]
+  );
+  const keepYears = useMemo(() => (result ? groupScheduleByYear(buildScheduleRows(result.keepSchedule, 0)) : []), [result]);
+  const switchYears = useMemo(() => (result ? groupScheduleByYear(buildScheduleRows(result.switchSchedule, 0)) : []), [result]);
+
+  const fieldError = (field: string): string | undefined => {
+    const issue = issues.find((i) => i.field === field);
+    return issue ? t(issue.message, issue.params) : undefined;
+  };
+
+  const updateCurrent = (key: keyof RefinanceCurrentLoan, value: any) =>
+    onChange({ ...settings, current: { ...current, [key]: value } });
+  const updateFeeRule = (key: keyof RefinanceCurrentLoan['feeRule'], value: number) =>
+    onChange({ ...settings, current: { ...current, feeRule: { ...current.feeRule, [key]: value } } });
+  const updateCandidate = (key: keyof RefinanceCandidate, value: any) =>
+    onChange({ ...settings, candidate: { ...candidate, [key]: value } });
+
+  // Picking one of the listed debts copies its terms and leaves it out of the DSR after switching
+  const selectSourceDebt = (id: string) => {
+    const debt = inputs.existingDebts.find((d) => d.id === id);
+    if (!debt) {
+      onChange({ ...settings, sourceDebtId: null });
+      return;
+    }
+    onChange({
+      ...settings,
+      sourceDebtId: debt.id,
+      current: {
+        ...current,
+        debtType: debt.type,
+        balance: debt.balance,
+        interestRate: debt.interestRate,
+        remainingTermYear: debt.remainingTermYear,
+        repaymentMethod: debt.repaymentMethod,
+      },
+    });
+  };
+  const sourceDebtId = inputs.existingDebts.some((d) => d.id === settings.sourceDebtId) ? settings.sourceDebtId : '';
+
+  const cumulativeSavings = result?.cumulativeSavings ?? [];
+  const sampleStep = Math.max(1, Math.ceil(cumulativeSavings.length / MAX_CHART_POINTS));
+  const savingsData = cumulativeSavings
+    .map((savings, index) => ({ month: index + 1, savings }))
+    .filter((_, index, all) => index % sampleStep === 0 || index === all.length - 1);
+
+  const methodOptions = Object.values(RepaymentMethod).map((method) => (
+    <option key={method} value={method}>{t(`repaymentMethod.${method}`)}</option>
+  ));
+
+  const signedCurrency = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+  const dsrClass = (dsr: number) => (dsr > dsrCap ? 'text-red-600' : 'text-slate-900');
+  const yearCount = Math.max(keepYears.length, switchYears.length);
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-6">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <ArrowLeftRight className="w-5 h-5 text-blue-600" />
+          <h3 className="text-base font-semibold text-slate-800">{t('refinance.title')}</h3>
+        </div>
+        <p className="text-xs text-slate-500">{t('refinance.description')}</p>
+      </div>
+
+      {/* Loan terms */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4" data-html2canvas-ignore="true">
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+          <h4 className="text-sm font-semibold text-slate-800">{t('refinance.currentLoan')}</h4>
+          {inputs.existingDebts.length > 0 && (
+            <div>
+              <label className="text-sm font-medium text-slate-700 mb-1 block">{t('refinance.sourceDebt')}</label>
+              <select value={sourceDebtId ?? ''} onChange={(e) => selectSourceDebt(e.target.value)} className={SELECT_CLASS}>
+                <option value="">{t('refinance.sourceDebtNone')}</option>
+                {inputs.existingDebts.map((debt, index) => (
+                  <option key={debt.id} value={debt.id}>
+                    {index + 1}. {t(`debtType.${debt.type}`)} ({formatCompactCurrency(debt.balance)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="text-sm font-medium text-slate-700 mb-1 block">{t('refinance.debtType')}</label>
+            <select value={current.debtType} onChange={(e) => updateCurrent('debtType', e.target.value)} className={SELECT_CLASS}>
+              {[DebtType.Mortgage, DebtType.OtherSecured, DebtType.Credit].map((type) => (
+                <option key={type} value={type}>{t(`debtType.${type}`)}</option>
+              ))}
+            </select>
+          </div>
+          <InputField label={t('refinance.balance')} unit={t('unit.won')} value={current.balance} onChange={(v) => updateCurrent('balance', v)} step={1000000} error={fieldError('current.balance')} />
+          <div className="grid grid-cols-2 gap-3">
+            <InputField label={t('inputs.interestRate')} unit="%" value={current.interestRate} onChange={(v) => updateCurrent('interestRate', v)} step={0.1} error={fieldError('current.interestRate')} />
+            <InputField label={t('refinance.remainingTerm')} unit={t('unit.year')} value={current.remainingTermYear} onChange={(v) => updateCurrent('remainingTermYear', v)} error={fieldError('current.remainingTermYear')} />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.repaymentMethod')}</label>
+            <select value={current.repaymentMethod} onChange={(e) => updateCurrent('repaymentMethod', e.target.value)} className={SELECT_CLASS}>
+              {methodOptions}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <InputField label={t('refinance.elapsed')} unit={t('refinance.monthUnit')} value={current.elapsedMonth} onChange={(v) => updateCurrent('elapsedMonth', v)} error={fieldError('current.elapsedMonth')} />
+            <InputField label={t('refinance.feeRate')} unit="%" value={current.feeRule.feeRate} onChange={(v) => updateFeeRule('feeRate', v)} step={0.1} error={fieldError('current.feeRule.feeRate')} />
+            <InputField label={t('refinance.slidingPeriod')} unit={t('unit.year')} value={current.feeRule.slidingPeriodYear} onChange={(v) => updateFeeRule('slidingPeriodYear', v)} error={fieldError('current.feeRule.slidingPeriodYear')} />
+          </div>
+        </div>
+
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+          <h4 className="text-sm font-semibold text-slate-800">{t('refinance.candidateLoan')}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <InputField label={t('inputs.interestRate')} unit="%" value={candidate.interestRate} onChange={(v) => updateCandidate('interestRate', v)} step={0.1} error={fieldError('candidate.interestRate')} />
+            <InputField label={t('inputs.loanTerm')} unit={t('unit.year')} value={candidate.termYear} onChange={(v) => updateCandidate('termYear', v)} error={fieldError('candidate.termYear')} />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.repaymentMethod')}</label>
+            <select value={candidate.repaymentMethod} onChange={(e) => updateCandidate('repaymentMethod', e.target.value)} className={SELECT_CLASS}>
+              {methodOptions}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div>
+              <label className="text-sm font-medium text-slate-700 mb-1 block">{t('inputs.rateType')}</label>
+              <select value={candidate.rateType} onChange={(e) => updateCandidate('rateType', e.target.value)} className={SELECT_CLASS}>
+                {[RateType.Variable, RateType.Mixed, RateType.Periodic, RateType.Fixed].map((type) => (
+                  <option key={type} value={type}>{t(`rateType.${type}`)}</option>
+                ))}
+              </select>
+            </div>
+            {(candidate.rateType === RateType.Mixed || candidate.rateType === RateType.Periodic) && (
+              <InputField
+                label=""
+                unit={t(candidate.rateType === RateType.Mixed ? 'inputs.fixedPeriodUnit' : 'inputs.resetPeriodUnit')}
+                value={candidate.fixedPeriodYear}
+                onChange={(v) => updateCandidate('fixedPeriodYear', v)}
+                error={fieldError('candidate.fixedPeriodYear')}
+              />
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <InputField label={t('refinance.setupCost')} unit={t('unit.won')} value={candidate.mortgageSetupCost} onChange={(v) => updateCandidate('mortgageSetupCost', v)} step={100000} error={fieldError('candidate.mortgageSetupCost')} />
+            <InputField label={t('refinance.otherCosts')} unit={t('unit.won')} value={candidate.otherCosts} onChange={(v) => updateCandidate('otherCosts', v)} step={100000} error={fieldError('candidate.otherCosts')} />
+          </div>
+          <InputField label={t('refinance.discountRate')} unit="%" value={settings.discountRate} onChange={(v) => onChange({ ...settings, discountRate: v })} step={0.1} error={fieldError('discountRate')} />
+        </div>
+      </div>
+
+      {!result ? (
+        <p className="p-6 text-center text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg">{t('refinance.invalid')}</p>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('refinance.monthlySavings')}</div>
+              <div className={`text-lg font-bold ${result.monthlySavings >= 0 ? 'text-blue-600' : 'text-red-600'}`}>{signedCurrency(result.monthlySavings)}</div>
+              <div className="text-xs text-slate-500 mt-1">{t('refinance.interestSaved', { amount: formatCompactCurrency(result.interestSaved) })}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('refinance.breakEven')}</div>
+              <div className="text-lg font-bold text-slate-900">
+                {result.breakEvenMonth !== null ? t('refinance.breakEvenMonth', { month: result.breakEvenMonth }) : t('refinance.noBreakEven')}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('refinance.netPresentSavings')}</div>
+              <div className={`text-lg font-bold ${result.netPresentSavings >= 0 ? 'text-blue-600' : 'text-red-600'}`}>{signedCurrency(result.netPresentSavings)}</div>
+              <div className="text-xs text-slate-500 mt-1">{t('refinance.discountedAt', { rate: settings.discountRate })}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-xs text-slate-500 mb-1">{t('refinance.upfrontCost')}</div>
+              <div className="text-lg font-bold text-slate-900">{formatCurrency(result.upfrontCost)}</div>
+              <div className="text-xs text-slate-500 mt-1">
+                {t('refinance.costBreakdown', {
+                  fee: formatCompactCurrency(result.prepaymentFee),
+                  stamp: formatCompactCurrency(result.stampDuty),
+                  other: formatCompactCurrency(candidate.mortgageSetupCost + candidate.otherCosts),
+                })}
+              </div>
+            </div>
+          </div>
+
+          {/* DSR re-check */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 p-3 rounded-lg border border-slate-200 text-sm">
+            <span className="font-medium text-slate-700">{t('refinance.dsrCheck')}</span>
+            <span>{t('refinance.dsrBefore')} <strong className={dsrClass(result.dsrBefore)}>{result.dsrBefore.toFixed(2)}%</strong></span>
+            <span>→</span>
+            <span>{t('refinance.dsrAfter')} <strong className={dsrClass(result.dsrAfter)}>{result.dsrAfter.toFixed(2)}%</strong></span>
+            <span className="text-xs text-slate-500">
+              {t('refinance.dsrAfterHint', { rate: result.stressRateUsed.toFixed(2), cap: dsrCap })}
+            </span>
+            {result.dsrAfter > dsrCap && <span className="text-xs font-medium text-red-600">{t('refinance.dsrOverCap')}</span>}
+          </div>
+
+          {/* Cumulative savings */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('refinance.savingsTitle')}</h4>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={savingsData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="month" tickFormatter={(month) => t('chart.monthTick', { month })} fontSize={12} tickMargin={10} minTickGap={40} />
+                  <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={55} />
+                  <RechartsTooltip
+                    formatter={(value: number) => [signedCurrency(value), t('refinance.cumulativeSavings')]}
+                    labelFormatter={(label) => t('results.installmentNumber', { month: String(label) })}
+                  />
+                  <ReferenceLine y={0} stroke="#64748b" />
+                  {result.breakEvenMonth !== null && <ReferenceLine x={result.breakEvenMonth} stroke="#16a34a" strokeDasharray="4 4" />}
+                  <Line type="monotone" dataKey="savings" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Side-by-side schedules */}
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">{t('refinance.schedulesTitle')}</h4>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-xs tabular-nums">
+                <thead className="sticky top-0 bg-slate-100 text-slate-500">
+                  <tr>
+                    <th rowSpan={2} className="p-2 text-left font-medium">{t('refinance.year')}</th>
+                    <th colSpan={3} className="p-2 text-center font-medium border-l border-slate-200">{t('refinance.keep')}</th>
+                    <th colSpan={3} className="p-2 text-center font-medium border-l border-slate-200">{t('refinance.switch')}</th>
+                  </tr>
+                  <tr>
+                    {[0, 1].map((side) => (
+                      <React.Fragment key={side}>
+                        <th className="p-2 text-right font-medium border-l border-slate-200">{t('refinance.yearPayment')}</th>
+                        <th className="p-2 text-right font-medium">{t('results.interest')}</th>
+                        <th className="p-2 text-right font-medium">{t('refinance.endBalance')}</th>
+                      </React.Fragment>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from({ length: yearCount }, (_, i) => (
+                    <tr key={i} className="border-t border-slate-100 text-slate-700">
+                      <td className="p-2">{t('chart.yearTick', { year: i + 1 })}</td>
+                      {[keepYears[i], switchYears[i]].map((year, side) => (
+                        <React.Fragment key={side}>
+                          <td className="p-2 text-right border-l border-slate-100">{year ? formatNumber(Math.round(year.payment)) : '-'}</td>
+                          <td className="p-2 text-right">{year ? formatNumber(Math.round(year.interest)) : '-'}</td>
+                          <td className="p-2 text-right">{year ? formatNumber(Math.round(year.endBalance)) : '-'}</td>
+                        </React.Fragment>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-2 ml-1">{t('refinance.assumption')}</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { Scale } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { checkRegulatoryLimits, regulatoryLimitNote } from '../services/housingRegulation';
+import { LoanInputs } from '../types';
+
+interface RegulatoryLimitsProps {
+  inputs: LoanInputs;
+  dsrCap: number;
+  dsrMaxLoanAmount: number; // From the limit solver, so the DSR limit is solved once
+}
+
+export const RegulatoryLimits: React.FC<RegulatoryLimitsProps> = ({ inputs, dsrCap, dsrMaxLoanAmount }) => {
+  const { locale, t, formatCurrency } = useI18n();
+  const check = useMemo(() => checkRegulatoryLimits(inputs, dsrCap, dsrMaxLoanAmount), [inputs, dsrCap, dsrMaxLoanAmount]);
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-blue-600" />
+          <h3 className="text-base font-semibold text-slate-800">{t('regulation.title')}</h3>
+        </div>
+        <span className={`text-sm font-medium px-2.5 py-1 rounded-full ${check.passed ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {t(check.passed ? 'regulation.passed' : 'regulation.failed')}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {check.limits.map((limit) => {
+          const isBinding = limit.kind === check.binding;
+          return (
+            <div
+              key={limit.kind}
+              className={`p-3 rounded-lg border ${isBinding ? 'border-blue-500 ring-1 ring-blue-500 bg-blue-50' : 'border-slate-200 bg-slate-50'}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-semibold text-slate-700">{limit.kind}</span>
+                {isBinding && <span className="text-xs font-medium text-blue-700">{t('regulation.binding')}</span>}
+              </div>
+              <div className={`text-xl font-bold ${limit.passed ? 'text-slate-900' : 'text-red-600'}`}>
+                {limit.ratio.toFixed(1)}%
+                <span className="text-sm font-normal text-slate-500"> / {limit.cap}%</span>
+              </div>
+              <div className="text-xs text-slate-600 mt-1">{t('regulation.maxLoan', { amount: formatCurrency(limit.maxLoanAmount) })}</div>
+              <div className="text-xs text-slate-500 mt-1">{regulatoryLimitNote(limit, inputs.property, locale)}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-sm text-slate-700 mt-4">
+        {t('regulation.finalLimit', { kind: check.binding })} <strong className="text-blue-700">{formatCurrency(check.maxLoanAmount)}</strong>
+      </p>
+    </div>
+  );
+};
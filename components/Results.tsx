@@ -1,51 +1,61 @@
-import React, { useState, useEffect } from 'react';
-import { CalculationResult, LoanInputs } from '../types';
-import { analyzeDsrScenario } from '../services/geminiService';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
-import { AlertCircle, CheckCircle, BrainCircuit, Loader2, Camera } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import React, { useMemo, useState } from 'react';
+import { AiAnalysisResult, CalculationResult, LoanInputs, CollateralType, RateType } from '../types';
+import { LimitSolver } from './LimitSolver';
+import { SensitivityAnalysis } from './SensitivityAnalysis';
+import { MonteCarloSimulation } from './MonteCarloSimulation';
+import { BurdenProjection } from './BurdenProjection';
+import { IncomeBreakdown } from './IncomeBreakdown';
+import { RegulatoryLimits } from './RegulatoryLimits';
+import { PrepaymentComparison } from './PrepaymentComparison';
+import { AmortizationTable } from './AmortizationTable';
+import { AiAnalysisPanel } from './AiAnalysisPanel';
+import { useI18n } from './LocaleProvider';
+import { buildShareUrl } from '../services/shareLink';
+import { solveDsrLimits } from '../services/dsrSolver';
+import { burdenLabel } from '../services/debtRules';
+import { exportLoanReportPdf, ReportAnalysis } from '../services/pdfReport';
+import { analyzeScenario, ruleBasedProvider } from '../services/ruleBasedAnalyzer';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { AlertCircle, CheckCircle, Loader2, Camera, Link2, Check, FileText } from 'lucide-react';
 import html2canvas from 'html2canvas';
 
 interface ResultsProps {
   result: CalculationResult;
   inputs: LoanInputs;
+  dsrCap: number;
+  onDsrCapChange: (cap: number) => void;
   captureRef: React.RefObject<HTMLDivElement | null>;
 }
 
 const COLORS = ['#3b82f6', '#94a3b8']; // Blue-500, Slate-400
 
-// Helper for formatting large Korean currency
-const formatWon = (val: number) => {
-    return new Intl.NumberFormat('ko-KR').format(Math.round(val));
-};
-
-export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef }) => {
-  const [aiAdvice, setAiAdvice] = useState<string | null>(null);
-  const [loadingAi, setLoadingAi] = useState(false);
+export const Results: React.FC<ResultsProps> = ({ result, inputs, dsrCap, onDsrCapChange, captureRef }) => {
+  const { locale, t, formatNumber, formatCurrency, formatCompactCurrency } = useI18n();
+  const formatWon = (val: number) => formatNumber(Math.round(val));
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  // Latest AI analysis and the result it was made for, reused in the PDF report
+  const [reportAnalysis, setReportAnalysis] = useState<{ analysis: ReportAnalysis; result: CalculationResult } | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Shared by the limit solver and the LTV/DTI/DSR panel
+  const dsrLimits = useMemo(() => solveDsrLimits(inputs, dsrCap), [inputs, dsrCap]);
 
   // DSR Status Logic
   let dsrStatusColor = 'text-green-600';
-  let dsrStatusText = '안정';
+  let dsrStatusText = t('risk.Safe');
   let dsrBg = 'bg-green-50';
   
   if (result.dsrRatio > 40 && result.dsrRatio <= 70) {
     dsrStatusColor = 'text-yellow-600';
-    dsrStatusText = '주의';
+    dsrStatusText = t('risk.Caution');
     dsrBg = 'bg-yellow-50';
   } else if (result.dsrRatio > 70) {
     dsrStatusColor = 'text-red-600';
-    dsrStatusText = '위험';
+    dsrStatusText = t('risk.HighRisk');
     dsrBg = 'bg-red-50';
   }
 
-  const handleAiAnalyze = async () => {
-    setLoadingAi(true);
-    const advice = await analyzeDsrScenario(inputs, result);
-    setAiAdvice(advice);
-    setLoadingAi(false);
-  };
-
   const handleSaveImage = async () => {
     if (captureRef.current) {
       try {
@@ -97,21 +107,49 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
         link.click();
       } catch (err) {
         console.error("Failed to save image", err);
-        alert("이미지 저장에 실패했습니다.");
+        alert(t('results.saveImageFailed'));
       } finally {
         setIsCapturing(false);
       }
     }
   };
 
-  // Reset AI advice when inputs effectively change the result significantly
-  useEffect(() => {
-    setAiAdvice(null);
-  }, [result]);
+  const handleExportPdf = async () => {
+    // Without an analysis of the current result, the offline analyzer fills in
+    const analysis = reportAnalysis && reportAnalysis.result === result
+      ? reportAnalysis.analysis
+      : { analysis: analyzeScenario(inputs, result, locale), source: t(`provider.${ruleBasedProvider.id}.label`) };
+    try {
+      setIsExportingPdf(true);
+      await exportLoanReportPdf({ inputs, result, dsrCap, analysis, locale });
+    } catch (err) {
+      console.error("Failed to export PDF", err);
+      alert(t('results.pdfReportFailed'));
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleAnalysisComplete = (analysis: AiAnalysisResult, provider: AnalysisProvider, analyzedResult: CalculationResult) =>
+    setReportAnalysis({ analysis: { analysis, source: t(`provider.${provider.id}.label`) }, result: analyzedResult });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(inputs));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy link", err);
+      alert(t('results.copyLinkFailed'));
+    }
+  };
+
+  // Dated schedules label the axes with calendar dates instead of loan years
+  const isDated = result.monthlyPayments[0]?.date !== undefined;
 
   // Prepare chart data (sample down for performance if too long)
   const chartData = result.monthlyPayments.filter((_, index) => index % 12 === 0 || index === result.monthlyPayments.length - 1).map(p => ({
-    year: Math.floor(p.month / 12) + 1,
+    year: p.date ? Number(p.date.slice(0, 4)) : Math.floor(p.month / 12) + 1,
     principal: p.principal,
     interest: p.interest
   }));
@@ -119,14 +157,29 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
   return (
     <div className="space-y-6">
         {/* Controls Header */}
-        <div className="flex justify-end" data-html2canvas-ignore="true">
+        <div className="flex justify-end gap-2" data-html2canvas-ignore="true">
+            <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-all shadow-sm"
+            >
+                {linkCopied ? <Check className="w-4 h-4 text-green-600" /> : <Link2 className="w-4 h-4" />}
+                {linkCopied ? t('results.linkCopied') : t('results.copyLink')}
+            </button>
             <button
                 onClick={handleSaveImage}
                 disabled={isCapturing}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-all shadow-sm"
             >
                 {isCapturing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
-                리포트 이미지 저장
+                {t('results.saveImage')}
+            </button>
+            <button
+                onClick={handleExportPdf}
+                disabled={isExportingPdf}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 border border-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-all shadow-sm disabled:opacity-50"
+            >
+                {isExportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+                {t('results.pdfReport')}
             </button>
         </div>
 
@@ -136,76 +189,191 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className={`p-4 rounded-xl border ${dsrBg} border-opacity-50 shadow-sm`}>
             <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-slate-600">DSR 비율</span>
+                <span className="text-sm font-medium text-slate-600">{t('results.dsrRatio')}</span>
                 {result.dsrRatio <= 40 ? <CheckCircle className="w-5 h-5 text-green-500" /> : <AlertCircle className="w-5 h-5 text-red-500" />}
             </div>
             <div className={`text-3xl font-bold ${dsrStatusColor}`}>
                 {result.dsrRatio.toFixed(2)}%
             </div>
             <div className="text-xs text-slate-500 mt-1">
-                {inputs.applyStressDsr ? `스트레스 금리 ${result.stressDsrRateUsed.toFixed(1)}% 적용` : `적용 금리 ${inputs.interestRate}%`}
+                {result.stressPolicy.spread > 0
+                  ? t('results.stressRateApplied', {
+                      rate: result.stressDsrRateUsed.toFixed(2),
+                      policy: t(result.stressPolicy.label),
+                      spread: result.stressPolicy.spread.toFixed(2),
+                    })
+                  : t('results.rateApplied', { rate: inputs.interestRate })}
             </div>
             </div>
 
             <div className="p-4 rounded-xl bg-white border border-slate-200 shadow-sm">
-            <div className="text-sm font-medium text-slate-600 mb-2">월 평균 상환액</div>
+            <div className="text-sm font-medium text-slate-600 mb-2">{t('results.avgMonthlyPayment')}</div>
             <div className="text-2xl font-bold text-slate-900">
-                {formatWon(result.avgMonthlyPayment)} <span className="text-base font-normal text-slate-500">원</span>
+                {formatWon(result.avgMonthlyPayment)} <span className="text-base font-normal text-slate-500">{t('unit.won')}</span>
             </div>
-            <div className="text-xs text-slate-500 mt-1">총 상환금의 월 평균</div>
+            <div className="text-xs text-slate-500 mt-1">{t('results.avgMonthlyPaymentHint')}</div>
             </div>
 
             <div className="p-4 rounded-xl bg-white border border-slate-200 shadow-sm">
-            <div className="text-sm font-medium text-slate-600 mb-2">총 이자 비용</div>
+            <div className="text-sm font-medium text-slate-600 mb-2">{t('results.totalInterest')}</div>
             <div className="text-2xl font-bold text-blue-600">
-                {formatWon(result.totalInterest)} <span className="text-base font-normal text-slate-500">원</span>
+                {formatWon(result.totalInterest)} <span className="text-base font-normal text-slate-500">{t('unit.won')}</span>
             </div>
-            <div className="text-xs text-slate-500 mt-1">대출 기간 동안 총 이자</div>
+            <div className="text-xs text-slate-500 mt-1">{t('results.totalInterestHint')}</div>
             </div>
         </div>
 
-        {/* AI Analysis Section */}
-        <div className="bg-gradient-to-r from-indigo-50 to-blue-50 rounded-xl border border-indigo-100 p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center gap-2">
-                <BrainCircuit className="w-6 h-6 text-indigo-600" />
-                <h3 className="text-lg font-semibold text-indigo-900">AI 금융 분석가</h3>
+        {/* Rate Resets */}
+        {result.rateResets.length > 0 && (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+            <h3 className="text-base font-semibold text-slate-800 mb-4">{t('results.rateResetsTitle')}</h3>
+            <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.monthlyPayments} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                        dataKey={isDated ? 'date' : 'month'}
+                        tickFormatter={(tick) => isDated ? String(tick).slice(0, 7) : t('chart.monthTick', { month: tick })}
+                        fontSize={12}
+                        tickMargin={10}
+                        minTickGap={40}
+                    />
+                    <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={45} domain={['auto', 'auto']} />
+                    <RechartsTooltip
+                        formatter={(value: number) => [formatCurrency(value), t('results.monthlyPayment')]}
+                        labelFormatter={(label) => isDated ? String(label) : t('results.installmentNumber', { month: String(label) })}
+                    />
+                    <Line type="stepAfter" dataKey="payment" stroke="#3b82f6" strokeWidth={2} dot={false} name="payment" />
+                </LineChart>
+                </ResponsiveContainer>
             </div>
-            {!aiAdvice && (
-                <button
-                onClick={handleAiAnalyze}
-                disabled={loadingAi}
-                data-html2canvas-ignore="true"
-                className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
-                >
-                {loadingAi ? <Loader2 className="w-4 h-4 animate-spin" /> : "분석 받기"}
-                </button>
+            <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+                <thead>
+                <tr className="text-left text-slate-500 border-b">
+                    <th className="py-2 font-medium">{t('results.installment')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.rate')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.monthlyPayment')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.change')}</th>
+                </tr>
+                </thead>
+                <tbody>
+                {result.rateResets.slice(0, 10).map((r) => {
+                    const delta = r.payment - r.previousPayment;
+                    return (
+                    <tr key={r.month} className="border-b last:border-0 text-slate-700">
+                        <td className="py-2">
+                            {isDated
+                                ? t('results.installmentDate', { month: r.month, date: result.monthlyPayments[r.month - 1].date })
+                                : t('results.installmentYear', { month: r.month, year: Math.ceil(r.month / 12) })}
+                        </td>
+                        <td className="py-2 text-right">{r.previousRate.toFixed(2)}% → {r.rate.toFixed(2)}%</td>
+                        <td className="py-2 text-right">{formatCurrency(r.payment)}</td>
+                        <td className={`py-2 text-right font-medium ${delta > 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                            {delta > 0 ? '+' : ''}{formatCurrency(delta)}
+                        </td>
+                    </tr>
+                    );
+                })}
+                </tbody>
+            </table>
+            {result.rateResets.length > 10 && (
+                <p className="text-xs text-slate-500 mt-2">{t('results.moreResets', { count: result.rateResets.length - 10 })}</p>
             )}
             </div>
-            
-            {loadingAi && (
-                <div className="text-indigo-600 text-sm animate-pulse">DSR 데이터와 최신 규제를 바탕으로 분석 중입니다...</div>
-            )}
+        </div>
+        )}
 
-            {aiAdvice && (
-            <div className="prose prose-sm text-slate-700 max-w-none bg-white p-4 rounded-lg border border-indigo-100 shadow-sm">
-                <ReactMarkdown>{aiAdvice}</ReactMarkdown>
+        {/* Loan Breakdown */}
+        {result.loanBurdens.length > 1 && (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+            <h3 className="text-base font-semibold text-slate-800 mb-4">{t('results.loanBreakdownTitle')}</h3>
+            <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                <tr className="text-left text-slate-500 border-b">
+                    <th className="py-2 font-medium">{t('results.loan')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.annualPrincipal')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.annualInterest')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.dsrContribution')}</th>
+                    <th className="py-2 font-medium text-right">{t('results.share')}</th>
+                </tr>
+                </thead>
+                <tbody>
+                {result.loanBurdens.map((b) => (
+                    <tr key={b.id} className={`border-b last:border-0 ${b.excluded ? 'text-slate-400' : 'text-slate-700'}`}>
+                    <td className="py-2">
+                        {t(burdenLabel(b))}
+                        {b.excluded && <span className="ml-1 text-xs">{t('results.excluded')}</span>}
+                    </td>
+                    <td className="py-2 text-right">{formatWon(b.annualPrincipal)}</td>
+                    <td className="py-2 text-right">{formatWon(b.annualInterest)}</td>
+                    <td className="py-2 text-right">{b.dsrContribution.toFixed(2)}%</td>
+                    <td className="py-2 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                        <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-500" style={{ width: `${b.share}%` }}></div>
+                        </div>
+                        {b.share.toFixed(1)}%
+                        </div>
+                    </td>
+                    </tr>
+                ))}
+                </tbody>
+                <tfoot>
+                <tr className="font-semibold text-slate-900">
+                    <td className="pt-2">{t('results.total')}</td>
+                    <td className="pt-2 text-right" colSpan={2}>{t('results.perYear', { amount: formatCurrency(result.annualRepaymentForDsr) })}</td>
+                    <td className="pt-2 text-right">{result.dsrRatio.toFixed(2)}%</td>
+                    <td className="pt-2 text-right">100%</td>
+                </tr>
+                </tfoot>
+            </table>
             </div>
-            )}
         </div>
+        )}
+
+        {/* Income Recognition */}
+        {inputs.income.enabled && <IncomeBreakdown settings={inputs.income} />}
+
+        {/* DSR Limit Solver */}
+        <LimitSolver inputs={inputs} dsrCap={dsrCap} solved={dsrLimits} onDsrCapChange={onDsrCapChange} />
+
+        {/* Rate × term and amount × income grids, tornado chart */}
+        <SensitivityAnalysis inputs={inputs} result={result} />
+
+        {/* LTV / DTI / DSR */}
+        {inputs.collateralType === CollateralType.Housing && inputs.property.price > 0 && (
+          <RegulatoryLimits inputs={inputs} dsrCap={dsrCap} dsrMaxLoanAmount={dsrLimits.maxLoanAmount} />
+        )}
+
+        {/* Prepayment Simulation */}
+        {result.prepayment && (
+          <PrepaymentComparison
+            baseline={result.monthlyPayments}
+            prepayment={result.prepayment}
+            strategy={inputs.prepayment.strategy}
+          />
+        )}
+
+        {/* Stochastic rate paths for loans whose rate can change */}
+        {inputs.rateType !== RateType.Fixed && <MonteCarloSimulation inputs={inputs} result={result} />}
+
+        {/* AI Analysis Section */}
+        <AiAnalysisPanel inputs={inputs} result={result} onAnalysisComplete={handleAnalysisComplete} />
 
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Total Payment Breakdown */}
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
-            <h3 className="text-base font-semibold text-slate-800 mb-4">총 상환금 구성</h3>
+            <h3 className="text-base font-semibold text-slate-800 mb-4">{t('results.paymentMixTitle')}</h3>
             <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                     <Pie
                     data={[
-                        { name: '원금', value: inputs.loanAmount },
-                        { name: '총 이자', value: result.totalInterest }
+                        { name: t('results.principal'), value: inputs.loanAmount },
+                        { name: t('results.interestTotal'), value: result.totalInterest }
                     ]}
                     cx="50%"
                     cy="50%"
@@ -219,7 +387,7 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
                     <Cell key="cell-0" fill="#3b82f6" /> 
                     <Cell key="cell-1" fill="#ef4444" />
                     </Pie>
-                    <RechartsTooltip formatter={(value: number) => `${formatWon(value)} 원`} />
+                    <RechartsTooltip formatter={(value: number) => formatCurrency(value)} />
                     <Legend />
                 </PieChart>
                 </ResponsiveContainer>
@@ -227,18 +395,18 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
             <div className="flex justify-center gap-6 text-sm mt-2">
                 <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                <span>원금: {formatWon(inputs.loanAmount)}</span>
+                <span>{t('results.principal')}: {formatWon(inputs.loanAmount)}</span>
                 </div>
                 <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-red-500"></div>
-                <span>이자: {formatWon(result.totalInterest)}</span>
+                <span>{t('results.interest')}: {formatWon(result.totalInterest)}</span>
                 </div>
             </div>
             </div>
 
             {/* Yearly Repayment Schedule */}
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
-            <h3 className="text-base font-semibold text-slate-800 mb-4">연도별 상환 추이</h3>
+            <h3 className="text-base font-semibold text-slate-800 mb-4">{t('results.yearlyTrendTitle')}</h3>
             <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
                 <BarChart
@@ -247,22 +415,28 @@ export const Results: React.FC<ResultsProps> = ({ result, inputs, captureRef })
                     stacked
                 >
                     <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                    <XAxis dataKey="year" unit="년차" fontSize={12} tickMargin={10} />
-                    <YAxis fontSize={12} tickFormatter={(val) => `${val / 10000}만`} width={45} />
+                    <XAxis dataKey="year" tickFormatter={(year) => t(isDated ? 'chart.calendarYearTick' : 'chart.yearTick', { year })} fontSize={12} tickMargin={10} />
+                    <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={45} />
                     <RechartsTooltip 
                         formatter={(value: number, name: string) => [
-                            `${formatWon(value)} 원`, 
-                            name === 'principal' ? '원금' : '이자'
+                            formatCurrency(value),
+                            name === 'principal' ? t('results.principal') : t('results.interest')
                         ]}
                     />
-                    <Legend formatter={(val) => val === 'principal' ? '원금' : '이자'} />
+                    <Legend formatter={(val) => val === 'principal' ? t('results.principal') : t('results.interest')} />
                     <Bar dataKey="principal" stackId="a" fill="#3b82f6" name="principal" />
                     <Bar dataKey="interest" stackId="a" fill="#cbd5e1" name="interest" />
                 </BarChart>
                 </ResponsiveContainer>
             </div>
             </div>
+
+            {/* Burden over time with income growth and inflation */}
+            <BurdenProjection inputs={inputs} result={result} />
         </div>
+
+        {/* Amortization Schedule */}
+        <AmortizationTable result={result} inputs={inputs} />
       </div>
     </div>
   );
@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { AlertCircle, Columns3, X } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { calculateDsr } from '../services/dsrEngine';
+import { validateInputs } from '../services/validation';
+import { CalculationResult, LoanInputs, SavedScenario } from '../types';
+
+interface ScenarioComparisonProps {
+  scenarios: SavedScenario[];
+  onRemove: (id: string) => void;
+}
+
+interface ComparisonRow {
+  label: string;
+  values: (number | null)[]; // null for a scenario whose inputs are invalid
+  format: (val: number) => string;
+  lowerIsBetter?: boolean; // Highlights the best scenario for outcome metrics
+}
+
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b'];
+
+const isSame = (values: (number | string)[]) => values.every((v) => v === values[0]);
+
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, onRemove }) => {
+  const { t, formatCurrency, formatCompactCurrency } = useI18n();
+  // Scenarios saved before a rule change or edited into an invalid state are listed but not calculated
+  const errorCounts = useMemo(
+    () => scenarios.map((s) => validateInputs(s.inputs).filter((issue) => issue.severity === 'error').length),
+    [scenarios]
+  );
+  const results = useMemo(
+    () => scenarios.map((s, index): CalculationResult | null => (errorCounts[index] > 0 ? null : calculateDsr(s.inputs))),
+    [scenarios, errorCounts]
+  );
+
+  const inputRows: { label: string; values: string[] }[] = [
+    { label: t('comparison.loanAmount'), values: scenarios.map((s) => formatCurrency(s.inputs.loanAmount)) },
+    { label: t('comparison.annualIncome'), values: scenarios.map((s) => formatCurrency(s.inputs.annualIncome)) },
+    { label: t('results.rate'), values: scenarios.map((s) => `${s.inputs.interestRate}%`) },
+    {
+      label: t('comparison.termGrace'),
+      values: scenarios.map((s) => `${t('unit.years', { years: s.inputs.loanTermYear })} / ${t('unit.years', { years: s.inputs.gracePeriodYear })}`),
+    },
+    { label: t('inputs.repaymentMethod'), values: scenarios.map((s) => t(`repaymentMethod.${s.inputs.repaymentMethod}`)) },
+    { label: t('comparison.existingDebts'), values: scenarios.map((s) => t('comparison.debtCount', { count: s.inputs.existingDebts.length })) },
+  ];
+
+  const metric = (pick: (r: CalculationResult, i: LoanInputs) => number) =>
+    results.map((r, index) => (r ? pick(r, scenarios[index].inputs) : null));
+
+  const resultRows: ComparisonRow[] = [
+    { label: 'DSR', values: metric((r) => r.dsrRatio), format: (v) => `${v.toFixed(2)}%`, lowerIsBetter: true },
+    { label: t('results.avgMonthlyPayment'), values: metric((r) => r.avgMonthlyPayment), format: formatCurrency, lowerIsBetter: true },
+    { label: t('results.interestTotal'), values: metric((r) => r.totalInterest), format: formatCurrency, lowerIsBetter: true },
+    { label: t('comparison.dsrRate'), values: metric((r) => r.stressDsrRateUsed), format: (v) => `${v.toFixed(2)}%` },
+  ];
+
+  // Yearly balance of every scenario on a shared year axis
+  const charted = scenarios.filter((_, index) => results[index]);
+  const maxYears = Math.max(0, ...charted.map((s) => s.inputs.loanTermYear));
+  const balanceData = Array.from({ length: maxYears + 1 }, (_, year) => {
+    const point: Record<string, number> = { year };
+    results.forEach((r, index) => {
+      if (!r) return;
+      const row = year === 0 ? null : r.monthlyPayments[year * 12 - 1];
+      point[scenarios[index].id] = year === 0 ? scenarios[index].inputs.loanAmount : row ? row.balance : 0;
+    });
+    return point;
+  });
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center gap-2 mb-4">
+        <Columns3 className="w-5 h-5 text-blue-600" />
+        <h3 className="text-base font-semibold text-slate-800">{t('comparison.title')}</h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2 text-left font-medium text-slate-500 w-32"></th>
+              {scenarios.map((s, index) => (
+                <th key={s.id} className="py-2 px-2 text-right font-semibold text-slate-800">
+                  <div className="flex items-center justify-end gap-1.5">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SERIES_COLORS[index] }}></span>
+                    {s.name}
+                    {errorCounts[index] > 0 && (
+                      <span className="text-red-500" title={t('comparison.errorCount', { count: errorCounts[index] })}>
+                        <AlertCircle className="w-3.5 h-3.5" />
+                      </span>
+                    )}
+                    <button onClick={() => onRemove(s.id)} className="text-slate-300 hover:text-red-500" data-html2canvas-ignore="true">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {inputRows.map((row) => {
+              const differs = !isSame(row.values);
+              return (
+                <tr key={row.label} className="border-b border-slate-100">
+                  <td className="py-2 text-slate-500">{row.label}</td>
+                  {row.values.map((v, i) => (
+                    <td key={i} className={`py-2 px-2 text-right ${differs ? 'bg-amber-50 text-amber-900 font-medium' : 'text-slate-600'}`}>
+                      {v}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+            {resultRows.map((row) => {
+              const valid = row.values.filter((v): v is number => v !== null);
+              const best = row.lowerIsBetter && valid.length > 1 && !isSame(valid) ? Math.min(...valid) : null;
+              return (
+                <tr key={row.label} className="border-b border-slate-100 last:border-0">
+                  <td className="py-2 font-medium text-slate-700">{row.label}</td>
+                  {row.values.map((v, i) => v === null ? (
+                    <td key={i} className="py-2 px-2 text-right text-xs text-red-500">{t('comparison.invalid')}</td>
+                  ) : (
+                    <td
+                      key={i}
+                      className={`py-2 px-2 text-right ${v === best ? 'text-green-700 font-bold bg-green-50' : 'text-slate-900 font-semibold'}`}
+                    >
+                      {row.format(v)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="h-64 mt-5">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={balanceData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="year" tickFormatter={(years) => t('unit.years', { years })} fontSize={12} tickMargin={10} />
+            <YAxis fontSize={12} tickFormatter={formatCompactCurrency} width={55} />
+            <RechartsTooltip
+              formatter={(value: number, id: string) => [
+                formatCurrency(value),
+                scenarios.find((s) => s.id === id)?.name ?? id
+              ]}
+            />
+            <Legend formatter={(id) => scenarios.find((s) => s.id === id)?.name ?? id} />
+            {scenarios.map((s, index) => results[index] && (
+              <Line key={s.id} type="monotone" dataKey={s.id} stroke={SERIES_COLORS[index]} strokeWidth={2} dot={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Copy, FolderOpen, Save, Trash2 } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { MAX_COMPARED_SCENARIOS } from '../services/scenarioStorage';
+import { SavedScenario } from '../types';
+
+interface ScenarioManagerProps {
+  scenarios: SavedScenario[];
+  activeScenarioId: string | null;
+  comparedIds: string[];
+  onSave: (name: string) => void;
+  onOverwrite: (id: string) => void;
+  onLoad: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+}
+
+export const ScenarioManager: React.FC<ScenarioManagerProps> = ({
+  scenarios,
+  activeScenarioId,
+  comparedIds,
+  onSave,
+  onOverwrite,
+  onLoad,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onToggleCompare,
+}) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    onSave(name.trim() || t('scenario.defaultName', { index: scenarios.length + 1 }));
+    setName('');
+  };
+
+  const iconButtonClass = "p-1.5 rounded text-slate-400 hover:text-blue-600 hover:bg-white transition-colors";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6" data-html2canvas-ignore="true">
+      <h2 className="text-lg font-semibold text-slate-800 mb-4 border-b pb-2">{t('scenario.title')}</h2>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={t('scenario.namePlaceholder')}
+          className="flex-1 rounded-md border-slate-300 py-2 px-3 text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 sm:text-sm bg-white border"
+        />
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {t('scenario.save')}
+        </button>
+      </div>
+
+      {activeScenarioId && (
+        <button
+          onClick={() => onOverwrite(activeScenarioId)}
+          className="w-full mb-4 px-3 py-2 text-sm rounded-md border border-blue-300 text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all"
+        >
+          {t('scenario.overwrite', { name: scenarios.find((s) => s.id === activeScenarioId)?.name ?? '' })}
+        </button>
+      )}
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('scenario.empty', { max: MAX_COMPARED_SCENARIOS })}</p>
+      ) : (
+        <ul className="space-y-2">
+          {scenarios.map((scenario) => {
+            const compared = comparedIds.includes(scenario.id);
+            const compareDisabled = !compared && comparedIds.length >= MAX_COMPARED_SCENARIOS;
+
+            return (
+              <li
+                key={scenario.id}
+                className={`flex items-center gap-2 p-2 rounded-lg border ${
+                  scenario.id === activeScenarioId ? 'border-blue-400 bg-blue-50' : 'border-slate-200 bg-slate-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={compared}
+                  disabled={compareDisabled}
+                  onChange={() => onToggleCompare(scenario.id)}
+                  title={t('scenario.compare')}
+                />
+                <input
+                  type="text"
+                  value={scenario.name}
+                  onChange={(e) => onRename(scenario.id, e.target.value)}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400 rounded px-1"
+                />
+                <button onClick={() => onLoad(scenario.id)} className={iconButtonClass} title={t('scenario.load')}>
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDuplicate(scenario.id)} className={iconButtonClass} title={t('scenario.duplicate')}>
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(scenario.id)} className="p-1.5 rounded text-slate-400 hover:text-red-500 hover:bg-white transition-colors" title={t('scenario.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
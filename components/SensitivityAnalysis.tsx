@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { buildDsrGrid, buildTornado } from '../services/sensitivity';
+import { DSR_CAP_PRESETS } from '../services/dsrSolver';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleProvider';
+import { CalculationResult, LoanInputs, SensitivityVariable } from '../types';
+
+interface SensitivityAnalysisProps {
+  inputs: LoanInputs;
+  result: CalculationResult;
+}
+
+type GridPreset = 'rateTerm' | 'amountIncome';
+
+const GRID_PRESETS: Record<GridPreset, { rows: SensitivityVariable; columns: SensitivityVariable }> = {
+  rateTerm: { rows: 'interestRate', columns: 'loanTermYear' },
+  amountIncome: { rows: 'loanAmount', columns: 'annualIncome' },
+};
+
+const BANK_LINE = '#f59e0b'; // Amber-500
+const NON_BANK_LINE = '#dc2626'; // Red-600
+
+// Which side of the regulatory caps a DSR falls on: 0 within the bank cap, 1 within the
+// non-bank cap, 2 above both
+const capBand = (dsr: number) => (dsr <= DSR_CAP_PRESETS.Bank ? 0 : dsr <= DSR_CAP_PRESETS.NonBank ? 1 : 2);
+
+// Green at 0% shading to red from 80%
+const heatColor = (dsr: number) => `hsl(${Math.round(140 * (1 - Math.min(dsr, 80) / 80))}, 70%, 88%)`;
+
+// Border drawn between two neighbouring cells when a cap lies between them
+const boundaryBorder = (dsr: number, neighbour: number | undefined): string | undefined => {
+  if (neighbour === undefined) return undefined;
+  const bands = [capBand(dsr), capBand(neighbour)];
+  if (bands[0] === bands[1]) return undefined;
+  return `3px solid ${Math.max(...bands) === 2 ? NON_BANK_LINE : BANK_LINE}`;
+};
+
+export const SensitivityAnalysis: React.FC<SensitivityAnalysisProps> = ({ inputs, result }) => {
+  const { t, formatNumber, formatCompactCurrency } = useI18n();
+  const [preset, setPreset] = useState<GridPreset>('rateTerm');
+
+  const grid = useMemo(() => buildDsrGrid(inputs, GRID_PRESETS[preset].rows, GRID_PRESETS[preset].columns), [inputs, preset]);
+  const tornado = useMemo(() => buildTornado(inputs), [inputs]);
+
+  const variableLabel = (variable: SensitivityVariable) => t(`sensitivity.variable.${variable}` as MessageKey);
+
+  const formatValue = (variable: SensitivityVariable, value: number) => {
+    switch (variable) {
+      case 'interestRate':
+        return `${formatNumber(value, { maximumFractionDigits: 2 })}%`;
+      case 'loanTermYear':
+      case 'gracePeriodYear':
+        return t('sensitivity.years', { years: value });
+      default:
+        return formatCompactCurrency(value);
+    }
+  };
+
+  const tornadoData = tornado.map((bar) => ({
+    ...bar,
+    label: variableLabel(bar.variable),
+    low: bar.lowDsr - result.dsrRatio,
+    high: bar.highDsr - result.dsrRatio,
+  }));
+
+  const presetButtonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md border transition-all ${
+      active
+        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Grid3x3 className="w-5 h-5 text-blue-600" />
+          <h3 className="text-base font-semibold text-slate-800">{t('sensitivity.title')}</h3>
+        </div>
+        <div className="flex items-center gap-2" data-html2canvas-ignore="true">
+          {(Object.keys(GRID_PRESETS) as GridPreset[]).map((id) => (
+            <button key={id} onClick={() => setPreset(id)} className={presetButtonClass(preset === id)}>
+              {t(`sensitivity.${id}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      <p className="text-xs text-slate-500 mb-2">
+        {t('sensitivity.heatmapHint', { rows: variableLabel(grid.rowVariable), columns: variableLabel(grid.columnVariable) })}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="p-1.5 text-left font-medium text-slate-500">
+                {variableLabel(grid.rowVariable)} \ {variableLabel(grid.columnVariable)}
+              </th>
+              {grid.columns.map((column) => (
+                <th key={column} className="p-1.5 text-center font-medium text-slate-600 whitespace-nowrap">
+                  {formatValue(grid.columnVariable, column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rows.map((row, r) => (
+              <tr key={row}>
+                <th className="p-1.5 text-left font-medium text-slate-600 whitespace-nowrap">{formatValue(grid.rowVariable, row)}</th>
+                {grid.dsr[r].map((dsr, c) => {
+                  const isCurrent = r === grid.currentRow && c === grid.currentColumn;
+                  return (
+                    <td
+                      key={grid.columns[c]}
+                      className={`p-1.5 text-center tabular-nums text-slate-800 ${isCurrent ? 'font-bold' : ''}`}
+                      style={{
+                        backgroundColor: heatColor(dsr),
+                        borderRight: boundaryBorder(dsr, grid.dsr[r][c + 1]),
+                        borderBottom: boundaryBorder(dsr, grid.dsr[r + 1]?.[c]),
+                        outline: isCurrent ? '2px solid #1e293b' : undefined,
+                        outlineOffset: isCurrent ? '-2px' : undefined,
+                      }}
+                    >
+                      {dsr.toFixed(1)}%
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-slate-600 mt-2">
+        <div className="flex items-center gap-1.5">
+          <span className="inline-block w-4 h-0.5" style={{ backgroundColor: BANK_LINE }}></span>
+          {t('sensitivity.bankBoundary', { cap: DSR_CAP_PRESETS.Bank })}
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="inline-block w-4 h-0.5" style={{ backgroundColor: NON_BANK_LINE }}></span>
+          {t('sensitivity.nonBankBoundary', { cap: DSR_CAP_PRESETS.NonBank })}
+        </div>
+      </div>
+
+      {/* Tornado */}
+      <h4 className="text-sm font-semibold text-slate-800 mt-6 mb-1">{t('sensitivity.tornadoTitle')}</h4>
+      <p className="text-xs text-slate-500 mb-2">{t('sensitivity.tornadoHint', { dsr: result.dsrRatio.toFixed(2) })}</p>
+      <div style={{ height: 60 + tornadoData.length * 44 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={tornadoData} layout="vertical" barGap={2} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" fontSize={12} tickFormatter={(val) => `${val > 0 ? '+' : ''}${val.toFixed(1)}%p`} />
+            <YAxis type="category" dataKey="label" fontSize={12} width={100} />
+            <ReferenceLine x={0} stroke="#64748b" />
+            <RechartsTooltip
+              formatter={(value: number, name: string, item: any) => {
+                const bar = item.payload;
+                const isLow = name === 'low';
+                return [
+                  `${formatValue(bar.variable, isLow ? bar.lowValue : bar.highValue)} → DSR ${(isLow ? bar.lowDsr : bar.highDsr).toFixed(2)}%`,
+                  t(isLow ? 'sensitivity.lower' : 'sensitivity.higher'),
+                ];
+              }}
+            />
+            <Legend formatter={(val) => t(val === 'low' ? 'sensitivity.lower' : 'sensitivity.higher')} />
+            <Bar dataKey="low" fill="#94a3b8" name="low" />
+            <Bar dataKey="high" fill="#3b82f6" name="high" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
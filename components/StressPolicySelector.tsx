@@ -0,0 +1,86 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { InputField } from './InputField';
+import { useI18n } from './LocaleProvider';
+import {
+  STRESS_POLICIES,
+  NO_STRESS_POLICY_ID,
+  CUSTOM_STRESS_POLICY_ID,
+  findStressPolicy,
+  getCurrentStressPolicy,
+} from '../services/stressPolicy';
+import { Region, StressDsrSettings } from '../types';
+
+interface StressPolicySelectorProps {
+  settings: StressDsrSettings;
+  onChange: (settings: StressDsrSettings) => void;
+}
+
+export const StressPolicySelector: React.FC<StressPolicySelectorProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const active = settings.policyId !== NO_STRESS_POLICY_ID;
+  const policy = findStressPolicy(settings.policyId);
+  const currentPolicy = getCurrentStressPolicy();
+
+  const update = (key: keyof StressDsrSettings, value: any) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const regionButtonClass = (region: Region) =>
+    `px-3 py-2 text-sm rounded-md border transition-all ${
+      settings.region === region
+        ? 'bg-indigo-50 border-indigo-500 text-indigo-700 font-medium'
+        : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div
+      className={`p-4 rounded-lg border transition-all space-y-3 ${
+        active ? 'bg-indigo-50 border-indigo-500 ring-1 ring-indigo-500' : 'bg-slate-50 border-slate-200'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <ShieldAlert className={`w-4 h-4 ${active ? 'text-indigo-600' : 'text-slate-400'}`} />
+        <label className={`text-sm font-medium ${active ? 'text-indigo-900' : 'text-slate-700'}`}>{t('stressPolicy.title')}</label>
+      </div>
+
+      <select
+        value={settings.policyId}
+        onChange={(e) => update('policyId', e.target.value)}
+        className="block w-full rounded-md border-slate-300 py-2 pl-3 pr-10 text-slate-900 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500 sm:text-sm bg-white border"
+      >
+        <option value={NO_STRESS_POLICY_ID}>{t('stressPolicy.none')}</option>
+        {STRESS_POLICIES.map((p) => (
+          <option key={p.id} value={p.id}>
+            {t(p.label)} ({p.effectiveDate}~){p.id === currentPolicy.id ? t('stressPolicy.current') : ''}
+          </option>
+        ))}
+        <option value={CUSTOM_STRESS_POLICY_ID}>{t('stressPolicy.custom')}</option>
+      </select>
+
+      {policy && (
+        <>
+          <p className="text-xs text-slate-500 ml-1">* {t(policy.description)}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => update('region', Region.Capital)} className={regionButtonClass(Region.Capital)}>
+              {t('region.Capital')} {policy.spreads[Region.Capital]}%p
+            </button>
+            <button onClick={() => update('region', Region.NonCapital)} className={regionButtonClass(Region.NonCapital)}>
+              {t('region.NonCapital')} {policy.spreads[Region.NonCapital]}%p
+            </button>
+          </div>
+        </>
+      )}
+
+      {settings.policyId === CUSTOM_STRESS_POLICY_ID && (
+        <InputField
+          label={t('stressPolicy.customSpread')}
+          unit="%p"
+          value={settings.customSpread}
+          onChange={(v) => update('customSpread', v)}
+          step={0.1}
+        />
+      )}
+    </div>
+  );
+};
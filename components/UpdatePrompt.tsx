@@ -0,0 +1,57 @@
+import React from 'react';
+import { RefreshCw, WifiOff, X } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { useI18n } from './LocaleProvider';
+
+// Counters keep the app open all day, so look for a new deployment periodically
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export const UpdatePrompt: React.FC = () => {
+  const { t } = useI18n();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_swUrl, registration) => {
+      if (registration) setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError: (error) => console.error("Service worker registration failed:", error),
+  });
+
+  if (!needRefresh && !offlineReady) return null;
+
+  const close = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 max-w-sm p-4 rounded-xl border border-slate-200 bg-white shadow-lg text-sm"
+      data-html2canvas-ignore="true"
+    >
+      <div className="flex items-start gap-3">
+        {needRefresh
+          ? <RefreshCw className="w-5 h-5 flex-shrink-0 text-blue-600" />
+          : <WifiOff className="w-5 h-5 flex-shrink-0 text-slate-500" />}
+        <div className="flex-1">
+          <p className="font-medium text-slate-800">{t(needRefresh ? 'pwa.updateTitle' : 'pwa.offlineReadyTitle')}</p>
+          <p className="mt-1 text-slate-600">{t(needRefresh ? 'pwa.updateBody' : 'pwa.offlineReadyBody')}</p>
+          {needRefresh && (
+            <button
+              onClick={() => updateServiceWorker(true)}
+              className="mt-3 px-3 py-1.5 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 transition-colors"
+            >
+              {t('pwa.reload')}
+            </button>
+          )}
+        </div>
+        <button onClick={close} className="text-slate-400 hover:text-slate-600" aria-label={t('common.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { ValidationIssue } from '../services/validation';
+
+interface ValidationSummaryProps {
+  issues: ValidationIssue[];
+}
+
+export const ValidationSummary: React.FC<ValidationSummaryProps> = ({ issues }) => {
+  const { t } = useI18n();
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  const renderList = (list: ValidationIssue[]) => (
+    <ul className="mt-2 space-y-1 list-disc list-inside">
+      {list.map((issue, index) => (
+        <li key={`${issue.field}-${index}`}>
+          <span className="font-medium">{t(issue.label, issue.labelParams)}</span>: {t(issue.message, issue.params)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-3" data-html2canvas-ignore="true">
+      {errors.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-xl border border-red-200 bg-red-50 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 flex-shrink-0 text-red-600" />
+          <div>
+            <p className="font-semibold">{t('validation.errorTitle')}</p>
+            {renderList(errors)}
+          </div>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-xl border border-amber-300 bg-amber-50 text-sm text-amber-900">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 text-amber-600" />
+          <div>
+            <p className="font-semibold">{t('validation.warningTitle')}</p>
+            {renderList(warnings)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { NO_STRESS_POLICY_ID } from "./services/stressPolicy";
+import { RepaymentMethod, CollateralType, RateType, RatePathMode, Region, PrepaymentStrategy, RegulationZone, BorrowerStatus, DayCountConvention, LoanInputs } from "./types";
+
+// Initial form state, also used to fill fields missing from older saved scenarios
+export const DEFAULT_LOAN_INPUTS: LoanInputs = {
+  annualIncome: 50000000, // Default 5,000 만원 -> 50,000,000 원
+  income: {
+    enabled: false,
+    sources: [],
+    combineCoBorrower: true,
+    manualAnnualIncome: 50000000,
+  },
+  loanAmount: 300000000, // Default 3억 -> 300,000,000 원
+  interestRate: 4.5, // Default 4.5%
+  loanTermYear: 30, // Default 30 years
+  gracePeriodYear: 0,
+  repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+  collateralType: CollateralType.Housing,
+  property: {
+    price: 600000000, // Default 6억
+    zone: RegulationZone.NonRegulated,
+    borrowerStatus: BorrowerStatus.NoHome,
+  },
+  rateType: RateType.Fixed,
+  fixedPeriodYear: 5,
+  ratePath: {
+    mode: RatePathMode.Reset,
+    indexRate: 3.0,
+    spread: 1.5, // indexRate + spread = interestRate, so a reset starts from the contract rate
+    indexStepPerReset: 0,
+    variableResetMonth: 6,
+    changes: [],
+  },
+  stressDsr: {
+    policyId: NO_STRESS_POLICY_ID,
+    region: Region.Capital,
+    customSpread: 3.0,
+  },
+  existingDebts: [],
+  prepayment: {
+    prepayments: [],
+    strategy: PrepaymentStrategy.ShortenTerm,
+    feeRule: {
+      feeRate: 1.2,
+      slidingPeriodYear: 3,
+      annualExemptionAmount: 0,
+    },
+  },
+  calendar: {
+    startDate: '',
+    paymentDay: 25,
+    dayCount: DayCountConvention.Thirty360,
+  },
+};
+
+// Version of the calculation rules (debt rules, stress policy presets, engine behavior).
+// Bump whenever a change would alter the result of an existing scenario.
+export const RULES_VERSION = '2025.11';
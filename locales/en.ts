@@ -0,0 +1,592 @@
+import { MessageKey } from "./ko";
+
+export const en: Record<MessageKey, string> = {
+  'common.close': 'Close',
+
+  'unit.won': 'KRW',
+  'unit.year': 'yrs',
+  'unit.years': '{years} yrs',
+  'unit.months': '{months} mo',
+
+  'app.title': 'Smart DSR Calculator',
+  'app.subtitle': 'Phased stress DSR simulation and AI-assisted repayment analysis',
+  'app.linkError': 'Could not open the shared link. {error} Starting from the defaults.',
+  'app.linkOutdated': 'This link was made with older calculation rules ({version}). It was recalculated with the current rules, so the results may differ.',
+  'shareLink.unrecognized': 'The link format is not recognized.',
+  'shareLink.newerVersion': 'The link was made with a newer version of the calculator.',
+  'shareLink.unreadable': 'The link could not be read.',
+  'shareLink.missingInputs': 'The scenario in the link is damaged: it has no scenario data.',
+  'shareLink.missingField': 'The scenario in the link is damaged: \'{field}\' is missing.',
+  'shareLink.invalidField': 'The scenario in the link is damaged: \'{field}\' is invalid.',
+  'app.language': 'Language',
+  'app.mode.dsr': 'DSR calculator',
+  'app.mode.refinance': 'Refinance comparison',
+  'app.mode.products': 'Product comparison',
+  'app.rulesUpdated': 'The regulatory rules have been updated from {from} to {to}. Your last inputs were recalculated under the new rules.',
+  'scenario.copyName': '{name} (copy)',
+  'scenario.title': 'Saved scenarios',
+  'scenario.defaultName': 'Scenario {index}',
+  'scenario.namePlaceholder': 'Scenario name',
+  'scenario.save': 'Save',
+  'scenario.overwrite': 'Overwrite \'{name}\' with the current inputs',
+  'scenario.empty': 'Save the current inputs to compare up to {max} scenarios side by side.',
+  'scenario.compare': 'Add to comparison',
+  'scenario.load': 'Load',
+  'scenario.duplicate': 'Duplicate',
+  'scenario.delete': 'Delete',
+
+  'inputs.title': 'Loan Details',
+  'inputs.recognizedIncome': 'Annual income (recognized for DSR)',
+  'inputs.recognizedIncomeHint': 'Calculated from income sources',
+  'inputs.annualIncome': 'Annual income (pre-tax)',
+  'inputs.loanAmount': 'Loan amount',
+  'inputs.loanTerm': 'Loan term',
+  'inputs.gracePeriod': 'Grace period',
+  'inputs.interestRate': 'Interest rate',
+  'inputs.rateType': 'Rate type',
+  'inputs.fixedPeriodUnit': 'yrs fixed',
+  'inputs.resetPeriodUnit': 'yr cycle',
+  'inputs.repaymentMethod': 'Repayment method',
+  'inputs.bulletHintHousing': '* The principal is repaid in full at maturity. For DSR, it is treated as repaid over at most 10 years.',
+  'inputs.bulletHintOther': '* The principal is repaid in full at maturity. For DSR, it is treated as repaid over 8 years.',
+  'inputs.graduatedHint': '* Payments grow by {step}% every year. The lower early payments are not credited in the DSR calculation.',
+  'inputs.collateralType': 'Collateral',
+  'inputs.housingGraceWarning': '* A grace period on a mortgage shortens the principal repayment period used for DSR, which can raise the ratio.',
+  'inputs.propertyPrice': 'Home price',
+  'inputs.zone': 'Regulated zone',
+  'inputs.borrowerStatus': 'Home ownership',
+
+  'rateType.Variable': 'Variable',
+  'rateType.Mixed': 'Hybrid',
+  'rateType.Periodic': 'Periodic reset',
+  'rateType.Fixed': 'Fixed',
+
+  'repaymentMethod.PrincipalInterestEqual': 'Level payment',
+  'repaymentMethod.PrincipalEqual': 'Level principal',
+  'repaymentMethod.Bullet': 'Bullet',
+  'repaymentMethod.Graduated': 'Graduated',
+
+  'collateral.Housing': 'Home or officetel',
+  'collateral.Other': 'Other collateral (land, retail, etc.)',
+
+  'zone.Speculative': 'Speculation-overheated district',
+  'zone.Adjusted': 'Adjustment target area',
+  'zone.NonRegulated': 'Non-regulated area',
+
+  'borrowerStatus.NoHome': 'No home',
+  'borrowerStatus.FirstTime': 'First-time buyer',
+  'borrowerStatus.OneHome': 'One home',
+
+  'debtType.Mortgage': 'Mortgage',
+  'debtType.OtherSecured': 'Other secured loan',
+  'debtType.Credit': 'Credit loan',
+  'debtType.StudentLoan': 'Student loan',
+  'debtType.CardLoan': 'Card loan',
+  'debtType.AutoLoan': 'Auto loan / installment',
+  'debtType.Jeonse': 'Jeonse deposit loan',
+  'debtType.GroupLoan': 'Interim payment / relocation loan',
+
+  'debtRule.Actual': 'Principal and interest over the actual remaining term',
+  'debtRule.Deemed': 'Deemed term of {years} years',
+  'debtRule.InterestOnly': 'Interest only; principal excluded',
+  'debtRule.Excluded': 'Excluded from DSR',
+
+  'incomeType.Earned': 'Earned income',
+  'incomeType.Business': 'Business income',
+  'incomeType.Recognized': 'Recognized income',
+  'incomeType.Declared': 'Declared income',
+
+  'incomeEvidence.Earned': 'Withholding tax receipt',
+  'incomeEvidence.Business': 'Income amount certificate',
+  'incomeEvidence.Recognized': 'Pension and health insurance payments',
+  'incomeEvidence.Declared': 'Card spending, rent, etc.',
+
+  'incomeRule.Earned': 'Total wages recognized in full',
+  'incomeRule.Business': 'Income after expenses recognized in full',
+  'incomeRule.Recognized': '95% of the converted income, up to ₩50M',
+  'incomeRule.Declared': '90% of the estimated income, up to ₩50M',
+  'incomeRule.notCombined': 'Not combined',
+
+  'incomeOwner.Borrower': 'Borrower',
+  'incomeOwner.CoBorrower': 'Spouse / co-borrower',
+
+  'stressPolicy.none': 'Not applied',
+  'stressPolicy.custom': 'Custom',
+  'stressPolicy.title': 'Stress DSR',
+  'stressPolicy.current': ' · current',
+  'stressPolicy.customSpread': 'Stress spread',
+  'region.Capital': 'Capital area',
+  'region.NonCapital': 'Outside the capital area',
+  'stressPolicy.stage1.label': 'Stage 1',
+  'stressPolicy.stage1.description': '25% of the stress rate applied',
+  'stressPolicy.stage2.label': 'Stage 2',
+  'stressPolicy.stage2.description': '50% of the stress rate; 1.2%p for capital-area mortgages',
+  'stressPolicy.stage3.label': 'Stage 3',
+  'stressPolicy.stage3.description': '100% of the stress rate; 0.75%p for mortgages outside the capital area',
+  'stressPolicy.stage3-2025-10.label': 'Stage 3 (Oct 15 measures)',
+  'stressPolicy.stage3-2025-10.description': 'Stress rate floor of 3.0%p for capital-area and regulated-zone mortgages',
+
+  'results.copyLink': 'Copy share link',
+  'results.linkCopied': 'Link copied',
+  'results.copyLinkFailed': 'Could not copy the link.',
+  'results.saveImage': 'Save report image',
+  'results.saveImageFailed': 'Could not save the image.',
+  'results.pdfReport': 'PDF report',
+  'results.pdfReportFailed': 'Could not create the PDF report. Please check your network connection.',
+  'results.dsrRatio': 'DSR ratio',
+  'results.stressRateApplied': 'Stress rate {rate}% applied ({policy} +{spread}%p)',
+  'results.rateApplied': 'Rate applied: {rate}%',
+  'results.avgMonthlyPayment': 'Average monthly payment',
+  'results.avgMonthlyPaymentHint': 'Total repayment averaged per month',
+  'results.totalInterest': 'Total interest',
+  'results.totalInterestHint': 'Interest over the life of the loan',
+  'results.rateResetsTitle': 'Monthly payment after rate resets',
+  'results.installment': 'Payment',
+  'results.installmentNumber': 'Payment {month}',
+  'results.installmentYear': 'Payment {month} (year {year})',
+  'results.installmentDate': 'Payment {month} ({date})',
+  'results.rate': 'Rate',
+  'results.monthlyPayment': 'Monthly payment',
+  'results.change': 'Change',
+  'results.moreResets': '{count} more rate resets',
+  'results.loanBreakdownTitle': 'DSR by loan',
+  'results.loan': 'Loan',
+  'results.newLoan': 'New loan',
+  'results.annualPrincipal': 'Annual principal',
+  'results.annualInterest': 'Annual interest',
+  'results.dsrContribution': 'DSR contribution',
+  'results.share': 'Share',
+  'results.excluded': '(excluded)',
+  'results.total': 'Total',
+  'results.perYear': '{amount}/yr',
+  'results.paymentMixTitle': 'Total repayment mix',
+  'results.principal': 'Principal',
+  'results.interest': 'Interest',
+  'results.interestTotal': 'Total interest',
+  'results.yearlyTrendTitle': 'Repayment by year',
+
+  'chart.monthTick': '#{month}',
+  'chart.yearTick': 'Y{year}',
+  'chart.calendarYearTick': '{year}',
+
+  'sensitivity.title': 'DSR Sensitivity',
+  'sensitivity.rateTerm': 'Rate × term',
+  'sensitivity.amountIncome': 'Loan amount × income',
+  'sensitivity.heatmapHint': 'Rows show {rows}, columns show {columns}. The outlined cell is the current scenario.',
+  'sensitivity.bankBoundary': 'Bank {cap}% boundary',
+  'sensitivity.nonBankBoundary': 'Non-bank {cap}% boundary',
+  'sensitivity.tornadoTitle': 'What moves the DSR most',
+  'sensitivity.tornadoHint': 'DSR change when each input is moved on its own. (Current DSR {dsr}%)',
+  'sensitivity.lower': 'Lowered',
+  'sensitivity.higher': 'Raised',
+  'sensitivity.years': '{years} yrs',
+  'sensitivity.variable.interestRate': 'Interest rate',
+  'sensitivity.variable.loanTermYear': 'Loan term',
+  'sensitivity.variable.loanAmount': 'Loan amount',
+  'sensitivity.variable.annualIncome': 'Annual income',
+  'sensitivity.variable.gracePeriodYear': 'Grace period',
+  'sensitivity.variable.existingDebts': 'Existing debt balance',
+
+  'monteCarlo.title': 'Monte Carlo Rate Simulation',
+  'monteCarlo.description': 'Runs the repayment schedule over {paths} random index rate paths to show the range of payments.',
+  'monteCarlo.run': 'Run simulation',
+  'monteCarlo.cancel': 'Stop',
+  'monteCarlo.paths': 'Paths',
+  'monteCarlo.volatility': 'Annual volatility',
+  'monteCarlo.floor': 'Rate floor',
+  'monteCarlo.cap': 'Rate cap',
+  'monteCarlo.threshold': 'Affordable monthly payment',
+  'monteCarlo.drift': 'Index trend (per year)',
+  'monteCarlo.driftUnit': '%p/yr',
+  'monteCarlo.progress': 'Simulating {completed} / {total} paths...',
+  'monteCarlo.failed': 'The simulation failed. Please try again.',
+  'monteCarlo.stale': 'The inputs have changed, so the results below refer to the previous scenario.',
+  'monteCarlo.exceedProbability': 'Chance of exceeding the payment',
+  'monteCarlo.exceedHint': 'Share of paths that go above {threshold} in any month',
+  'monteCarlo.totalInterest': 'Total interest (median)',
+  'monteCarlo.totalInterestRange': '90% range {low} to {high}',
+  'monteCarlo.deterministic': 'Total interest on the current rate path',
+  'monteCarlo.bandsTitle': 'Monthly payment distribution',
+  'monteCarlo.band90': '5-95%',
+  'monteCarlo.band50': '25-75%',
+  'monteCarlo.median': 'Median',
+  'monteCarlo.thresholdLine': 'Affordable payment',
+  'monteCarlo.histogramTitle': 'Total interest distribution',
+  'monteCarlo.pathCount': 'Paths',
+
+  'calendar.title': 'Start date and interest',
+  'calendar.startDate': 'Disbursement date',
+  'calendar.paymentDay': 'Payment day',
+  'calendar.dayUnit': 'day',
+  'calendar.dayCount': 'Day-count convention',
+  'calendar.undatedHint': '* Without a start date, each month is charged 1/12 of the annual interest.',
+  'calendar.firstPayment': '* The first payment is due on {date} and covers {days} days of interest. Interest is charged by the days between payment dates.',
+  'dayCount.Thirty360': '30/360 (30-day months)',
+  'dayCount.Actual365': 'Actual/365',
+
+  'projection.title': 'Repayment Burden Over Time',
+  'projection.description': 'Assumes income growth and inflation to show what share of income the actual payments take each year, and the total cost in today\'s money.',
+  'projection.incomeGrowth': 'Annual income growth',
+  'projection.inflation': 'Annual inflation',
+  'projection.ratioInYear': 'Payments to income, {year}',
+  'projection.incomeOf': 'Projected income {income}',
+  'projection.realInterest': 'Total interest (today\'s money)',
+  'projection.nominalInterestOf': 'Nominal total interest {amount}',
+  'projection.ratioTitle': 'Payments as a share of income by year',
+  'projection.paymentToIncome': 'Payments to income',
+  'projection.currentDsr': 'Current DSR {dsr}%',
+  'projection.costTitle': 'Nominal vs real cost',
+  'projection.interest': 'Total interest',
+  'projection.totalPayment': 'Total repayment',
+  'projection.nominal': 'Nominal',
+  'projection.real': 'Real (today\'s money)',
+
+  'validation.errorTitle': 'Please check your inputs. Results are recalculated once the items below are fixed.',
+  'validation.warningTitle': 'This can be calculated, but it may not pass an actual loan review.',
+  'validation.number': 'Enter a number.',
+  'validation.greaterThan': 'Must be greater than {min}.',
+  'validation.atLeast': 'Must be at least {min}.',
+  'validation.atMost': 'Must be at most {max}.',
+  'validation.integer': 'Enter a whole number.',
+  'validation.date': 'Not a valid date.',
+  'validation.graceTooLong': 'The grace period must be shorter than the loan term.',
+  'validation.fixedPeriodCoversTerm': 'The fixed period covers the whole term, so the rate never resets. Check whether this is a fixed-rate loan.',
+  'validation.housingTermCap': 'Mortgages in the capital region and regulated areas are limited to a {max}-year term.',
+  'validation.field.indexRate': 'Assumed index rate',
+  'validation.field.resetMonth': 'Reset interval',
+  'validation.field.rateChange': 'Rate change {index}',
+  'validation.field.stressSpread': 'Stress spread',
+  'validation.field.debtBalance': 'Existing loan {index} balance',
+  'validation.field.debtRate': 'Existing loan {index} rate',
+  'validation.field.debtTerm': 'Existing loan {index} remaining term',
+  'validation.field.prepayment': 'Prepayment {index}',
+  'validation.field.prepaymentFee': 'Prepayment fee rate',
+  'validation.field.currentRate': 'Current loan rate',
+  'validation.field.candidateRate': 'New loan rate',
+  'validation.field.candidateTerm': 'New loan term',
+  'validation.field.dsrCap': 'DSR cap',
+
+  'refinance.title': 'Refinancing: Keep vs Switch',
+  'refinance.description': 'Compares keeping the current loan with switching to a new one: payments, the prepayment fee, stamp duty and other costs, and a DSR re-check under the current stress rules.',
+  'refinance.currentLoan': 'Current loan',
+  'refinance.candidateLoan': 'New loan',
+  'refinance.sourceDebt': 'Pick from existing loans',
+  'refinance.sourceDebtNone': 'Enter manually',
+  'refinance.debtType': 'Loan type',
+  'refinance.balance': 'Outstanding balance',
+  'refinance.remainingTerm': 'Remaining term',
+  'refinance.elapsed': 'Time since drawdown',
+  'refinance.monthUnit': 'mo',
+  'refinance.feeRate': 'Prepayment fee',
+  'refinance.slidingPeriod': 'Fee period',
+  'refinance.setupCost': 'Mortgage registration',
+  'refinance.otherCosts': 'Other costs',
+  'refinance.discountRate': 'Discount rate (per year)',
+  'refinance.monthlySavings': 'Monthly savings (first payment)',
+  'refinance.interestSaved': 'Total interest saved {amount}',
+  'refinance.breakEven': 'Break-even',
+  'refinance.breakEvenMonth': 'After {month} months',
+  'refinance.noBreakEven': 'Never',
+  'refinance.netPresentSavings': 'Net present savings',
+  'refinance.discountedAt': 'Discounted at {rate}% a year',
+  'refinance.upfrontCost': 'Cost of switching',
+  'refinance.costBreakdown': 'Prepayment fee {fee} · stamp duty {stamp} · registration and other {other}',
+  'refinance.dsrCheck': 'DSR re-check',
+  'refinance.dsrBefore': 'Now',
+  'refinance.dsrAfter': 'After switching',
+  'refinance.dsrAfterHint': '(new loan DSR rate {rate}%, cap {cap}%)',
+  'refinance.dsrOverCap': 'The DSR is above the cap, so the refinance may be declined.',
+  'refinance.savingsTitle': 'Cumulative net savings (after costs)',
+  'refinance.cumulativeSavings': 'Cumulative net savings',
+  'refinance.schedulesTitle': 'Repayment by year',
+  'refinance.year': 'Year',
+  'refinance.keep': 'Keep',
+  'refinance.switch': 'Switch',
+  'refinance.yearPayment': 'Payments',
+  'refinance.endBalance': 'Year-end balance',
+  'refinance.assumption': '* Both loans are assumed to keep today\'s rate to maturity, and the switching costs are paid out of pocket at the switch. Stamp duty is the borrower\'s half.',
+  'refinance.invalid': 'Fix the input errors to compare keeping and switching.',
+
+  'pwa.updateTitle': 'A new version is available',
+  'pwa.updateBody': 'Calculation rules such as the regulatory limits may have been updated. Your inputs are kept when you reload.',
+  'pwa.reload': 'Reload',
+  'pwa.offlineReadyTitle': 'Ready to work offline',
+  'pwa.offlineReadyBody': 'The calculator, charts and exports now work without a network connection.',
+  'catalog.title': 'Loan product comparison',
+  'catalog.description': 'Import a lender product list (JSON/CSV) and compare DSR, monthly payment and total cost for the current borrower.',
+  'catalog.import': 'Import products',
+  'catalog.template': 'CSV template',
+  'catalog.clear': 'Remove product list',
+  'catalog.importFailed': 'The product list could not be imported. {error}',
+  'catalog.imported': 'Imported {count} products. Skipped rows: {skipped}',
+  'catalog.rowError': 'Row {row}: {error}',
+  'catalog.error.missing': '\'{field}\' is missing.',
+  'catalog.error.invalid': '\'{field}\' is not a valid number.',
+  'catalog.error.outOfRange': '\'{field}\' is outside the allowed range ({min}–{max}).',
+  'catalog.error.unknownValue': '\'{field}\' has an unknown value \'{value}\'.',
+  'catalog.error.missingColumns': 'Required columns are missing: {columns}',
+  'catalog.error.noProducts': 'No product list (products array) was found.',
+  'catalog.error.unreadable': 'The file format is not valid.',
+  'catalog.error.notProduct': 'This row is not product data.',
+  'catalog.moreErrors': 'and {count} more rows',
+  'catalog.empty': 'No products imported yet. Download the CSV template, fill in the lender, rate type, base rate and spread, maximum term, repayment methods, grace periods and fees, then import it.',
+  'catalog.invalidInputs': 'Fix the input errors to rank the products by DSR and cost.',
+  'catalog.rankBy': 'Rank by',
+  'catalog.rank.dsr': 'DSR',
+  'catalog.rank.monthlyPayment': 'Monthly payment',
+  'catalog.rank.totalCost': 'Total cost',
+  'catalog.borrower': 'Loan {amount} · {collateral} · DSR cap {cap}%',
+  'catalog.noEligible': 'No product is available to the current borrower.',
+  'catalog.product': 'Product',
+  'catalog.rate': 'Rate',
+  'catalog.terms': 'Terms used',
+  'catalog.monthlyPayment': 'Monthly payment',
+  'catalog.totalCost': 'Total cost',
+  'catalog.fixedPeriod': '{years}y',
+  'catalog.termSummary': '{term}y · {grace}y grace · {method}',
+  'catalog.adjustedTerm': 'term cut to the product maximum',
+  'catalog.adjustedMethod': 'repayment method changed',
+  'catalog.adjustedGrace': 'grace period adjusted',
+  'catalog.overCap': 'Over cap',
+  'catalog.costBreakdown': 'Interest {interest} · fees {fees}',
+  'catalog.load': 'Use in form',
+  'catalog.footnote': 'The monthly payment is the first installment after any grace period. Total cost adds interest, the arrangement fee, stamp duty and fees on planned prepayments. Terms a product does not offer are replaced with its nearest option.',
+  'catalog.ineligibleTitle': 'Not available ({count})',
+  'catalog.ineligibleCollateral': 'only for {collateral}',
+  'catalog.ineligibleAmount': 'over the product limit of {max}',
+  'debts.title': 'Existing loans',
+  'debts.add': 'Add',
+  'debts.empty': 'Add any loans you already have. The repayments of every loan count toward the DSR.',
+  'debts.item': 'Loan {index}',
+  'debts.remove': 'Remove loan',
+  'debts.balance': 'Balance',
+  'debts.interestRate': 'Interest rate',
+  'debts.remainingTerm': 'Remaining term',
+
+  'incomeBreakdown.title': 'Recognized income breakdown',
+  'incomeBreakdown.source': 'Income',
+  'incomeBreakdown.evidence': 'Evidence',
+  'incomeBreakdown.reported': 'Evidenced amount',
+  'incomeBreakdown.recognized': 'Recognized amount',
+  'incomeBreakdown.basis': 'Basis',
+  'incomeBreakdown.minimum': 'No income (minimum living cost)',
+  'incomeBreakdown.minimumHint': 'Applied when no income can be recognized',
+  'incomeBreakdown.total': 'Income recognized for DSR',
+  'incomeBreakdown.totalSplit': '(borrower {borrower} + spouse/co-borrower {coBorrower})',
+
+  'incomeBuilder.title': 'Income',
+  'incomeBuilder.detailed': 'Itemize',
+  'incomeBuilder.detailedOn': 'Itemizing',
+  'incomeBuilder.description': 'Enter the evidenced amount of each income type to compute the income recognized under DSR screening rules. Spouse or co-borrower income can be combined.',
+  'incomeBuilder.item': 'Income {index}',
+  'incomeBuilder.remove': 'Remove income',
+  'incomeBuilder.amount': 'Annual amount ({evidence})',
+  'incomeBuilder.addBorrower': 'Borrower income',
+  'incomeBuilder.addCoBorrower': 'Spouse / co-borrower income',
+  'incomeBuilder.combine': 'Combine spouse / co-borrower income',
+  'incomeBuilder.minimumApplied': 'No income can be recognized, so the minimum living cost income is applied.',
+
+  'regulation.title': 'Combined LTV · DTI · DSR limit',
+  'regulation.passed': 'All limits met',
+  'regulation.failed': 'Over a limit',
+  'regulation.binding': 'Binding',
+  'regulation.maxLoan': 'Up to {amount}',
+  'regulation.finalLimit': 'Final loan limit (set by {kind}):',
+  'regulation.ltvNote': '{zone}, {status}: LTV {cap}%',
+  'regulation.priceCapNote': '{zone} price-band cap of {amount}',
+  'regulation.dtiNote': '{zone} DTI {cap}%',
+  'regulation.dsrNote': 'Borrower-level DSR {cap}%',
+
+  'limitSolver.title': 'DSR loan limit',
+  'limitSolver.bank': 'Banks {cap}%',
+  'limitSolver.nonBank': 'Non-banks {cap}%',
+  'limitSolver.custom': 'Custom',
+  'limitSolver.currentLoan': 'Current loan {amount}',
+  'limitSolver.limit': 'Limit {amount}',
+  'limitSolver.headroom': '{amount} of room left under DSR {cap}%',
+  'limitSolver.overLimit': '{amount} over the DSR {cap}% limit',
+  'limitSolver.maxLoan': 'Maximum loan',
+  'limitSolver.monthlyPayment': 'Monthly payment {amount}',
+  'limitSolver.minIncome': 'Minimum annual income',
+  'limitSolver.minIncomeBasis': 'For the current loan terms',
+  'limitSolver.minTerm': 'Minimum loan term',
+  'limitSolver.minTermBasis': 'For the current amount and income',
+  'limitSolver.notApplicable': 'Not reachable',
+
+  'schedule.title': 'Repayment schedule',
+  'schedule.withPrepayment': 'Include prepayments',
+  'schedule.expandAll': 'Expand all',
+  'schedule.collapseAll': 'Collapse all',
+  'schedule.cumulativePrincipal': 'Cumulative principal',
+  'schedule.cumulativeInterest': 'Cumulative interest',
+  'schedule.balance': 'Balance',
+  'schedule.grace': 'Grace',
+  'schedule.interestDays': '{days} days of interest',
+  'schedule.prepaid': '+{amount} prepaid',
+  'schedule.graceHint': '* Shaded installments fall in the grace period (interest only).',
+
+  'prepayment.title': 'Prepayment plan',
+  'prepayment.add': 'Add',
+  'prepayment.empty': 'Add a one-off or recurring prepayment to compare the interest saved with the fees.',
+  'prepayment.item': 'Prepayment {index}',
+  'prepayment.remove': 'Remove prepayment',
+  'prepayment.amount': 'Amount',
+  'prepayment.month': 'Installment',
+  'prepayment.repeat': 'Repeat every',
+  'prepayment.once': 'Once',
+  'prepayment.strategy': 'After a prepayment',
+  'prepayment.strategy.ShortenTerm': 'Shorten the term',
+  'prepayment.strategy.ReducePayment': 'Lower the payment',
+  'prepayment.feeRate': 'Prepayment fee rate',
+  'prepayment.feePeriod': 'Fee period',
+  'prepayment.exemption': 'Annual fee-free amount',
+  'prepayment.feeFormula': '* Fee = amount over the fee-free limit × fee rate × remaining fee period / fee period',
+  'prepayment.effectTitle': 'Prepayment impact',
+  'prepayment.totalPrepaid': 'Total prepaid',
+  'prepayment.interestSaved': 'Interest saved',
+  'prepayment.fees': 'Prepayment fees',
+  'prepayment.netSavings': 'Net savings',
+  'prepayment.payoff': 'Paid off:',
+  'prepayment.shortenedBy': '{period} sooner',
+  'prepayment.monthlyPayment': 'Monthly payment:',
+  'prepayment.baselineBalance': 'Balance without prepayments',
+  'prepayment.revisedBalance': 'Balance with prepayments',
+  'prepayment.feesCharged': '* Fees charged: {fees}',
+
+  'ratePath.title': 'Future rate assumptions',
+  'ratePath.mode.Reset': 'Reset rule',
+  'ratePath.mode.Explicit': 'Manual',
+  'ratePath.reset.Variable': 'Resets every {months} months',
+  'ratePath.reset.Mixed': 'Fixed for {years} years, then resets every {months} months',
+  'ratePath.reset.Periodic': 'Resets every {years} years',
+  'ratePath.resetHint': '* {reset}; reset rate = index rate + spread',
+  'ratePath.indexRate': 'Assumed index rate',
+  'ratePath.spread': 'Spread',
+  'ratePath.indexStep': 'Index change per reset',
+  'ratePath.resetMonth': 'Reset interval',
+  'ratePath.changeMonth': 'From installment',
+  'ratePath.removeChange': 'Remove rate change',
+  'ratePath.addChange': 'Add rate change',
+
+  'comparison.title': 'Scenario comparison',
+  'comparison.loanAmount': 'Loan amount',
+  'comparison.annualIncome': 'Annual income',
+  'comparison.termGrace': 'Term / grace period',
+  'comparison.existingDebts': 'Existing loans',
+  'comparison.debtCount': '{count}',
+  'comparison.dsrRate': 'DSR rate',
+  'comparison.errorCount': '{count} input errors',
+  'comparison.invalid': 'Invalid inputs',
+
+  'export.item': 'Item',
+  'export.value': 'Value',
+  'export.assumptionsSheet': 'Assumptions',
+  'export.interestRate': 'Interest rate (%)',
+  'export.loanTerm': 'Loan term (years)',
+  'export.gracePeriod': 'Grace period (years)',
+  'export.paymentDayValue': 'Day {day} of each month',
+  'export.column.year': 'Year',
+  'export.column.kind': 'Type',
+  'export.column.rate': 'Rate (%)',
+  'export.column.prepayment': 'Prepayment',
+  'export.column.paymentDate': 'Payment date',
+  'export.column.interestDays': 'Interest days',
+  'export.repaying': 'Repayment',
+
+  'rules.summary': 'The total DSR is {dsr}, {level}',
+  'rules.level.withinBank': 'within the bank DSR cap of {cap}%, so the loan can pass screening on the current terms.',
+  'rules.level.nonBank': '{over} over the bank cap of {cap}%, so a non-bank lender ({nonBankCap}%) is needed.',
+  'rules.level.overAll': 'over both the bank and non-bank caps ({nonBankCap}%), so a loan is unlikely on the current terms.',
+  'rules.newLoanShare': 'The new loan makes up {share}% of the DSR.',
+  'rules.stress.applied': '{policy} adds a stress spread of {spread}%p, so the DSR is calculated at {rate}. Without stress DSR the DSR would be {withoutStress}; the spread raises it by {delta}.',
+  'rules.stress.none': 'No stress DSR applies, so the DSR is calculated at the contract rate.',
+  'rules.existingDebts': 'Existing loans ({count}) account for {share} of the DSR.',
+  'rules.grace.noEffect': 'The {years}-year grace period does not affect the DSR.',
+  'rules.grace.raises': 'The {years}-year grace period shortens the deemed repayment period, raising the DSR by {delta}.',
+  'rules.grace.lowers': 'The {years}-year grace period shortens the deemed repayment period, lowering the DSR by {delta}.',
+  'rules.grace.noneHousing': 'With no grace period, the principal is spread over the full term. A grace period on a mortgage would raise the DSR.',
+  'rules.grace.none': 'There is no grace period.',
+  'rules.method.noEffect': '{method} gives the same DSR as {base}.',
+  'rules.method.higher': '{method} gives a DSR {delta} higher than {base}.',
+  'rules.method.lower': '{method} gives a DSR {delta} lower than {base}.',
+  'rules.suggest.reduceAmount': 'Reducing the loan to {amount} or less meets the bank DSR cap of {cap}%.',
+  'rules.suggest.extendTerm': 'Extending the term to {years} years or more meets the {cap}% DSR cap at the current amount.',
+  'rules.suggest.headroom': 'There is room to borrow about {amount} more under the bank DSR cap of {cap}%.',
+  'rules.suggest.fixedRate': 'A fixed rate reduces the stress spread and lowers the DSR by {delta}.',
+  'rules.suggest.noGrace': 'Starting repayment without a grace period lowers the DSR by {delta}.',
+  'rules.suggest.repayDebt': 'Paying off the existing loan ({debt}) first lowers the DSR by {delta}.',
+  'rules.suggest.prepay': 'When spare funds come up, consider prepaying to reduce the total interest.',
+  'rules.whatIf.term': 'a {years}-year term',
+  'rules.whatIf.grace': 'a {years}-year grace period',
+  'rules.whatIf.rate': 'a {rate}% rate',
+  'rules.whatIf.amount': 'a loan of {amount}',
+  'rules.unsupported': 'The offline analyzer can only recalculate the DSR with changed terms. Try questions like these:',
+  'rules.example.term': 'What if the term is 40 years?',
+  'rules.example.rate': 'What if the rate goes to 5%?',
+  'rules.example.amount': 'What if the loan is 200 million?',
+  'rules.example.grace': 'What if the grace period is 1 year?',
+  'rules.example.fixed': 'What if I switch to a fixed rate?',
+  'rules.answer.title': 'Recalculated with **{changes}**.',
+  'rules.answer.noChange': 'The DSR does not change.',
+  'rules.answer.up': 'The DSR rises by {delta} and {capStatus}',
+  'rules.answer.down': 'The DSR falls by {delta} and {capStatus}',
+  'rules.answer.meetsCap': 'meets the bank cap of {cap}%.',
+  'rules.answer.exceedsCap': 'exceeds the bank cap of {cap}%.',
+
+  'pdf.title': 'DSR Loan Analysis Report',
+  'pdf.meta': 'Prepared {date} · Rules as of {version}',
+  'pdf.keyMetrics': 'Key metrics',
+  'pdf.dsrWithinCap': '{dsr}% (within the {cap}% cap)',
+  'pdf.dsrOverCap': '{dsr}% (over the {cap}% cap)',
+  'pdf.totalPayment': 'Total repayment',
+  'pdf.balanceTrend': 'Loan balance',
+  'pdf.yearlyPayments': 'Yearly repayments',
+  'pdf.loanBalance': 'Loan balance',
+  'pdf.analysis': 'Analysis ({source})',
+  'pdf.riskLevel': 'Risk level: {level}',
+  'pdf.regulation': 'Regulations and limits',
+  'pdf.policyEffective': '{policy} (effective {date})',
+  'pdf.stressFormula': '{policy}, base spread {base}%p × rate-type weight {weight}% = {spread}%p',
+  'pdf.rule': 'Rule',
+  'pdf.current': 'Current',
+  'pdf.cap': 'Cap',
+  'pdf.note': 'Notes',
+  'pdf.dsrCap': 'DSR cap',
+  'pdf.disclaimer': 'This report is a simulation based on the inputs provided. Actual eligibility and limits depend on each lender\'s underwriting criteria.',
+  'pdf.schedule': 'Monthly repayment schedule',
+
+  'risk.Safe': 'Safe',
+  'risk.Caution': 'Caution',
+  'risk.HighRisk': 'High risk',
+
+  'analysis.title': 'AI Financial Analyst',
+  'analysis.engine': 'Analysis engine',
+  'analysis.noApiKey': ' (no API key)',
+  'analysis.stop': 'Stop',
+  'analysis.run': 'Get analysis',
+  'analysis.stale': 'The inputs have changed, so the analysis below refers to the previous scenario.',
+  'analysis.rerun': 'Analyze current scenario',
+  'analysis.loading': 'Analyzing your DSR against current regulations...',
+  'analysis.cancelled': 'The analysis was cancelled.',
+  'analysis.failed': 'The AI analysis failed. Please try again shortly or choose the offline analysis.',
+  'analysis.replyFailed': 'No answer was received. Please try again.',
+  'analysis.offline': '{provider} analysis is not available offline. Calculations, charts and exports keep working.',
+  'analysis.offlineSuffix': ' (offline)',
+  'analysis.offlineFailed': 'The connection was lost before the analysis finished. Try again once you are online, or choose the offline analysis.',
+  'analysis.useOffline': 'Switch to {provider}',
+  'analysis.summary': 'Overall assessment',
+  'analysis.stressImpact': 'Stress DSR impact',
+  'analysis.graceImpact': 'Grace period and repayment method impact',
+  'analysis.suggestions': 'Suggested actions',
+  'analysis.exampleTerm': 'What if I extend the term to 40 years?',
+  'analysis.exampleFixed': 'How much would the DSR change with a fixed rate?',
+  'analysis.placeholder': 'Ask a follow-up question',
+  'analysis.send': 'Send question',
+
+  'provider.gemini.label': 'Gemini',
+  'provider.gemini.description': 'A Google Gemini model analyzes the scenario and answers follow-up questions.',
+  'provider.rules.label': 'Offline analysis',
+  'provider.rules.description': 'Rule-based analysis that reruns the DSR engine without an external API.',
+  'provider.mock.label': 'Test',
+  'provider.mock.description': 'Test analyzer that returns fixed responses.',
+};
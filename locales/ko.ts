@@ -0,0 +1,594 @@
+// Korean message catalog. The reference catalog: its keys define MessageKey, and other
+// locales must provide every one of them. `{name}` placeholders are filled by translate().
+export const ko = {
+  'common.close': '닫기',
+
+  'unit.won': '원',
+  'unit.year': '년',
+  'unit.years': '{years}년',
+  'unit.months': '{months}개월',
+
+  'app.title': 'Smart DSR 계산기',
+  'app.subtitle': '단계별 스트레스 DSR 시뮬레이션 및 AI 기반 상환 분석',
+  'app.linkError': '공유 링크를 불러오지 못했습니다. {error} 기본값으로 시작합니다.',
+  'app.linkOutdated': '이 링크는 이전 계산 기준({version})으로 만들어졌습니다. 현재 기준으로 다시 계산되어 결과가 다를 수 있습니다.',
+  'shareLink.unrecognized': '링크 형식을 인식할 수 없습니다.',
+  'shareLink.newerVersion': '더 최신 버전의 계산기에서 만든 링크입니다.',
+  'shareLink.unreadable': '링크를 해석할 수 없습니다.',
+  'shareLink.missingInputs': '링크의 시나리오 데이터가 손상되었습니다: 시나리오 데이터가 없습니다.',
+  'shareLink.missingField': '링크의 시나리오 데이터가 손상되었습니다: \'{field}\' 항목이 없습니다.',
+  'shareLink.invalidField': '링크의 시나리오 데이터가 손상되었습니다: \'{field}\' 값이 올바르지 않습니다.',
+  'app.language': '언어',
+  'app.mode.dsr': 'DSR 계산',
+  'app.mode.refinance': '대환대출 비교',
+  'app.mode.products': '상품 비교',
+  'app.rulesUpdated': '규제 기준이 {from}에서 {to}(으)로 업데이트되었습니다. 지난번 입력을 새 기준으로 다시 계산했습니다.',
+  'scenario.copyName': '{name} (사본)',
+  'scenario.title': '저장된 시나리오',
+  'scenario.defaultName': '시나리오 {index}',
+  'scenario.namePlaceholder': '시나리오 이름',
+  'scenario.save': '저장',
+  'scenario.overwrite': '현재 입력으로 \'{name}\' 덮어쓰기',
+  'scenario.empty': '현재 입력을 저장하면 최대 {max}개까지 나란히 비교할 수 있습니다.',
+  'scenario.compare': '비교에 추가',
+  'scenario.load': '불러오기',
+  'scenario.duplicate': '복제',
+  'scenario.delete': '삭제',
+
+  'inputs.title': '대출 조건 입력',
+  'inputs.recognizedIncome': '연소득 (DSR 인정 소득)',
+  'inputs.recognizedIncomeHint': '소득 산정에서 자동 계산',
+  'inputs.annualIncome': '연소득 (세전)',
+  'inputs.loanAmount': '대출 금액',
+  'inputs.loanTerm': '대출 기간',
+  'inputs.gracePeriod': '거치 기간',
+  'inputs.interestRate': '대출 금리',
+  'inputs.rateType': '금리 유형',
+  'inputs.fixedPeriodUnit': '년 고정',
+  'inputs.resetPeriodUnit': '년 주기',
+  'inputs.repaymentMethod': '상환 방식',
+  'inputs.bulletHintHousing': '* 만기에 원금을 일시 상환합니다. DSR 산정 시 원금은 최대 10년에 나누어 상환하는 것으로 간주합니다.',
+  'inputs.bulletHintOther': '* 만기에 원금을 일시 상환합니다. DSR 산정 시 원금은 8년에 나누어 상환하는 것으로 간주합니다.',
+  'inputs.graduatedHint': '* 상환액이 매년 {step}%씩 늘어납니다. DSR 산정 시 초기 상환액 감소분은 인정되지 않습니다.',
+  'inputs.collateralType': '담보 종류',
+  'inputs.housingGraceWarning': '* 주택담보대출 거치기간 설정 시 DSR 계산에서 원금 상환 기간이 단축되어 불리할 수 있습니다.',
+  'inputs.propertyPrice': '주택 가격',
+  'inputs.zone': '규제 지역',
+  'inputs.borrowerStatus': '주택 보유',
+
+  'rateType.Variable': '변동금리',
+  'rateType.Mixed': '혼합형',
+  'rateType.Periodic': '주기형',
+  'rateType.Fixed': '고정금리',
+
+  'repaymentMethod.PrincipalInterestEqual': '원리금균등',
+  'repaymentMethod.PrincipalEqual': '원금균등',
+  'repaymentMethod.Bullet': '만기일시',
+  'repaymentMethod.Graduated': '체증식',
+
+  'collateral.Housing': '주택 및 오피스텔',
+  'collateral.Other': '기타 담보대출 (토지/상가 등)',
+
+  'zone.Speculative': '투기과열지구',
+  'zone.Adjusted': '조정대상지역',
+  'zone.NonRegulated': '비규제지역',
+
+  'borrowerStatus.NoHome': '무주택',
+  'borrowerStatus.FirstTime': '생애최초',
+  'borrowerStatus.OneHome': '1주택',
+
+  'debtType.Mortgage': '주택담보대출',
+  'debtType.OtherSecured': '기타 담보대출',
+  'debtType.Credit': '신용대출',
+  'debtType.StudentLoan': '학자금대출',
+  'debtType.CardLoan': '카드론',
+  'debtType.AutoLoan': '자동차 할부/대출',
+  'debtType.Jeonse': '전세자금대출',
+  'debtType.GroupLoan': '중도금/이주비 대출',
+
+  'debtRule.Actual': '실제 잔여 만기 기준 원리금 반영',
+  'debtRule.Deemed': '간주 만기 {years}년 적용',
+  'debtRule.InterestOnly': '원금 제외, 이자상환액만 반영',
+  'debtRule.Excluded': 'DSR 산정 제외',
+
+  'incomeType.Earned': '근로소득',
+  'incomeType.Business': '사업소득',
+  'incomeType.Recognized': '인정소득',
+  'incomeType.Declared': '신고소득',
+
+  'incomeEvidence.Earned': '원천징수영수증',
+  'incomeEvidence.Business': '소득금액증명원',
+  'incomeEvidence.Recognized': '국민연금·건강보험료 납부내역',
+  'incomeEvidence.Declared': '카드 사용액·임대료 등',
+
+  'incomeRule.Earned': '총급여액 전액 인정',
+  'incomeRule.Business': '필요경비 차감 후 소득금액 전액 인정',
+  'incomeRule.Recognized': '환산 소득의 95%, 최대 5천만원 인정',
+  'incomeRule.Declared': '추정 소득의 90%, 최대 5천만원 인정',
+  'incomeRule.notCombined': '소득 합산 안 함',
+
+  'incomeOwner.Borrower': '본인',
+  'incomeOwner.CoBorrower': '배우자·공동차주',
+
+  'stressPolicy.none': '미적용',
+  'stressPolicy.custom': '직접 입력',
+  'stressPolicy.title': '스트레스 DSR',
+  'stressPolicy.current': ' · 현행',
+  'stressPolicy.customSpread': '스트레스 금리',
+  'region.Capital': '수도권',
+  'region.NonCapital': '지방',
+  'stressPolicy.stage1.label': '1단계',
+  'stressPolicy.stage1.description': '스트레스 금리의 25% 적용',
+  'stressPolicy.stage2.label': '2단계',
+  'stressPolicy.stage2.description': '스트레스 금리의 50% 적용, 수도권 주담대 1.2%p',
+  'stressPolicy.stage3.label': '3단계',
+  'stressPolicy.stage3.description': '스트레스 금리의 100% 적용, 지방 주담대 0.75%p 유예',
+  'stressPolicy.stage3-2025-10.label': '3단계 (10·15 대책)',
+  'stressPolicy.stage3-2025-10.description': '수도권·규제지역 주담대 스트레스 금리 하한 3.0%p',
+
+  'results.copyLink': '공유 링크 복사',
+  'results.linkCopied': '링크 복사됨',
+  'results.copyLinkFailed': '링크 복사에 실패했습니다.',
+  'results.saveImage': '리포트 이미지 저장',
+  'results.saveImageFailed': '이미지 저장에 실패했습니다.',
+  'results.pdfReport': 'PDF 리포트',
+  'results.pdfReportFailed': 'PDF 리포트 생성에 실패했습니다. 네트워크 연결을 확인해주세요.',
+  'results.dsrRatio': 'DSR 비율',
+  'results.stressRateApplied': '스트레스 금리 {rate}% 적용 ({policy} +{spread}%p)',
+  'results.rateApplied': '적용 금리 {rate}%',
+  'results.avgMonthlyPayment': '월 평균 상환액',
+  'results.avgMonthlyPaymentHint': '총 상환금의 월 평균',
+  'results.totalInterest': '총 이자 비용',
+  'results.totalInterestHint': '대출 기간 동안 총 이자',
+  'results.rateResetsTitle': '금리 변동에 따른 월 상환액',
+  'results.installment': '회차',
+  'results.installmentNumber': '{month}회차',
+  'results.installmentYear': '{month}회차 ({year}년차)',
+  'results.installmentDate': '{month}회차 ({date})',
+  'results.rate': '금리',
+  'results.monthlyPayment': '월 상환액',
+  'results.change': '변동',
+  'results.moreResets': '외 {count}회 금리 변동',
+  'results.loanBreakdownTitle': '대출별 DSR 구성',
+  'results.loan': '대출',
+  'results.newLoan': '신규 대출',
+  'results.annualPrincipal': '연 원금',
+  'results.annualInterest': '연 이자',
+  'results.dsrContribution': 'DSR 기여',
+  'results.share': '비중',
+  'results.excluded': '(산정 제외)',
+  'results.total': '합계',
+  'results.perYear': '{amount}/년',
+  'results.paymentMixTitle': '총 상환금 구성',
+  'results.principal': '원금',
+  'results.interest': '이자',
+  'results.interestTotal': '총 이자',
+  'results.yearlyTrendTitle': '연도별 상환 추이',
+
+  'chart.monthTick': '{month}회',
+  'chart.yearTick': '{year}년차',
+  'chart.calendarYearTick': '{year}년',
+
+  'sensitivity.title': 'DSR 민감도 분석',
+  'sensitivity.rateTerm': '금리 × 기간',
+  'sensitivity.amountIncome': '대출금액 × 소득',
+  'sensitivity.heatmapHint': '행은 {rows}, 열은 {columns}입니다. 굵은 테두리 칸이 현재 조건입니다.',
+  'sensitivity.bankBoundary': '은행권 {cap}% 경계',
+  'sensitivity.nonBankBoundary': '제2금융권 {cap}% 경계',
+  'sensitivity.tornadoTitle': 'DSR 영향 요인 순위',
+  'sensitivity.tornadoHint': '조건을 하나씩 바꿨을 때의 DSR 변화입니다. (현재 DSR {dsr}%)',
+  'sensitivity.lower': '낮출 때',
+  'sensitivity.higher': '높일 때',
+  'sensitivity.years': '{years}년',
+  'sensitivity.variable.interestRate': '금리',
+  'sensitivity.variable.loanTermYear': '대출기간',
+  'sensitivity.variable.loanAmount': '대출금액',
+  'sensitivity.variable.annualIncome': '연소득',
+  'sensitivity.variable.gracePeriodYear': '거치기간',
+  'sensitivity.variable.existingDebts': '기존 대출 잔액',
+
+  'monteCarlo.title': '금리 몬테카를로 시뮬레이션',
+  'monteCarlo.description': '기준금리가 무작위로 움직이는 {paths}개 경로에서 상환 스케줄을 각각 계산해 상환액의 범위를 보여줍니다.',
+  'monteCarlo.run': '시뮬레이션 실행',
+  'monteCarlo.cancel': '중지',
+  'monteCarlo.paths': '경로 수',
+  'monteCarlo.volatility': '연간 변동성',
+  'monteCarlo.floor': '금리 하한',
+  'monteCarlo.cap': '금리 상한',
+  'monteCarlo.threshold': '감당 가능한 월 상환액',
+  'monteCarlo.drift': '기준금리 추세 (연간)',
+  'monteCarlo.driftUnit': '%p/년',
+  'monteCarlo.progress': '{completed} / {total} 경로 계산 중...',
+  'monteCarlo.failed': '시뮬레이션에 실패했습니다. 다시 시도해주세요.',
+  'monteCarlo.stale': '입력 조건이 변경되어 아래 결과는 이전 조건 기준입니다.',
+  'monteCarlo.exceedProbability': '월 상환액 초과 확률',
+  'monteCarlo.exceedHint': '한 번이라도 {threshold}을 넘는 경로의 비율',
+  'monteCarlo.totalInterest': '총 이자 (중앙값)',
+  'monteCarlo.totalInterestRange': '90% 구간 {low} ~ {high}',
+  'monteCarlo.deterministic': '현재 금리 경로 기준 총 이자',
+  'monteCarlo.bandsTitle': '월 상환액 분포',
+  'monteCarlo.band90': '5~95%',
+  'monteCarlo.band50': '25~75%',
+  'monteCarlo.median': '중앙값',
+  'monteCarlo.thresholdLine': '감당 가능 상환액',
+  'monteCarlo.histogramTitle': '총 이자 분포',
+  'monteCarlo.pathCount': '경로 수',
+
+  'calendar.title': '실행일 및 이자 계산',
+  'calendar.startDate': '대출 실행일',
+  'calendar.paymentDay': '약정 납입일',
+  'calendar.dayUnit': '일',
+  'calendar.dayCount': '이자 일수 계산',
+  'calendar.undatedHint': '* 실행일을 입력하지 않으면 매월 연 이자의 1/12로 계산합니다.',
+  'calendar.firstPayment': '* 첫 납입일은 {date}이며, 첫 회차 이자는 {days}일분입니다. 이자는 납입일 사이의 일수로 계산합니다.',
+  'dayCount.Thirty360': '30/360 (매월 30일)',
+  'dayCount.Actual365': '실제 일수/365',
+
+  'projection.title': '연도별 상환 부담 전망',
+  'projection.description': '소득 증가율과 물가상승률을 가정해, 실제 상환액이 해마다 소득의 몇 %를 차지하는지와 현재 가치로 환산한 총비용을 보여줍니다.',
+  'projection.incomeGrowth': '연 소득 증가율',
+  'projection.inflation': '연 물가상승률',
+  'projection.ratioInYear': '{year} 소득 대비 상환액',
+  'projection.incomeOf': '예상 연소득 {income}',
+  'projection.realInterest': '총 이자 (현재 가치)',
+  'projection.nominalInterestOf': '명목 총 이자 {amount}',
+  'projection.ratioTitle': '연도별 소득 대비 상환액 비율',
+  'projection.paymentToIncome': '소득 대비 상환액',
+  'projection.currentDsr': '현재 DSR {dsr}%',
+  'projection.costTitle': '명목 vs 실질 비용',
+  'projection.interest': '총 이자',
+  'projection.totalPayment': '총 상환액',
+  'projection.nominal': '명목',
+  'projection.real': '실질 (현재 가치)',
+
+  'validation.errorTitle': '입력값을 확인해 주세요. 아래 항목을 고치면 결과가 다시 계산됩니다.',
+  'validation.warningTitle': '계산은 가능하지만 실제 심사에서 문제가 될 수 있습니다.',
+  'validation.number': '숫자를 입력하세요.',
+  'validation.greaterThan': '{min}보다 커야 합니다.',
+  'validation.atLeast': '{min} 이상이어야 합니다.',
+  'validation.atMost': '{max} 이하여야 합니다.',
+  'validation.integer': '정수로 입력하세요.',
+  'validation.date': '올바른 날짜가 아닙니다.',
+  'validation.graceTooLong': '거치기간은 대출 기간보다 짧아야 합니다.',
+  'validation.fixedPeriodCoversTerm': '고정기간이 대출 기간 이상이라 만기까지 금리가 바뀌지 않습니다. 고정금리 상품인지 확인하세요.',
+  'validation.housingTermCap': '수도권·규제지역 주택담보대출은 만기가 최장 {max}년으로 제한됩니다.',
+  'validation.field.indexRate': '가정 기준금리',
+  'validation.field.resetMonth': '변동 주기',
+  'validation.field.rateChange': '금리 변경 {index}',
+  'validation.field.stressSpread': '스트레스 가산금리',
+  'validation.field.debtBalance': '기존 대출 {index} 잔액',
+  'validation.field.debtRate': '기존 대출 {index} 금리',
+  'validation.field.debtTerm': '기존 대출 {index} 잔여 만기',
+  'validation.field.prepayment': '중도상환 {index}',
+  'validation.field.prepaymentFee': '중도상환수수료율',
+  'validation.field.currentRate': '기존 대출 금리',
+  'validation.field.candidateRate': '갈아탈 대출 금리',
+  'validation.field.candidateTerm': '갈아탈 대출 기간',
+  'validation.field.dsrCap': 'DSR 한도',
+
+  'refinance.title': '대환대출 비교: 유지 vs 갈아타기',
+  'refinance.description': '기존 대출을 그대로 유지할 때와 새 대출로 갈아탈 때의 상환액, 중도상환수수료·인지세 등 부대비용, 현행 스트레스 DSR 재심사 결과를 비교합니다.',
+  'refinance.currentLoan': '기존 대출',
+  'refinance.candidateLoan': '갈아탈 대출',
+  'refinance.sourceDebt': '기존 대출 목록에서 선택',
+  'refinance.sourceDebtNone': '직접 입력',
+  'refinance.debtType': '대출 종류',
+  'refinance.balance': '대출 잔액',
+  'refinance.remainingTerm': '잔여 만기',
+  'refinance.elapsed': '경과 기간',
+  'refinance.monthUnit': '개월',
+  'refinance.feeRate': '중도상환수수료율',
+  'refinance.slidingPeriod': '수수료 부과 기간',
+  'refinance.setupCost': '근저당 설정비',
+  'refinance.otherCosts': '기타 부대비용',
+  'refinance.discountRate': '현재가치 할인율 (연)',
+  'refinance.monthlySavings': '월 상환액 절감 (첫 회차)',
+  'refinance.interestSaved': '총 이자 절감 {amount}',
+  'refinance.breakEven': '비용 회수 시점',
+  'refinance.breakEvenMonth': '{month}개월 후',
+  'refinance.noBreakEven': '회수 불가',
+  'refinance.netPresentSavings': '순현재가치 절감액',
+  'refinance.discountedAt': '연 {rate}% 할인 기준',
+  'refinance.upfrontCost': '갈아타기 비용',
+  'refinance.costBreakdown': '중도상환수수료 {fee} · 인지세 {stamp} · 설정비 등 {other}',
+  'refinance.dsrCheck': 'DSR 재심사',
+  'refinance.dsrBefore': '현재',
+  'refinance.dsrAfter': '갈아탄 후',
+  'refinance.dsrAfterHint': '(새 대출 DSR 금리 {rate}%, 한도 {cap}%)',
+  'refinance.dsrOverCap': 'DSR 한도를 넘어 대환이 거절될 수 있습니다.',
+  'refinance.savingsTitle': '누적 순절감액 (비용 차감)',
+  'refinance.cumulativeSavings': '누적 순절감액',
+  'refinance.schedulesTitle': '연도별 상환 비교',
+  'refinance.year': '연차',
+  'refinance.keep': '유지',
+  'refinance.switch': '갈아타기',
+  'refinance.yearPayment': '상환액',
+  'refinance.endBalance': '연말 잔액',
+  'refinance.assumption': '* 두 대출 모두 현재 금리가 만기까지 유지되고, 갈아타기 비용은 대환 시점에 본인 자금으로 낸다고 가정합니다. 인지세는 차주 부담분(50%)입니다.',
+  'refinance.invalid': '입력값 오류를 고치면 대환 비교가 계산됩니다.',
+
+  'pwa.updateTitle': '새 버전이 있습니다',
+  'pwa.updateBody': '규제 기준 등 계산 규칙이 갱신되었을 수 있습니다. 새로고침하면 입력은 그대로 유지됩니다.',
+  'pwa.reload': '새로고침',
+  'pwa.offlineReadyTitle': '오프라인 사용 준비 완료',
+  'pwa.offlineReadyBody': '이제 네트워크 연결 없이도 계산기, 차트, 내보내기를 사용할 수 있습니다.',
+  'catalog.title': '대출 상품 비교',
+  'catalog.description': '금융기관별 상품 목록(JSON/CSV)을 불러와 현재 차주 조건으로 DSR·월 상환액·총비용을 비교합니다.',
+  'catalog.import': '상품 목록 불러오기',
+  'catalog.template': 'CSV 양식',
+  'catalog.clear': '상품 목록 삭제',
+  'catalog.importFailed': '상품 목록을 불러오지 못했습니다. {error}',
+  'catalog.imported': '상품 {count}개를 불러왔습니다. 건너뛴 행: {skipped}개',
+  'catalog.rowError': '{row}행: {error}',
+  'catalog.error.missing': '\'{field}\' 값이 없습니다.',
+  'catalog.error.invalid': '\'{field}\' 값이 올바르지 않습니다.',
+  'catalog.error.outOfRange': '\'{field}\' 값이 허용 범위({min}~{max})를 벗어났습니다.',
+  'catalog.error.unknownValue': '\'{field}\' 값 \'{value}\'을(를) 알 수 없습니다.',
+  'catalog.error.missingColumns': '필수 열이 없습니다: {columns}',
+  'catalog.error.noProducts': '상품 목록(products 배열)을 찾을 수 없습니다.',
+  'catalog.error.unreadable': '파일 형식이 올바르지 않습니다.',
+  'catalog.error.notProduct': '상품 데이터가 아닙니다.',
+  'catalog.moreErrors': '외 {count}개 행',
+  'catalog.empty': '불러온 상품이 없습니다. CSV 양식을 내려받아 금융기관, 금리유형, 기준금리·가산금리, 최장 기간, 상환방식, 거치기간, 수수료를 입력한 뒤 불러오세요.',
+  'catalog.invalidInputs': '입력값 오류를 고치면 상품별 DSR과 비용이 계산됩니다.',
+  'catalog.rankBy': '정렬 기준',
+  'catalog.rank.dsr': 'DSR',
+  'catalog.rank.monthlyPayment': '월 상환액',
+  'catalog.rank.totalCost': '총비용',
+  'catalog.borrower': '대출금 {amount} · {collateral} · DSR 한도 {cap}%',
+  'catalog.noEligible': '현재 차주 조건으로 신청할 수 있는 상품이 없습니다.',
+  'catalog.product': '상품',
+  'catalog.rate': '금리',
+  'catalog.terms': '적용 조건',
+  'catalog.monthlyPayment': '월 상환액',
+  'catalog.totalCost': '총비용',
+  'catalog.fixedPeriod': '{years}년',
+  'catalog.termSummary': '{term}년 · 거치 {grace}년 · {method}',
+  'catalog.adjustedTerm': '최장 기간으로 조정',
+  'catalog.adjustedMethod': '상환방식 변경',
+  'catalog.adjustedGrace': '거치기간 조정',
+  'catalog.overCap': '한도 초과',
+  'catalog.costBreakdown': '이자 {interest} · 수수료 {fees}',
+  'catalog.load': '입력에 적용',
+  'catalog.footnote': '월 상환액은 거치기간 후 첫 회차 기준이며, 총비용은 이자·취급수수료·인지세와 계획된 중도상환의 수수료를 더한 금액입니다. 상품이 제공하지 않는 기간·상환방식·거치기간은 가장 가까운 조건으로 계산했습니다.',
+  'catalog.ineligibleTitle': '신청 불가 상품 ({count})',
+  'catalog.ineligibleCollateral': '{collateral} 전용 상품',
+  'catalog.ineligibleAmount': '상품 한도 {max} 초과',
+  'debts.title': '기존 대출',
+  'debts.add': '추가',
+  'debts.empty': '보유 중인 대출이 있다면 추가하세요. 모든 대출의 원리금이 DSR에 합산됩니다.',
+  'debts.item': '대출 {index}',
+  'debts.remove': '대출 삭제',
+  'debts.balance': '대출 잔액',
+  'debts.interestRate': '금리',
+  'debts.remainingTerm': '잔여 만기',
+
+  'incomeBreakdown.title': '인정 소득 산정 내역',
+  'incomeBreakdown.source': '소득',
+  'incomeBreakdown.evidence': '증빙',
+  'incomeBreakdown.reported': '증빙 금액',
+  'incomeBreakdown.recognized': '인정 금액',
+  'incomeBreakdown.basis': '기준',
+  'incomeBreakdown.minimum': '소득 없음 (최저생계비 기준)',
+  'incomeBreakdown.minimumHint': '인정 가능한 소득이 없을 때 적용',
+  'incomeBreakdown.total': 'DSR 인정 소득',
+  'incomeBreakdown.totalSplit': '(본인 {borrower} + 배우자·공동차주 {coBorrower})',
+
+  'incomeBuilder.title': '소득 산정',
+  'incomeBuilder.detailed': '상세 입력',
+  'incomeBuilder.detailedOn': '상세 입력 사용 중',
+  'incomeBuilder.description': '소득 유형별 증빙 금액을 입력하면 DSR 심사 기준에 맞춰 인정 소득을 계산합니다. 배우자·공동차주 소득도 합산할 수 있습니다.',
+  'incomeBuilder.item': '소득 {index}',
+  'incomeBuilder.remove': '소득 삭제',
+  'incomeBuilder.amount': '연간 금액 ({evidence})',
+  'incomeBuilder.addBorrower': '본인 소득',
+  'incomeBuilder.addCoBorrower': '배우자·공동차주 소득',
+  'incomeBuilder.combine': '배우자·공동차주 소득 합산',
+  'incomeBuilder.minimumApplied': '인정 가능한 소득이 없어 최저생계비 기준 소득을 적용합니다.',
+
+  'regulation.title': 'LTV · DTI · DSR 종합 한도',
+  'regulation.passed': '모든 규제 충족',
+  'regulation.failed': '규제 한도 초과',
+  'regulation.binding': '한도 결정',
+  'regulation.maxLoan': '최대 {amount}',
+  'regulation.finalLimit': '최종 대출 가능 금액 ({kind} 기준):',
+  'regulation.ltvNote': '{zone} {status} LTV {cap}%',
+  'regulation.priceCapNote': '{zone} 주택가격 구간별 한도 {amount} 적용',
+  'regulation.dtiNote': '{zone} DTI {cap}%',
+  'regulation.dsrNote': '차주단위 DSR {cap}%',
+
+  'limitSolver.title': 'DSR 한도 역산',
+  'limitSolver.bank': '은행 {cap}%',
+  'limitSolver.nonBank': '비은행 {cap}%',
+  'limitSolver.custom': '직접',
+  'limitSolver.currentLoan': '현재 대출 {amount}',
+  'limitSolver.limit': '한도 {amount}',
+  'limitSolver.headroom': 'DSR {cap}% 기준 추가 대출 여력 {amount}',
+  'limitSolver.overLimit': 'DSR {cap}% 기준 한도를 {amount} 초과',
+  'limitSolver.maxLoan': '최대 대출 가능 금액',
+  'limitSolver.monthlyPayment': '월 상환액 {amount}',
+  'limitSolver.minIncome': '필요 최소 연소득',
+  'limitSolver.minIncomeBasis': '현재 대출 조건 기준',
+  'limitSolver.minTerm': '필요 최소 대출 기간',
+  'limitSolver.minTermBasis': '현재 금액·소득 기준',
+  'limitSolver.notApplicable': '해당 없음',
+
+  'schedule.title': '상환 스케줄',
+  'schedule.withPrepayment': '중도상환 반영',
+  'schedule.expandAll': '모두 펼치기',
+  'schedule.collapseAll': '모두 접기',
+  'schedule.cumulativePrincipal': '누적 원금',
+  'schedule.cumulativeInterest': '누적 이자',
+  'schedule.balance': '잔액',
+  'schedule.grace': '거치',
+  'schedule.interestDays': '이자 {days}일',
+  'schedule.prepaid': '+중도 {amount}',
+  'schedule.graceHint': '* 음영 표시된 회차는 거치기간 (이자만 납부)입니다.',
+
+  'prepayment.title': '중도상환 계획',
+  'prepayment.add': '추가',
+  'prepayment.empty': '일시 또는 정기 중도상환을 추가하면 이자 절감액과 수수료를 비교합니다.',
+  'prepayment.item': '중도상환 {index}',
+  'prepayment.remove': '중도상환 삭제',
+  'prepayment.amount': '상환 금액',
+  'prepayment.month': '상환 시점',
+  'prepayment.repeat': '반복 주기',
+  'prepayment.once': '1회',
+  'prepayment.strategy': '상환 후 처리',
+  'prepayment.strategy.ShortenTerm': '기간 단축',
+  'prepayment.strategy.ReducePayment': '월 상환액 감소',
+  'prepayment.feeRate': '중도상환수수료율',
+  'prepayment.feePeriod': '수수료 부과 기간',
+  'prepayment.exemption': '연간 면제 한도',
+  'prepayment.feeFormula': '* 수수료 = 면제 한도 초과액 × 수수료율 × 잔여 부과기간 / 부과기간',
+  'prepayment.effectTitle': '중도상환 효과',
+  'prepayment.totalPrepaid': '총 중도상환액',
+  'prepayment.interestSaved': '이자 절감액',
+  'prepayment.fees': '중도상환수수료',
+  'prepayment.netSavings': '순 절감액',
+  'prepayment.payoff': '상환 완료:',
+  'prepayment.shortenedBy': '{period} 단축',
+  'prepayment.monthlyPayment': '월 상환액:',
+  'prepayment.baselineBalance': '기존 잔액',
+  'prepayment.revisedBalance': '중도상환 후 잔액',
+  'prepayment.feesCharged': '* 수수료 부과: {fees}',
+
+  'ratePath.title': '향후 금리 가정',
+  'ratePath.mode.Reset': '재산정 규칙',
+  'ratePath.mode.Explicit': '직접 입력',
+  'ratePath.reset.Variable': '{months}개월마다 재산정',
+  'ratePath.reset.Mixed': '{years}년 고정 후 {months}개월마다 재산정',
+  'ratePath.reset.Periodic': '{years}년마다 재산정',
+  'ratePath.resetHint': '* {reset}, 재산정 금리 = 기준금리 + 가산금리',
+  'ratePath.indexRate': '가정 기준금리',
+  'ratePath.spread': '가산금리',
+  'ratePath.indexStep': '재산정 시 기준금리 변동',
+  'ratePath.resetMonth': '변동 주기',
+  'ratePath.changeMonth': '적용 회차',
+  'ratePath.removeChange': '금리 변경 삭제',
+  'ratePath.addChange': '금리 변경 추가',
+
+  'comparison.title': '시나리오 비교',
+  'comparison.loanAmount': '대출 금액',
+  'comparison.annualIncome': '연소득',
+  'comparison.termGrace': '대출 / 거치 기간',
+  'comparison.existingDebts': '기존 대출',
+  'comparison.debtCount': '{count}건',
+  'comparison.dsrRate': 'DSR 산정 금리',
+  'comparison.errorCount': '입력 오류 {count}건',
+  'comparison.invalid': '입력 오류',
+
+  'export.item': '항목',
+  'export.value': '값',
+  'export.assumptionsSheet': '입력 조건',
+  'export.interestRate': '대출 금리 (%)',
+  'export.loanTerm': '대출 기간 (년)',
+  'export.gracePeriod': '거치 기간 (년)',
+  'export.paymentDayValue': '매월 {day}일',
+  'export.column.year': '연차',
+  'export.column.kind': '구분',
+  'export.column.rate': '금리 (%)',
+  'export.column.prepayment': '중도상환',
+  'export.column.paymentDate': '납입일',
+  'export.column.interestDays': '이자 일수',
+  'export.repaying': '상환',
+
+  'rules.summary': '총 DSR은 {dsr}로 {level}',
+  'rules.level.withinBank': '은행권 DSR 규제 상한({cap}%) 이내로, 현재 조건으로 대출 심사를 통과할 수 있는 수준입니다.',
+  'rules.level.nonBank': '은행권 상한({cap}%)을 {over} 초과하여 제2금융권({nonBankCap}%) 이용이 필요합니다.',
+  'rules.level.overAll': '은행권과 제2금융권 상한({nonBankCap}%)을 모두 초과하여 현재 조건으로는 대출이 어렵습니다.',
+  'rules.newLoanShare': '신규 대출이 DSR의 {share}%를 차지합니다.',
+  'rules.stress.applied': '{policy} 기준 스트레스 금리 {spread}%p가 가산되어 DSR 산정 금리는 {rate}입니다. 스트레스 DSR이 없었다면 DSR은 {withoutStress}로, 가산 금리로 인해 {delta} 높아졌습니다.',
+  'rules.stress.none': '스트레스 DSR이 적용되지 않아 약정 금리 그대로 DSR을 산정했습니다.',
+  'rules.existingDebts': '기존 대출 {count}건이 DSR을 {share} 차지합니다.',
+  'rules.grace.noEffect': '거치기간 {years}년은 DSR 산정에 영향을 주지 않았습니다.',
+  'rules.grace.raises': '거치기간 {years}년으로 원금 상환기간이 짧게 간주되어 DSR이 {delta} 높아졌습니다.',
+  'rules.grace.lowers': '거치기간 {years}년으로 원금 상환기간이 짧게 간주되어 DSR이 {delta} 낮아졌습니다.',
+  'rules.grace.noneHousing': '거치기간이 없어 원금이 전체 대출기간에 나누어 산정됩니다. 주택담보대출에 거치기간을 두면 DSR이 높아집니다.',
+  'rules.grace.none': '거치기간이 없습니다.',
+  'rules.method.noEffect': '{method} 방식은 {base} 대비 DSR 차이가 없습니다.',
+  'rules.method.higher': '{method} 방식은 {base} 대비 DSR이 {delta} 높습니다.',
+  'rules.method.lower': '{method} 방식은 {base} 대비 DSR이 {delta} 낮습니다.',
+  'rules.suggest.reduceAmount': '대출금액을 {amount} 이하로 줄이면 은행권 DSR {cap}%를 충족합니다.',
+  'rules.suggest.extendTerm': '대출기간을 {years}년 이상으로 늘리면 현재 금액으로도 DSR {cap}%를 충족합니다.',
+  'rules.suggest.headroom': '은행권 DSR {cap}% 기준으로 약 {amount}의 추가 대출 여력이 있습니다.',
+  'rules.suggest.fixedRate': '고정금리를 선택하면 스트레스 가산이 줄어 DSR이 {delta} 낮아집니다.',
+  'rules.suggest.noGrace': '거치기간 없이 바로 상환을 시작하면 DSR이 {delta} 낮아집니다.',
+  'rules.suggest.repayDebt': '{debt}부터 상환하면 DSR이 {delta} 낮아집니다.',
+  'rules.suggest.prepay': '여유 자금이 생기면 중도상환을 활용해 총 이자 부담을 줄이는 것을 검토해보세요.',
+  'rules.whatIf.term': '대출기간 {years}년',
+  'rules.whatIf.grace': '거치기간 {years}년',
+  'rules.whatIf.rate': '금리 {rate}%',
+  'rules.whatIf.amount': '대출금액 {amount}',
+  'rules.unsupported': '오프라인 분석기는 조건을 바꿨을 때의 DSR 변화만 계산할 수 있습니다. 다음과 같이 질문해주세요.',
+  'rules.example.term': '대출기간을 40년으로 늘리면?',
+  'rules.example.rate': '금리가 5%가 되면?',
+  'rules.example.amount': '대출금액을 2억으로 줄이면?',
+  'rules.example.grace': '거치기간을 1년으로 하면?',
+  'rules.example.fixed': '고정금리로 바꾸면?',
+  'rules.answer.title': '**{changes}** 조건으로 다시 계산한 결과입니다.',
+  'rules.answer.noChange': 'DSR에는 변화가 없습니다.',
+  'rules.answer.up': 'DSR이 {delta} 높아지며, {capStatus}',
+  'rules.answer.down': 'DSR이 {delta} 낮아지며, {capStatus}',
+  'rules.answer.meetsCap': '은행권 상한 {cap}%를 충족합니다.',
+  'rules.answer.exceedsCap': '은행권 상한 {cap}%를 초과합니다.',
+
+  'pdf.title': 'DSR 대출 분석 리포트',
+  'pdf.meta': '작성일 {date} · 규제 기준 {version}',
+  'pdf.keyMetrics': '핵심 지표',
+  'pdf.dsrWithinCap': '{dsr}% (한도 {cap}% 충족)',
+  'pdf.dsrOverCap': '{dsr}% (한도 {cap}% 초과)',
+  'pdf.totalPayment': '총 상환액',
+  'pdf.balanceTrend': '대출 잔액 추이',
+  'pdf.yearlyPayments': '연도별 상환 구성',
+  'pdf.loanBalance': '대출 잔액',
+  'pdf.analysis': '분석 의견 ({source})',
+  'pdf.riskLevel': '위험 수준: {level}',
+  'pdf.regulation': '규제 및 한도',
+  'pdf.policyEffective': '{policy} ({date} 시행)',
+  'pdf.stressFormula': '{policy}, 기본 가산 {base}%p × 금리유형 반영비율 {weight}% = {spread}%p',
+  'pdf.rule': '규제',
+  'pdf.current': '현재',
+  'pdf.cap': '한도',
+  'pdf.note': '비고',
+  'pdf.dsrCap': 'DSR 한도',
+  'pdf.disclaimer': '본 리포트는 입력한 조건을 바탕으로 한 모의 계산 결과이며, 실제 대출 가능 여부와 한도는 금융기관의 심사 기준에 따라 달라질 수 있습니다.',
+  'pdf.schedule': '월별 상환 스케줄',
+
+  'risk.Safe': '안정',
+  'risk.Caution': '주의',
+  'risk.HighRisk': '위험',
+
+  'analysis.title': 'AI 금융 분석가',
+  'analysis.engine': '분석 엔진',
+  'analysis.noApiKey': ' (API 키 없음)',
+  'analysis.stop': '중지',
+  'analysis.run': '분석 받기',
+  'analysis.stale': '입력 조건이 변경되어 아래 분석은 이전 조건 기준입니다.',
+  'analysis.rerun': '현재 조건으로 다시 분석',
+  'analysis.loading': 'DSR 데이터와 최신 규제를 바탕으로 분석 중입니다...',
+  'analysis.cancelled': '분석이 취소되었습니다.',
+  'analysis.failed': 'AI 분석 중 오류가 발생했습니다. 잠시 후 다시 시도하거나 오프라인 분석을 선택해주세요.',
+  'analysis.replyFailed': '답변을 받지 못했습니다. 다시 시도해주세요.',
+  'analysis.offline': '오프라인 상태에서는 {provider} 분석을 사용할 수 없습니다. 계산·차트·내보내기는 그대로 사용할 수 있습니다.',
+  'analysis.offlineSuffix': ' (오프라인)',
+  'analysis.offlineFailed': '네트워크 연결이 끊겨 분석을 완료하지 못했습니다. 연결 후 다시 시도하거나 오프라인 분석을 선택해주세요.',
+  'analysis.useOffline': '{provider}(으)로 전환',
+  'analysis.summary': '종합 평가',
+  'analysis.stressImpact': '스트레스 DSR 영향',
+  'analysis.graceImpact': '거치기간 · 상환방식 영향',
+  'analysis.suggestions': '실행 제안',
+  'analysis.exampleTerm': '대출기간을 40년으로 늘리면 어떻게 되나요?',
+  'analysis.exampleFixed': '고정금리로 바꾸면 DSR이 얼마나 달라지나요?',
+  'analysis.placeholder': '추가로 궁금한 점을 물어보세요',
+  'analysis.send': '질문 보내기',
+
+  'provider.gemini.label': 'Gemini',
+  'provider.gemini.description': 'Google Gemini 모델이 시나리오를 분석하고 추가 질문에 답합니다.',
+  'provider.rules.label': '오프라인 분석',
+  'provider.rules.description': '외부 API 없이 DSR 엔진을 다시 계산해 규칙 기반으로 분석합니다.',
+  'provider.mock.label': '테스트',
+  'provider.mock.description': '고정된 응답을 반환하는 테스트용 분석기입니다.',
+};
+
+export type MessageKey = keyof typeof ko;
@@ -0,0 +1,31 @@
+import { AiAnalysisResult, AiRiskLevel, CalculationResult, LoanInputs, Locale } from "../types";
+
+// A conversation about one scenario. The analysis and every follow-up answer refer to the
+// inputs and result the session was created with.
+export interface AnalysisSession {
+  // Structured analysis; `onPartial` receives the fields available so far.
+  // Returns null when the analysis fails or is aborted.
+  analyze: (
+    onPartial: (partial: Partial<AiAnalysisResult>) => void,
+    signal?: AbortSignal
+  ) => Promise<AiAnalysisResult | null>;
+  // Markdown answer to a follow-up question; `onText` receives the answer so far.
+  // Returns null when the request fails or is aborted.
+  ask: (question: string, onText: (text: string) => void, signal?: AbortSignal) => Promise<string | null>;
+}
+
+export type AnalysisProviderId = 'gemini' | 'rules' | 'mock';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  isAvailable: () => boolean; // False when the backend cannot be reached from this deployment
+  requiresNetwork: boolean; // True when sessions call a remote API, so they fail while offline
+  // `locale` is the language the analysis and answers should be written in
+  createSession: (inputs: LoanInputs, result: CalculationResult, locale: Locale) => AnalysisSession;
+}
+
+export const RISK_LEVELS: AiRiskLevel[] = ['Safe', 'Caution', 'High Risk'];
+
+// Same thresholds as the DSR status badge in the results panel
+export const riskLevelForDsr = (dsrRatio: number): AiRiskLevel =>
+  dsrRatio > 70 ? 'High Risk' : dsrRatio > 40 ? 'Caution' : 'Safe';
@@ -0,0 +1,34 @@
+import { AnalysisProvider, AnalysisProviderId } from "./analysisProvider";
+import { geminiProvider } from "./geminiService";
+import { ruleBasedProvider } from "./ruleBasedAnalyzer";
+
+// Providers offered in the settings. The mock provider is for tests and is not listed.
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, ruleBasedProvider];
+
+const STORAGE_KEY = 'smart-dsr:analysis-provider';
+
+const findProvider = (id: string | null | undefined): AnalysisProvider | undefined =>
+  ANALYSIS_PROVIDERS.find((p) => p.id === id && p.isAvailable());
+
+// The user's choice, then the deployment default (ANALYSIS_PROVIDER), then the first
+// available provider. The rule-based analyzer is always available.
+export const loadAnalysisProvider = (): AnalysisProvider => {
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to load analysis provider setting:", error);
+  }
+  return findProvider(saved)
+    ?? findProvider(process.env.ANALYSIS_PROVIDER)
+    ?? ANALYSIS_PROVIDERS.find((p) => p.isAvailable())
+    ?? ruleBasedProvider;
+};
+
+export const persistAnalysisProvider = (id: AnalysisProviderId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.error("Failed to save analysis provider setting:", error);
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { buildAccrualPeriods, parseLoanDate } from './dayCount';
+import { DayCountConvention, LoanCalendar } from '../types';
+
+const calendar = (overrides: Partial<LoanCalendar> = {}): LoanCalendar => ({
+  startDate: '2025-03-10',
+  paymentDay: 25,
+  dayCount: DayCountConvention.Actual365,
+  ...overrides,
+});
+
+describe('parseLoanDate', () => {
+  it('parses YYYY-MM-DD as UTC midnight', () => {
+    expect(parseLoanDate('2024-02-29')?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('rejects dates that do not exist or are not zero-padded', () => {
+    expect(parseLoanDate('2025-02-29')).toBeNull();
+    expect(parseLoanDate('2025-04-31')).toBeNull();
+    expect(parseLoanDate('2025-3-1')).toBeNull();
+    expect(parseLoanDate('')).toBeNull();
+  });
+});
+
+describe('buildAccrualPeriods', () => {
+  it('is undefined without a start date', () => {
+    expect(buildAccrualPeriods(calendar({ startDate: '' }), 12)).toBeUndefined();
+  });
+
+  it('counts actual days between payment dates under Actual/365', () => {
+    const periods = buildAccrualPeriods(calendar(), 3)!;
+    expect(periods.map((p) => p.date)).toEqual(['2025-03-25', '2025-04-25', '2025-05-25']);
+    expect(periods.map((p) => p.days)).toEqual([15, 31, 30]);
+    expect(periods[1].yearFraction).toBeCloseTo(31 / 365, 12);
+  });
+
+  it('moves a first period shorter than 15 days into the next month', () => {
+    const periods = buildAccrualPeriods(calendar({ startDate: '2025-03-15' }), 2)!;
+    expect(periods[0].date).toBe('2025-04-25');
+    expect(periods[0].days).toBe(41);
+  });
+
+  it('counts whole months as 30 days under 30/360 after a broken first period', () => {
+    const periods = buildAccrualPeriods(calendar({ startDate: '2025-03-15', dayCount: DayCountConvention.Thirty360 }), 3)!;
+    // 3/15 → 4/25: one month plus 10 days
+    expect(periods.map((p) => p.days)).toEqual([40, 30, 30]);
+    expect(periods[0].yearFraction).toBeCloseTo(40 / 360, 12);
+  });
+
+  it('pays on the last day of shorter months for a 31st payment day', () => {
+    const dated = calendar({ startDate: '2025-01-05', paymentDay: 31 });
+    const actual = buildAccrualPeriods(dated, 3)!;
+    expect(actual.map((p) => p.date)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    expect(actual.map((p) => p.days)).toEqual([26, 28, 31]);
+
+    const thirty = buildAccrualPeriods({ ...dated, dayCount: DayCountConvention.Thirty360 }, 3)!;
+    expect(thirty.map((p) => p.days)).toEqual([25, 30, 30]);
+  });
+});
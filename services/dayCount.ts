@@ -0,0 +1,69 @@
+import { DayCountConvention, LoanCalendar } from "../types";
+
+// A first period shorter than this is merged into the next month (초회 이자 기간)
+export const MIN_FIRST_PERIOD_DAYS = 15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const YEAR_DAYS: Record<DayCountConvention, number> = {
+  [DayCountConvention.Thirty360]: 360,
+  [DayCountConvention.Actual365]: 365,
+};
+
+export interface AccrualPeriod {
+  date: string; // Payment date ending the period (YYYY-MM-DD)
+  days: number; // Days counted under the convention
+  yearFraction: number; // days / days in the convention's year
+}
+
+// Parses a YYYY-MM-DD date as UTC midnight, rejecting dates that do not exist (e.g. 2025-02-30)
+export const parseLoanDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+};
+
+export const formatLoanDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Payment date `monthOffset` months after `from`, moved to the month's last day when the
+// payment day does not exist in that month (31일 약정 → 2월 28일)
+const paymentDate = (from: Date, monthOffset: number, paymentDay: number): Date => {
+  const first = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + monthOffset, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(paymentDay, lastDay)));
+};
+
+const actualDays = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+// 30E/360 between two dates. The end date uses the contractual payment day, so a period
+// ending on a shortened month-end still counts as a full month.
+const days360 = (from: Date, to: Date, paymentDay: number) =>
+  360 * (to.getUTCFullYear() - from.getUTCFullYear()) +
+  30 * (to.getUTCMonth() - from.getUTCMonth()) +
+  (Math.min(paymentDay, 30) - Math.min(from.getUTCDate(), 30));
+
+// Interest periods of a dated loan: the first payment falls on the first payment day at
+// least MIN_FIRST_PERIOD_DAYS after disbursement, so the first period may be shorter or
+// longer than a month. Undefined when the loan has no valid start date.
+export const buildAccrualPeriods = (calendar: LoanCalendar, totalMonths: number): AccrualPeriod[] | undefined => {
+  const start = parseLoanDate(calendar.startDate);
+  if (!start) return undefined;
+
+  const paymentDay = Math.min(31, Math.max(1, Math.round(calendar.paymentDay)));
+  let firstOffset = 0;
+  while (actualDays(start, paymentDate(start, firstOffset, paymentDay)) < MIN_FIRST_PERIOD_DAYS) firstOffset++;
+
+  const periods: AccrualPeriod[] = [];
+  let previous = start;
+  for (let i = 0; i < totalMonths; i++) {
+    const date = paymentDate(start, firstOffset + i, paymentDay);
+    const days = calendar.dayCount === DayCountConvention.Thirty360
+      ? (i === 0 ? days360(previous, date, paymentDay) : 30)
+      : actualDays(previous, date);
+    periods.push({ date: formatLoanDate(date), days, yearFraction: days / YEAR_DAYS[calendar.dayCount] });
+    previous = date;
+  }
+  return periods;
+};
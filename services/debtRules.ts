@@ -0,0 +1,49 @@
+import { DebtType, LoanBurden } from "../types";
+import { MessageKey } from "./i18n";
+
+// How the principal of a debt is counted in the DSR denominator
+export type PrincipalRule =
+  | 'Actual' // 잔액 / 잔여 만기
+  | 'Deemed' // 잔액 / 간주 만기
+  | 'InterestOnly' // 원금 제외, 이자만 반영
+  | 'Excluded'; // DSR 산정 제외
+
+// Labels are the `debtType.*` messages; the rule is described by `debtRule.<principalRule>`
+interface DebtRule {
+  principalRule: PrincipalRule;
+  deemedTermYear?: number;
+}
+
+export const DEBT_RULES: Record<DebtType, DebtRule> = {
+  [DebtType.Mortgage]: {
+    principalRule: 'Actual',
+  },
+  [DebtType.OtherSecured]: {
+    principalRule: 'Deemed',
+    deemedTermYear: 8,
+  },
+  [DebtType.Credit]: {
+    principalRule: 'Deemed',
+    deemedTermYear: 5,
+  },
+  [DebtType.StudentLoan]: {
+    principalRule: 'Actual',
+  },
+  [DebtType.CardLoan]: {
+    principalRule: 'Deemed',
+    deemedTermYear: 3,
+  },
+  [DebtType.AutoLoan]: {
+    principalRule: 'Actual',
+  },
+  [DebtType.Jeonse]: {
+    principalRule: 'InterestOnly',
+  },
+  [DebtType.GroupLoan]: {
+    principalRule: 'Excluded',
+  },
+};
+
+// Name of a row in the DSR breakdown
+export const burdenLabel = (burden: LoanBurden): MessageKey =>
+  burden.debtType ? `debtType.${burden.debtType}` : 'results.newLoan';
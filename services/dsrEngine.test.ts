@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  annuityPayment,
+  BULLET_DEEMED_TERM_HOUSING,
+  BULLET_DEEMED_TERM_OTHER,
+  calculateDsr,
+  calculateNewLoanBurden,
+  generateSchedule,
+  sumInterest,
+} from './dsrEngine';
+import { NO_STRESS_POLICY_ID } from './stressPolicy';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { CollateralType, DebtType, LoanInputs, RateType, Region, RepaymentMethod } from '../types';
+
+// 3억, 4.5%, 30년, fixed rate, no stress, 연소득 5,000만원
+const baseInputs = (overrides: Partial<LoanInputs> = {}): LoanInputs => ({
+  ...DEFAULT_LOAN_INPUTS,
+  rateType: RateType.Fixed,
+  ...overrides,
+});
+
+const schedule = (overrides: Partial<Parameters<typeof generateSchedule>[0]> = {}) =>
+  generateSchedule({
+    principal: 300000000,
+    interestRate: 4.5,
+    totalMonths: 360,
+    graceMonths: 0,
+    repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+    ...overrides,
+  });
+
+describe('generateSchedule', () => {
+  it('matches the bank calculator installment for 원리금균등', () => {
+    // Reference: 300,000,000원 at 4.5% over 30 years is 1,520,056원 a month
+    const rows = schedule();
+    expect(rows).toHaveLength(360);
+    expect(Math.round(rows[0].payment)).toBe(1520056);
+    expect(Math.round(rows[359].payment)).toBe(1520056);
+    expect(rows[0].interest).toBeCloseTo(1125000, 6);
+    expect(rows[359].balance).toBeCloseTo(0, 2);
+    expect(Math.round(sumInterest(rows))).toBe(247220135);
+  });
+
+  it('repays an equal principal every month for 원금균등', () => {
+    const rows = schedule({ repaymentMethod: RepaymentMethod.PrincipalEqual });
+    // 833,333원 principal + 1,125,000원 interest in the first month
+    expect(Math.round(rows[0].payment)).toBe(1958333);
+    expect(rows.every((row) => Math.abs(row.principal - 300000000 / 360) < 1e-6)).toBe(true);
+    expect(rows[359].payment).toBeLessThan(rows[0].payment);
+    expect(rows[359].balance).toBeCloseTo(0, 2);
+    // Interest on the average balance: 300M * 4.5%/12 * 361/2
+    expect(Math.round(sumInterest(rows))).toBe(203062500);
+  });
+
+  it('charges interest only during the grace period, then amortizes over the remaining term', () => {
+    const rows = schedule({ graceMonths: 12 });
+    expect(rows.slice(0, 12).every((row) => row.principal === 0 && row.payment === 1125000)).toBe(true);
+    expect(rows[11].balance).toBe(300000000);
+    expect(rows[12].payment).toBeCloseTo(annuityPayment(300000000, 0.045 / 12, 348), 6);
+    expect(rows[359].balance).toBeCloseTo(0, 2);
+  });
+
+  it('keeps at least one amortizing month when the grace period covers the term', () => {
+    const rows = schedule({ totalMonths: 12, graceMonths: 24 });
+    expect(rows).toHaveLength(12);
+    expect(rows[11].principal).toBeCloseTo(300000000, 2);
+    expect(rows[11].balance).toBe(0);
+  });
+
+  it('repays the balance at maturity for 만기일시', () => {
+    const rows = schedule({ repaymentMethod: RepaymentMethod.Bullet, totalMonths: 60 });
+    expect(rows.slice(0, 59).every((row) => row.principal === 0)).toBe(true);
+    expect(rows[59].principal).toBe(300000000);
+    expect(rows[59].payment).toBe(301125000);
+  });
+
+  it('raises the 체증식 installment every year without falling below the interest due', () => {
+    // 40 years at 4.5%: a plain 3% graduated base would not cover the interest for 13 years
+    const rows = schedule({ repaymentMethod: RepaymentMethod.Graduated, totalMonths: 480 });
+    expect(rows.every((row) => row.principal >= 0)).toBe(true);
+    expect(rows.every((row, i) => row.balance <= (i === 0 ? 300000000 : rows[i - 1].balance))).toBe(true);
+    expect(rows[0].payment).toBeCloseTo(1125000, 6); // Interest only while the installment is short
+    expect(rows[479].payment).toBeGreaterThan(rows[0].payment);
+    expect(rows[479].balance).toBeCloseTo(0, 2);
+  });
+
+  it('steps the 체증식 installment up by 3% a year once it covers the interest', () => {
+    const rows = schedule({ repaymentMethod: RepaymentMethod.Graduated, totalMonths: 120 });
+    expect(rows[0].principal).toBeGreaterThan(0);
+    expect(rows[12].payment / rows[11].payment).toBeCloseTo(1.03, 10);
+    expect(rows[119].balance).toBeCloseTo(0, 2);
+  });
+});
+
+describe('calculateNewLoanBurden', () => {
+  it('splits principal evenly over the term without a grace period', () => {
+    const burden = calculateNewLoanBurden(baseInputs(), 4.5);
+    expect(burden.annualPrincipal).toBe(10000000);
+    expect(burden.annualInterest).toBeCloseTo(247220135 / 30, 0);
+  });
+
+  it('spreads housing principal over the term after the grace period', () => {
+    const burden = calculateNewLoanBurden(baseInputs({ gracePeriodYear: 1, collateralType: CollateralType.Housing }), 4.5);
+    expect(burden.annualPrincipal).toBeCloseTo(300000000 / 29, 6);
+  });
+
+  it('spreads other collateral principal over the full term despite a grace period', () => {
+    const burden = calculateNewLoanBurden(baseInputs({ gracePeriodYear: 1, collateralType: CollateralType.Other }), 4.5);
+    expect(burden.annualPrincipal).toBe(10000000);
+  });
+
+  it('uses the deemed term for bullet loans', () => {
+    const housing = calculateNewLoanBurden(baseInputs({ repaymentMethod: RepaymentMethod.Bullet }), 4.5);
+    expect(housing.annualPrincipal).toBe(300000000 / BULLET_DEEMED_TERM_HOUSING);
+    const other = calculateNewLoanBurden(
+      baseInputs({ repaymentMethod: RepaymentMethod.Bullet, collateralType: CollateralType.Other }),
+      4.5
+    );
+    expect(other.annualPrincipal).toBe(300000000 / BULLET_DEEMED_TERM_OTHER);
+    // Interest-only for the whole term
+    expect(housing.annualInterest).toBeCloseTo(300000000 * 0.045, 0);
+  });
+
+  it('charges more interest at a higher DSR rate', () => {
+    const base = calculateNewLoanBurden(baseInputs(), 4.5);
+    const stressed = calculateNewLoanBurden(baseInputs(), 6);
+    expect(stressed.annualPrincipal).toBe(base.annualPrincipal);
+    expect(stressed.annualInterest).toBeGreaterThan(base.annualInterest);
+  });
+});
+
+describe('calculateDsr', () => {
+  it('computes the DSR without stress from the actual rate', () => {
+    const result = calculateDsr(baseInputs());
+    expect(result.stressPolicy.policyId).toBe(NO_STRESS_POLICY_ID);
+    expect(result.stressDsrRateUsed).toBe(4.5);
+    // (10,000,000 + 8,240,671) / 50,000,000
+    expect(result.dsrRatio).toBeCloseTo(36.48, 2);
+    expect(result.monthlyPayments).toHaveLength(360);
+    expect(Math.round(result.totalInterest)).toBe(247220135);
+  });
+
+  it('adds the full stress spread to a variable-rate loan under a preset', () => {
+    const stressDsr = { policyId: 'stage3', region: Region.Capital, customSpread: 0 };
+    const result = calculateDsr(baseInputs({ rateType: RateType.Variable, stressDsr }));
+    expect(result.stressPolicy.spread).toBe(1.5);
+    expect(result.stressDsrRateUsed).toBe(6);
+    expect(result.dsrRatio).toBeGreaterThan(calculateDsr(baseInputs()).dsrRatio);
+  });
+
+  it('weights the stress spread by rate type', () => {
+    const stressDsr = { policyId: 'stage3', region: Region.Capital, customSpread: 0 };
+    const mixed = calculateDsr(baseInputs({ rateType: RateType.Mixed, fixedPeriodYear: 5, stressDsr }));
+    expect(mixed.stressPolicy.spread).toBeCloseTo(1.2, 10);
+    const fixed = calculateDsr(baseInputs({ rateType: RateType.Fixed, stressDsr }));
+    expect(fixed.stressDsrRateUsed).toBe(4.5);
+  });
+
+  it('keeps the actual schedule at the contract rate under stress', () => {
+    const stressDsr = { policyId: 'stage3', region: Region.Capital, customSpread: 0 };
+    const variable = calculateDsr(baseInputs({ stressDsr, rateType: RateType.Variable }));
+    expect(variable.monthlyPayments[0].payment).toBeCloseTo(1520056, 0);
+  });
+
+  it('counts existing debts in the DSR', () => {
+    const withDebt = calculateDsr(baseInputs({
+      existingDebts: [{
+        id: 'a',
+        type: DebtType.Credit,
+        balance: 20000000,
+        interestRate: 5,
+        remainingTermYear: 3,
+        repaymentMethod: RepaymentMethod.Bullet,
+      }],
+    }));
+    expect(withDebt.loanBurdens).toHaveLength(2);
+    expect(withDebt.dsrRatio).toBeGreaterThan(calculateDsr(baseInputs()).dsrRatio);
+  });
+});
@@ -0,0 +1,455 @@
+import {
+  RepaymentMethod,
+  CollateralType,
+  RateType,
+  RatePathMode,
+  RateReset,
+  PrepaymentStrategy,
+  LoanInputs,
+  CalculationResult,
+  MonthlyPayment,
+  LoanBurden,
+  ExistingDebt,
+  PrepaymentResult,
+} from "../types";
+import { DEBT_RULES } from "./debtRules";
+import { resolveStressPolicy } from "./stressPolicy";
+import { expandPrepayments, calculatePrepaymentFees } from "./prepayment";
+import { AccrualPeriod, buildAccrualPeriods } from "./dayCount";
+
+export interface ScheduleParams {
+  principal: number;
+  interestRate: number; // Annual rate (%)
+  totalMonths: number;
+  graceMonths: number;
+  repaymentMethod: RepaymentMethod;
+  monthlyRates?: number[]; // Annual rate (%) per month; overrides interestRate when given
+  prepayments?: number[]; // Extra principal paid at the end of each month
+  prepaymentStrategy?: PrepaymentStrategy;
+  accrual?: AccrualPeriod[]; // Dated interest periods; interest is charged by each period's length
+}
+
+// Whole months in a period given in years; fractional and negative years never reach the schedule
+export const yearsToMonths = (years: number): number => Math.max(0, Math.round(years * 12));
+
+// Level monthly payment that amortizes `principal` over `months`
+export const annuityPayment = (principal: number, monthlyRate: number, months: number): number => {
+  if (months <= 0) return principal;
+  if (monthlyRate === 0) return principal / months;
+  const factor = Math.pow(1 + monthlyRate, months);
+  return (principal * monthlyRate * factor) / (factor - 1);
+};
+
+// Yearly increase of the installment in a graduated (체증식) schedule (%)
+export const GRADUATED_ANNUAL_STEP = 3;
+
+// Installment multiplier of a graduated schedule in `month`, stepping up every 12 months
+// counted from `amortizationStart`
+export const graduatedGrowth = (month: number, amortizationStart: number): number =>
+  Math.pow(1 + GRADUATED_ANNUAL_STEP / 100, Math.floor((month - amortizationStart) / 12));
+
+// Installment for the first amortization year of a graduated schedule, such that the
+// installments from `fromMonth` to maturity, growing by GRADUATED_ANNUAL_STEP every 12 months
+// counted from `amortizationStart`, repay `balance`.
+// An installment may not fall below the interest due (no negative amortization), so when the
+// early installments would not cover it, those months pay interest only and the growing
+// installments amortize the unchanged balance from the first step that covers the interest.
+export const graduatedBasePayment = (
+  balance: number,
+  monthlyRate: number,
+  fromMonth: number,
+  totalMonths: number,
+  amortizationStart: number
+): number => {
+  const interest = balance * monthlyRate;
+  for (let start = fromMonth; start <= totalMonths; start++) {
+    // The installment only rises at a step, so only steps can be the first covering month
+    if (start > fromMonth && graduatedGrowth(start, amortizationStart) === graduatedGrowth(start - 1, amortizationStart)) continue;
+
+    let presentValueFactor = 0;
+    for (let month = start, j = 1; month <= totalMonths; month++, j++) {
+      presentValueFactor += graduatedGrowth(month, amortizationStart) / Math.pow(1 + monthlyRate, j);
+    }
+    const base = presentValueFactor > 0 ? balance / presentValueFactor : balance;
+    if (base * graduatedGrowth(start, amortizationStart) >= interest) return base;
+  }
+  return balance;
+};
+
+// Month indexes (0-based) at which the rate resets under the reset rule: the first reset
+// happens after the fixed period (혼합형/주기형) or the variable reset interval (변동).
+// Empty for fixed-rate loans.
+export const rateResetStarts = (inputs: LoanInputs): number[] => {
+  const { rateType, fixedPeriodYear, ratePath, loanTermYear } = inputs;
+  if (rateType === RateType.Fixed) return [];
+
+  const totalMonths = yearsToMonths(loanTermYear);
+  const fixedMonths = yearsToMonths(fixedPeriodYear);
+  const variableInterval = Math.max(1, ratePath.variableResetMonth);
+  const firstReset = rateType === RateType.Variable ? variableInterval : Math.max(1, fixedMonths);
+  const interval = rateType === RateType.Periodic ? Math.max(1, fixedMonths) : variableInterval;
+
+  const starts: number[] = [];
+  for (let start = firstReset; start < totalMonths; start += interval) starts.push(start);
+  return starts;
+};
+
+// Annual rate applied in each month of the loan, following the rate type and rate path.
+// Under the reset rule every reset after the first moves the assumed index by indexStepPerReset.
+export const buildMonthlyRates = (inputs: LoanInputs): number[] => {
+  const { interestRate, rateType, ratePath, loanTermYear } = inputs;
+  const totalMonths = yearsToMonths(loanTermYear);
+  const rates: number[] = new Array(totalMonths).fill(interestRate);
+
+  if (rateType === RateType.Fixed) return rates;
+
+  const fillFrom = (startIndex: number, rate: number) => {
+    for (let i = Math.max(0, startIndex); i < totalMonths; i++) rates[i] = rate;
+  };
+
+  if (ratePath.mode === RatePathMode.Explicit) {
+    [...ratePath.changes]
+      .sort((a, b) => a.month - b.month)
+      .forEach((change) => fillFrom(change.month - 1, change.rate));
+    return rates;
+  }
+
+  rateResetStarts(inputs).forEach((start, reset) => {
+    const rate = ratePath.indexRate + ratePath.indexStepPerReset * reset + ratePath.spread;
+    fillFrom(start, Math.max(0, rate));
+  });
+  return rates;
+};
+
+// Month-by-month amortization schedule. During the grace period only interest is paid;
+// afterwards the loan amortizes over the remaining months as if it were a new loan.
+// Whenever the rate changes, the level (원리금균등) payment is recomputed on the remaining
+// balance over the remaining months. Prepayments either keep the installment and end the
+// loan early (ShortenTerm) or re-amortize the balance over the original term (ReducePayment).
+// Graduated (체증식) installments never fall below the interest due: while they would, the
+// loan pays interest only, so the balance never grows.
+// With dated accrual periods the principal split still follows the monthly installment, but
+// interest is charged for the actual period length, so payments vary slightly month to month
+// as they do on bank statements.
+export const generateSchedule = ({
+  principal,
+  interestRate,
+  totalMonths,
+  graceMonths: requestedGraceMonths,
+  repaymentMethod,
+  monthlyRates,
+  prepayments,
+  prepaymentStrategy = PrepaymentStrategy.ShortenTerm,
+  accrual,
+}: ScheduleParams): MonthlyPayment[] => {
+  const monthlyPayments: MonthlyPayment[] = [];
+  // At least one amortizing month, so the loan is always repaid by maturity
+  const graceMonths = Math.min(requestedGraceMonths, Math.max(0, totalMonths - 1));
+
+  let remainingBalance = principal;
+  let level = 0; // 원리금균등 installment
+  let principalInstallment = 0; // 원금균등 installment
+  let previousRate: number | null = null;
+  let reamortize = false;
+
+  for (let m = 1; m <= totalMonths; m++) {
+    const rate = monthlyRates ? monthlyRates[m - 1] : interestRate;
+    const monthlyRate = (rate / 100) / 12;
+    const scheduledInterest = remainingBalance * monthlyRate; // Interest assumed by the installment
+    const period = accrual?.[m - 1];
+    const interestPayment = period ? remainingBalance * (rate / 100) * period.yearFraction : scheduledInterest;
+    const remainingMonths = totalMonths - m + 1;
+    let principalPayment = 0;
+    let monthlyTotal = 0;
+
+    if (m <= graceMonths) {
+      // Grace Period: Interest Only
+      monthlyTotal = interestPayment;
+    } else if (repaymentMethod === RepaymentMethod.PrincipalEqual) {
+      if (m === graceMonths + 1 || reamortize) {
+        principalInstallment = remainingBalance / remainingMonths;
+      }
+      principalPayment = Math.min(principalInstallment, remainingBalance);
+      monthlyTotal = principalPayment + interestPayment;
+    } else if (repaymentMethod === RepaymentMethod.Bullet) {
+      // Interest only, with the balance repaid in full at maturity
+      principalPayment = m === totalMonths ? remainingBalance : 0;
+      monthlyTotal = principalPayment + interestPayment;
+    } else if (repaymentMethod === RepaymentMethod.Graduated) {
+      if (m === graceMonths + 1 || rate !== previousRate || reamortize) {
+        level = graduatedBasePayment(remainingBalance, monthlyRate, m, totalMonths, graceMonths + 1);
+      }
+      // Never below the interest due; see graduatedBasePayment
+      const installment = Math.max(level * graduatedGrowth(m, graceMonths + 1), scheduledInterest);
+      principalPayment = Math.min(installment - scheduledInterest, remainingBalance);
+      monthlyTotal = principalPayment + interestPayment;
+    } else {
+      if (m === graceMonths + 1 || rate !== previousRate || reamortize) {
+        level = annuityPayment(remainingBalance, monthlyRate, remainingMonths);
+      }
+      principalPayment = Math.min(level - scheduledInterest, remainingBalance);
+      monthlyTotal = principalPayment + interestPayment;
+    }
+
+    remainingBalance -= principalPayment;
+    if (remainingBalance < 0) remainingBalance = 0;
+    previousRate = rate;
+
+    const prepayment = prepayments ? Math.min(prepayments[m - 1] || 0, remainingBalance) : 0;
+    remainingBalance -= prepayment;
+    reamortize = prepayment > 0 && prepaymentStrategy === PrepaymentStrategy.ReducePayment;
+
+    monthlyPayments.push({
+      month: m,
+      payment: monthlyTotal,
+      principal: principalPayment,
+      interest: interestPayment,
+      balance: remainingBalance,
+      rate,
+      ...(prepayment > 0 ? { prepayment } : {}),
+      ...(period ? { date: period.date, days: period.days } : {}),
+    });
+
+    // Paid off early through prepayments
+    if (prepayments && remainingBalance < 1) break;
+  }
+
+  return monthlyPayments;
+};
+
+// Months where the applied rate differs from the month before
+export const findRateResets = (schedule: MonthlyPayment[]): RateReset[] => {
+  const resets: RateReset[] = [];
+  for (let i = 1; i < schedule.length; i++) {
+    const prev = schedule[i - 1];
+    const curr = schedule[i];
+    if (curr.rate !== prev.rate) {
+      resets.push({
+        month: curr.month,
+        previousRate: prev.rate,
+        rate: curr.rate,
+        previousPayment: prev.payment,
+        payment: curr.payment,
+      });
+    }
+  }
+  return resets;
+};
+
+export const sumInterest = (schedule: MonthlyPayment[]): number =>
+  schedule.reduce((sum, p) => sum + p.interest, 0);
+
+export const sumPayment = (schedule: MonthlyPayment[]): number =>
+  schedule.reduce((sum, p) => sum + p.payment, 0);
+
+// Revised schedule with the planned prepayments, compared against the baseline schedule
+export const simulatePrepayments = (
+  inputs: LoanInputs,
+  baseline: MonthlyPayment[],
+  monthlyRates: number[]
+): PrepaymentResult | null => {
+  const { prepayment, loanAmount, loanTermYear, gracePeriodYear, interestRate, repaymentMethod } = inputs;
+  const totalMonths = yearsToMonths(loanTermYear);
+  const extra = expandPrepayments(prepayment, totalMonths);
+
+  if (!extra.some((amount) => amount > 0)) return null;
+
+  const monthlyPayments = generateSchedule({
+    principal: loanAmount,
+    interestRate,
+    totalMonths,
+    graceMonths: yearsToMonths(gracePeriodYear),
+    repaymentMethod,
+    monthlyRates,
+    prepayments: extra,
+    prepaymentStrategy: prepayment.strategy,
+    accrual: buildAccrualPeriods(inputs.calendar, totalMonths),
+  });
+
+  const fees = calculatePrepaymentFees(monthlyPayments, prepayment.feeRule);
+  const totalFees = fees.reduce((sum, f) => sum + f.fee, 0);
+  const totalInterest = sumInterest(monthlyPayments);
+  const interestSaved = sumInterest(baseline) - totalInterest;
+
+  return {
+    monthlyPayments,
+    totalPrepaid: monthlyPayments.reduce((sum, p) => sum + (p.prepayment || 0), 0),
+    totalInterest,
+    totalFees,
+    fees,
+    interestSaved,
+    netSavings: interestSaved - totalFees,
+    payoffMonth: monthlyPayments.length,
+    baselinePayoffMonth: baseline.length,
+  };
+};
+
+export interface AnnualBurden {
+  annualPrincipal: number;
+  annualInterest: number;
+}
+
+// Deemed principal repayment periods for bullet (만기일시상환) loans (years)
+export const BULLET_DEEMED_TERM_HOUSING = 10; // Capped at the actual term
+export const BULLET_DEEMED_TERM_OTHER = 8;
+
+// DSR burden of the new loan.
+// Principal: housing loans are penalized for grace periods (principal is spread over
+// term - grace), other collateral uses the full term. Bullet loans spread the balloon over a
+// deemed term. Graduated loans get no credit for their lower early installments: principal is
+// split evenly like any amortizing loan.
+// Interest: total interest under the DSR rate (stress rate if applied) spread over the term.
+// For graduated loans this includes the interest-only months where the rising installment does
+// not yet cover the interest due (installments are floored at the interest, never below it).
+export const calculateNewLoanBurden = (inputs: LoanInputs, dsrInterestRate: number): AnnualBurden => {
+  const { loanAmount, loanTermYear, gracePeriodYear, repaymentMethod, collateralType } = inputs;
+
+  let annualPrincipal: number;
+  if (repaymentMethod === RepaymentMethod.Bullet) {
+    const deemedTermYear = collateralType === CollateralType.Housing
+      ? Math.min(loanTermYear, BULLET_DEEMED_TERM_HOUSING)
+      : BULLET_DEEMED_TERM_OTHER;
+    annualPrincipal = loanAmount / deemedTermYear;
+  } else if (collateralType === CollateralType.Housing) {
+    const effectiveTermYear = loanTermYear - gracePeriodYear;
+    annualPrincipal = effectiveTermYear > 0 ? loanAmount / effectiveTermYear : loanAmount;
+  } else {
+    annualPrincipal = loanTermYear > 0 ? loanAmount / loanTermYear : loanAmount;
+  }
+
+  const dsrSchedule = generateSchedule({
+    principal: loanAmount,
+    interestRate: dsrInterestRate,
+    totalMonths: yearsToMonths(loanTermYear),
+    graceMonths: yearsToMonths(gracePeriodYear),
+    repaymentMethod,
+  });
+
+  return {
+    annualPrincipal,
+    annualInterest: sumInterest(dsrSchedule) / Math.max(1, loanTermYear),
+  };
+};
+
+export interface DebtBurden extends AnnualBurden {
+  excluded: boolean;
+}
+
+// Annual principal/interest burden of an existing debt under its regulatory rule
+export const calculateDebtBurden = (debt: ExistingDebt): DebtBurden => {
+  const rule = DEBT_RULES[debt.type];
+
+  if (rule.principalRule === 'Excluded' || debt.balance <= 0) {
+    return { annualPrincipal: 0, annualInterest: 0, excluded: rule.principalRule === 'Excluded' };
+  }
+
+  if (rule.principalRule === 'InterestOnly') {
+    return { annualPrincipal: 0, annualInterest: debt.balance * (debt.interestRate / 100), excluded: false };
+  }
+
+  const termYear = rule.principalRule === 'Deemed' && rule.deemedTermYear
+    ? rule.deemedTermYear
+    : debt.remainingTermYear;
+
+  if (termYear <= 0) {
+    // Matures within the year: the whole balance is due
+    return { annualPrincipal: debt.balance, annualInterest: debt.balance * (debt.interestRate / 100), excluded: false };
+  }
+
+  const schedule = generateSchedule({
+    principal: debt.balance,
+    interestRate: debt.interestRate,
+    totalMonths: Math.max(1, Math.round(termYear * 12)),
+    graceMonths: 0,
+    repaymentMethod: debt.repaymentMethod,
+  });
+
+  return {
+    annualPrincipal: debt.balance / termYear,
+    annualInterest: sumInterest(schedule) / termYear,
+    excluded: false,
+  };
+};
+
+// Full DSR calculation: actual repayment schedule of the new loan plus the
+// regulatory DSR ratio across the new loan and all existing debts.
+export const calculateDsr = (inputs: LoanInputs): CalculationResult => {
+  const {
+    loanAmount,
+    interestRate,
+    loanTermYear,
+    gracePeriodYear,
+    repaymentMethod,
+    annualIncome,
+    rateType,
+    fixedPeriodYear,
+    stressDsr,
+    existingDebts,
+  } = inputs;
+
+  const totalMonths = yearsToMonths(loanTermYear);
+
+  // 1. Actual payment schedule (for display)
+  const monthlyRates = buildMonthlyRates(inputs);
+  const monthlyPayments = generateSchedule({
+    principal: loanAmount,
+    interestRate,
+    totalMonths,
+    graceMonths: yearsToMonths(gracePeriodYear),
+    repaymentMethod,
+    monthlyRates,
+    accrual: buildAccrualPeriods(inputs.calendar, totalMonths),
+  });
+  const totalInterest = sumInterest(monthlyPayments);
+  const totalPayment = sumPayment(monthlyPayments);
+
+  // 2. DSR = (Annual Principal Burden + Annual Interest Burden) / Annual Income
+  const stressPolicy = resolveStressPolicy(stressDsr, rateType, fixedPeriodYear);
+  const stressInterestRate = interestRate + stressPolicy.spread;
+  const newLoan = calculateNewLoanBurden(inputs, stressInterestRate);
+
+  const burdens: Omit<LoanBurden, 'dsrContribution' | 'share'>[] = [
+    {
+      id: 'new',
+      debtType: null,
+      annualPrincipal: newLoan.annualPrincipal,
+      annualInterest: newLoan.annualInterest,
+      annualTotal: newLoan.annualPrincipal + newLoan.annualInterest,
+      excluded: false,
+    },
+    ...existingDebts.map((debt) => {
+      const burden = calculateDebtBurden(debt);
+      return {
+        id: debt.id,
+        debtType: debt.type,
+        annualPrincipal: burden.annualPrincipal,
+        annualInterest: burden.annualInterest,
+        annualTotal: burden.annualPrincipal + burden.annualInterest,
+        excluded: burden.excluded,
+      };
+    }),
+  ];
+
+  const annualRepaymentForDsr = burdens.reduce((sum, b) => sum + b.annualTotal, 0);
+  const dsrRatio = annualIncome > 0 ? (annualRepaymentForDsr / annualIncome) * 100 : 0;
+
+  const loanBurdens: LoanBurden[] = burdens.map((b) => ({
+    ...b,
+    dsrContribution: annualIncome > 0 ? (b.annualTotal / annualIncome) * 100 : 0,
+    share: annualRepaymentForDsr > 0 ? (b.annualTotal / annualRepaymentForDsr) * 100 : 0,
+  }));
+
+  return {
+    dsrRatio,
+    loanBurdens,
+    annualRepaymentForDsr,
+    monthlyPayments,
+    totalInterest, // Actual total interest
+    totalPayment, // Actual total payment
+    avgMonthlyPayment: totalMonths > 0 ? totalPayment / totalMonths : 0,
+    rateResets: findRateResets(monthlyPayments),
+    prepayment: simulatePrepayments(inputs, monthlyPayments, monthlyRates),
+    stressDsrRateUsed: stressInterestRate,
+    stressPolicy,
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SOLVER_TERM_YEAR, solveDsrLimits, solveMaxLoanAmount, solveMinIncome, solveMinTerm } from './dsrSolver';
+import { calculateDsr } from './dsrEngine';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { LoanInputs, RateType } from '../types';
+
+// 3억, 4.5%, 30년, fixed rate, no stress, 연소득 5,000만원 → DSR 36.48%
+const baseInputs = (overrides: Partial<LoanInputs> = {}): LoanInputs => ({
+  ...DEFAULT_LOAN_INPUTS,
+  rateType: RateType.Fixed,
+  ...overrides,
+});
+
+const dsrAt = (inputs: LoanInputs) => calculateDsr(inputs).dsrRatio;
+
+describe('solveMaxLoanAmount', () => {
+  it('finds the largest amount within the cap, rounded down to 10,000원', () => {
+    const inputs = baseInputs();
+    const maxLoan = solveMaxLoanAmount(inputs, 40);
+    expect(maxLoan % 10000).toBe(0);
+    expect(dsrAt({ ...inputs, loanAmount: maxLoan })).toBeLessThanOrEqual(40);
+    expect(dsrAt({ ...inputs, loanAmount: maxLoan + 10000 })).toBeGreaterThan(40);
+  });
+
+  it('scales linearly for a single fixed-rate loan', () => {
+    // The DSR is proportional to the amount: 3억 × 40 / 36.48 = 328,935,265원
+    expect((300000000 * 40) / dsrAt(baseInputs())).toBeCloseTo(328935265, 0);
+    expect(solveMaxLoanAmount(baseInputs(), 40)).toBe(328930000);
+  });
+
+  it('allows more under the non-bank cap', () => {
+    expect(solveMaxLoanAmount(baseInputs(), 50)).toBeGreaterThan(solveMaxLoanAmount(baseInputs(), 40));
+  });
+
+  it('returns 0 without income', () => {
+    expect(solveMaxLoanAmount(baseInputs({ annualIncome: 0 }), 40)).toBe(0);
+  });
+});
+
+describe('solveMinIncome', () => {
+  it('divides the annual repayment by the cap', () => {
+    const { annualRepaymentForDsr } = calculateDsr(baseInputs());
+    expect(solveMinIncome(baseInputs(), 40)).toBeCloseTo(annualRepaymentForDsr / 0.4, 6);
+    expect(solveMinIncome(baseInputs(), 0)).toBe(0);
+  });
+});
+
+describe('solveMinTerm', () => {
+  it('returns the shortest whole-year term within the cap', () => {
+    const inputs = baseInputs();
+    const term = solveMinTerm(inputs, 40);
+    expect(term).not.toBeNull();
+    expect(dsrAt({ ...inputs, loanTermYear: term! })).toBeLessThanOrEqual(40);
+    expect(dsrAt({ ...inputs, loanTermYear: term! - 1 })).toBeGreaterThan(40);
+  });
+
+  it('returns null when no term up to the maximum meets the cap', () => {
+    // Principal alone over 50 years is 6,000,000원 a year, 12% of the income
+    expect(solveMinTerm(baseInputs(), 10)).toBeNull();
+    expect(dsrAt(baseInputs({ loanTermYear: MAX_SOLVER_TERM_YEAR }))).toBeGreaterThan(10);
+  });
+});
+
+describe('solveDsrLimits', () => {
+  it('reports the headroom against the current amount', () => {
+    const solved = solveDsrLimits(baseInputs(), 40);
+    expect(solved.dsrCap).toBe(40);
+    expect(solved.headroom).toBe(solved.maxLoanAmount - 300000000);
+    expect(solved.headroom).toBeGreaterThan(0);
+  });
+
+  it('quotes the first installment after the grace period', () => {
+    const inputs = baseInputs({ gracePeriodYear: 2 });
+    const solved = solveDsrLimits(inputs, 40);
+    const schedule = calculateDsr({ ...inputs, loanAmount: solved.maxLoanAmount }).monthlyPayments;
+    expect(schedule[0].principal).toBe(0);
+    expect(solved.maxLoanMonthlyPayment).toBe(schedule[24].payment);
+    expect(schedule[24].principal).toBeGreaterThan(0);
+  });
+});
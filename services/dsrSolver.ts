@@ -0,0 +1,75 @@
+import { LoanInputs, SolverResult } from "../types";
+import { calculateDsr, yearsToMonths } from "./dsrEngine";
+
+// Regulatory DSR caps (%)
+export const DSR_CAP_PRESETS = {
+  Bank: 40, // 은행권
+  NonBank: 50, // 제2금융권
+};
+
+// Longest term the minimum-term search will consider
+export const MAX_SOLVER_TERM_YEAR = 50;
+
+const BISECTION_ITERATIONS = 60;
+
+// Largest loan amount for which `ratioAt` stays within `cap`.
+// The ratio must grow monotonically with the loan amount; a bisection over the engine is then
+// exact regardless of how the individual burden rules are shaped.
+export const bisectMaxLoanAmount = (
+  inputs: LoanInputs,
+  ratioAt: (inputs: LoanInputs) => number,
+  cap: number
+): number => {
+  const ratioFor = (loanAmount: number) => ratioAt({ ...inputs, loanAmount });
+
+  if (inputs.annualIncome <= 0 || ratioFor(0) >= cap) return 0;
+
+  // Grow the upper bound until it breaches the cap
+  let high = Math.max(inputs.loanAmount, 100000000);
+  while (ratioFor(high) < cap && high < 1e13) high *= 2;
+
+  let low = 0;
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (ratioFor(mid) <= cap) low = mid;
+    else high = mid;
+  }
+
+  // Round down to the nearest 10,000 won, as lenders quote limits
+  return Math.floor(low / 10000) * 10000;
+};
+
+// Largest loan amount whose total DSR stays within `dsrCap`
+export const solveMaxLoanAmount = (inputs: LoanInputs, dsrCap: number): number =>
+  bisectMaxLoanAmount(inputs, (i) => calculateDsr(i).dsrRatio, dsrCap);
+
+// Smallest annual income at which the current loans meet `dsrCap`
+export const solveMinIncome = (inputs: LoanInputs, dsrCap: number): number => {
+  const { annualRepaymentForDsr } = calculateDsr(inputs);
+  return dsrCap > 0 ? annualRepaymentForDsr / (dsrCap / 100) : 0;
+};
+
+// Shortest whole-year term at which the current loans meet `dsrCap`, or null if none does
+export const solveMinTerm = (inputs: LoanInputs, dsrCap: number): number | null => {
+  for (let term = inputs.gracePeriodYear + 1; term <= MAX_SOLVER_TERM_YEAR; term++) {
+    if (calculateDsr({ ...inputs, loanTermYear: term }).dsrRatio <= dsrCap) return term;
+  }
+  return null;
+};
+
+export const solveDsrLimits = (inputs: LoanInputs, dsrCap: number): SolverResult => {
+  const maxLoanAmount = solveMaxLoanAmount(inputs, dsrCap);
+
+  // Monthly payment once amortization starts (after any grace period)
+  const maxLoanSchedule = calculateDsr({ ...inputs, loanAmount: maxLoanAmount }).monthlyPayments;
+  const firstRepayment = maxLoanSchedule[Math.min(yearsToMonths(inputs.gracePeriodYear), maxLoanSchedule.length - 1)];
+
+  return {
+    dsrCap,
+    maxLoanAmount,
+    maxLoanMonthlyPayment: firstRepayment ? firstRepayment.payment : 0,
+    minAnnualIncome: solveMinIncome(inputs, dsrCap),
+    minLoanTermYear: solveMinTerm(inputs, dsrCap),
+    headroom: maxLoanAmount - inputs.loanAmount,
+  };
+};
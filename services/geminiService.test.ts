@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { geminiProvider, parseAiAnalysis, previewAiAnalysis } from './geminiService';
+import { calculateDsr } from './dsrEngine';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+
+// Replays `streamedChunks` as the model's response to every message
+let streamedChunks: string[] = [];
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    chats = {
+      create: () => ({
+        sendMessageStream: async () => (async function* () {
+          for (const text of streamedChunks) yield { text };
+        })(),
+      }),
+    };
+  },
+}));
+
+const VALID = {
+  riskLevel: 'Safe',
+  summary: '  안정적인 수준입니다. ',
+  stressDsrImpact: '영향이 작습니다.',
+  gracePeriodImpact: ' ',
+  suggestions: ['  상환 계획을 유지하세요 ', '', 3],
+};
+
+describe('parseAiAnalysis', () => {
+  it('trims text fields and drops empty suggestions', () => {
+    expect(parseAiAnalysis(JSON.stringify(VALID))).toEqual({
+      riskLevel: 'Safe',
+      summary: '안정적인 수준입니다.',
+      stressDsrImpact: '영향이 작습니다.',
+      gracePeriodImpact: '',
+      suggestions: ['상환 계획을 유지하세요'],
+    });
+  });
+
+  it('rejects output that does not match the schema', () => {
+    expect(parseAiAnalysis('{"riskLevel": "Safe", "summary": ')).toBeNull();
+    expect(parseAiAnalysis('null')).toBeNull();
+    expect(parseAiAnalysis(JSON.stringify({ ...VALID, riskLevel: 'Low' }))).toBeNull();
+    expect(parseAiAnalysis(JSON.stringify({ ...VALID, summary: '   ' }))).toBeNull();
+  });
+});
+
+describe('previewAiAnalysis', () => {
+  it('reads the string fields streamed so far', () => {
+    const preview = previewAiAnalysis('{"riskLevel": "Caution", "summary": "주의가 \\"필요\\"합니다. 기존');
+    expect(preview.riskLevel).toBe('Caution');
+    expect(preview.summary).toBe('주의가 "필요"합니다. 기존');
+    expect(preview.suggestions).toBeUndefined();
+  });
+});
+
+describe('geminiProvider', () => {
+  const result = calculateDsr(DEFAULT_LOAN_INPUTS);
+  const analyze = () => geminiProvider.createSession(DEFAULT_LOAN_INPUTS, result, 'ko').analyze(() => {});
+
+  it('parses a streamed JSON analysis', async () => {
+    const json = JSON.stringify(VALID);
+    streamedChunks = [json.slice(0, 20), json.slice(20)];
+    expect((await analyze())?.summary).toBe('안정적인 수준입니다.');
+  });
+
+  it('treats malformed output as a failed analysis', async () => {
+    streamedChunks = ['분석 결과를 ', '생성하지 못했습니다.'];
+    expect(await analyze()).toBeNull();
+  });
+});
@@ -1,58 +1,229 @@
-import { GoogleGenAI } from "@google/genai";
-import { CalculationResult, LoanInputs, CollateralType } from "../types";
+import { Chat, GenerateContentConfig, GoogleGenAI, Type } from "@google/genai";
+import { AiAnalysisResult, AiRiskLevel, CalculationResult, LoanInputs, CollateralType, RateType, Locale } from "../types";
+import { burdenLabel, DEBT_RULES } from "./debtRules";
+import { recognizeIncome } from "./incomeRules";
+import { AnalysisProvider, AnalysisSession, RISK_LEVELS } from "./analysisProvider";
+import { MessageKey, MessageParams, translate } from "./i18n";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so that deployments without a key never construct a client
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
 
-export const analyzeDsrScenario = async (
-  inputs: LoanInputs,
-  result: CalculationResult
-): Promise<string> => {
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    riskLevel: { type: Type.STRING, enum: RISK_LEVELS, description: "DSR 위험 수준" },
+    summary: { type: Type.STRING, description: "DSR 수준에 대한 2~3문장 종합 평가" },
+    stressDsrImpact: { type: Type.STRING, description: "스트레스 DSR 적용이 DSR 수치에 미친 영향" },
+    gracePeriodImpact: { type: Type.STRING, description: "거치기간 및 상환방식이 DSR 수치에 미친 영향" },
+    suggestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "상환 부담을 줄이기 위한 구체적인 실행 방안 (각 1문장)",
+    },
+  },
+  required: ["riskLevel", "summary", "stressDsrImpact", "gracePeriodImpact", "suggestions"],
+  propertyOrdering: ["riskLevel", "summary", "stressDsrImpact", "gracePeriodImpact", "suggestions"],
+};
+
+// Validates the model's JSON output. Returns null when it does not match the schema.
+export const parseAiAnalysis = (text: string): AiAnalysisResult | null => {
+  let raw: unknown;
   try {
-    const stressText = inputs.applyStressDsr ? "적용 (3.0% 가산)" : "미적용";
-    const collateralText = inputs.collateralType === CollateralType.Housing ? "주택 및 오피스텔" : "기타 담보 (토지/상가 등)";
-    const formattedIncome = Math.round(inputs.annualIncome).toLocaleString();
-    const formattedLoan = Math.round(inputs.loanAmount).toLocaleString();
-    const formattedInterest = Math.round(result.totalInterest).toLocaleString();
-    const formattedMonthly = Math.round(result.avgMonthlyPayment).toLocaleString();
-
-    const prompt = `
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const fields = raw as Record<string, unknown>;
+  const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+  const isRiskLevel = (v: unknown): v is AiRiskLevel => RISK_LEVELS.includes(v as AiRiskLevel);
+  const readText = (v: unknown): string => (isText(v) ? v.trim() : '');
+  if (!isRiskLevel(fields.riskLevel) || !isText(fields.summary)) return null;
+
+  return {
+    riskLevel: fields.riskLevel,
+    summary: fields.summary.trim(),
+    stressDsrImpact: readText(fields.stressDsrImpact),
+    gracePeriodImpact: readText(fields.gracePeriodImpact),
+    suggestions: Array.isArray(fields.suggestions) ? fields.suggestions.filter(isText).map(s => s.trim()) : [],
+  };
+};
+
+// Best-effort read of a partially streamed analysis, so the text fields can render as they
+// arrive. Only string fields are extracted; suggestions appear once the JSON is complete.
+export const previewAiAnalysis = (partial: string): Partial<AiAnalysisResult> => {
+  const readString = (key: string): string | undefined => {
+    const match = partial.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+    if (!match) return undefined;
+    const raw = match[1].replace(/\\$/, ''); // Drop an escape cut off mid-sequence
+    try {
+      return JSON.parse(`"${raw}"`);
+    } catch {
+      return raw;
+    }
+  };
+
+  const riskLevel = readString('riskLevel');
+  return {
+    riskLevel: RISK_LEVELS.includes(riskLevel as AiRiskLevel) ? (riskLevel as AiRiskLevel) : undefined,
+    summary: readString('summary'),
+    stressDsrImpact: readString('stressDsrImpact'),
+    gracePeriodImpact: readString('gracePeriodImpact'),
+  };
+};
+
+// The scenario facts stay in Korean, where the regulatory terms are defined; only the
+// answers follow the user's language
+const RESPONSE_LANGUAGE: Record<Locale, string> = {
+  ko: "모든 분석 항목과 추가 질문에 대한 답변은 한국어로 작성해주세요.",
+  en: "Write every analysis field and every answer to follow-up questions in English. " +
+    "Translate Korean regulatory terms, adding the Korean term in parentheses the first time it appears (e.g. stress DSR (스트레스 DSR)). " +
+    "Format amounts in won as ₩ with thousands separators.",
+};
+
+const korean = (key: MessageKey, params?: MessageParams) => translate('ko', key, params);
+
+// Scenario facts the model needs to answer about. Attached to the chat as its system
+// instruction so follow-up questions keep the same inputs and results in view.
+export const buildScenarioContext = (inputs: LoanInputs, result: CalculationResult, locale: Locale = 'ko'): string => {
+  const { stressPolicy } = result;
+  const stressText = stressPolicy.spread > 0
+    ? `적용 - ${korean(stressPolicy.label)}${stressPolicy.effectiveDate ? ` (${stressPolicy.effectiveDate} 시행)` : ""}, ` +
+      `${korean(`region.${inputs.stressDsr.region}`)} 스트레스 금리 ${stressPolicy.baseSpread}%p × 금리유형 반영비율 ${Math.round(stressPolicy.weight * 100)}% = ${stressPolicy.spread.toFixed(2)}%p 가산`
+    : "미적용";
+  const rateTypeText = {
+    [RateType.Variable]: "변동금리",
+    [RateType.Mixed]: `혼합형 (${inputs.fixedPeriodYear}년 고정)`,
+    [RateType.Periodic]: `주기형 (${inputs.fixedPeriodYear}년 주기)`,
+    [RateType.Fixed]: "고정금리",
+  }[inputs.rateType];
+  const collateralText = inputs.collateralType === CollateralType.Housing ? "주택 및 오피스텔" : "기타 담보 (토지/상가 등)";
+  const formattedIncome = Math.round(inputs.annualIncome).toLocaleString();
+  const formattedLoan = Math.round(inputs.loanAmount).toLocaleString();
+  const formattedInterest = Math.round(result.totalInterest).toLocaleString();
+  const formattedMonthly = Math.round(result.avgMonthlyPayment).toLocaleString();
+  const debtsText = inputs.existingDebts.length > 0
+    ? inputs.existingDebts.map((debt) => {
+        const rule = DEBT_RULES[debt.type];
+        const note = korean(`debtRule.${rule.principalRule}`, { years: rule.deemedTermYear ?? 0 });
+        return `  - ${korean(`debtType.${debt.type}`)}: 잔액 ${Math.round(debt.balance).toLocaleString()} 원, 금리 ${debt.interestRate}%, 잔여 ${debt.remainingTermYear}년 (${note})`;
+      }).join("\n")
+    : "  - 없음";
+  const incomeText = inputs.income.enabled
+    ? recognizeIncome(inputs.income).lines
+        .map((l) => `  - ${korean(`incomeType.${l.type}`)} (${korean(`incomeOwner.${l.owner}`)}): 증빙 ${Math.round(l.reported).toLocaleString()} 원 → 인정 ${l.counted ? Math.round(l.recognized).toLocaleString() : 0} 원 (${korean(l.counted ? `incomeRule.${l.type}` : 'incomeRule.notCombined')})`)
+        .join("\n") || "  - 소득 없음 (최저생계비 기준 적용)"
+    : "  - 직접 입력";
+  const burdenText = result.loanBurdens
+    .map((b) => `  - ${korean(burdenLabel(b))}: DSR 기여 ${b.dsrContribution.toFixed(2)}% (비중 ${b.share.toFixed(1)}%)`)
+    .join("\n");
+
+  return `
       재무 전문가로서 다음 대출 시나리오에 대한 DSR(총부채원리금상환비율) 분석과 조언을 제공해주세요.
       한국 금융 규제 기준을 고려하여 답변해주세요.
 
       **사용자 데이터:**
-      - 연소득: ${formattedIncome} 원
+      - 연소득 (DSR 인정 소득): ${formattedIncome} 원
+      - 소득 산정:
+${incomeText}
       - 대출금액: ${formattedLoan} 원
       - 대출기간: ${inputs.loanTermYear}년
       - 거치기간: ${inputs.gracePeriodYear}년
-      - 금리: ${inputs.interestRate}%
-      - 스트레스 DSR 적용 여부: ${stressText}
+      - 상환방식: ${korean(`repaymentMethod.${inputs.repaymentMethod}`)}
+      - 금리: ${inputs.interestRate}% (${rateTypeText})
+      - 스트레스 DSR: ${stressText}
+      - DSR 산정 금리: ${result.stressDsrRateUsed.toFixed(2)}%
       - 담보 종류: ${collateralText}
+      - 기존 대출:
+${debtsText}
       
       **계산 로직 참고:**
       - 담보가 주택/오피스텔인 경우 거치기간은 DSR 산정 시 원금상환기간에서 제외되어 계산됨.
       - 기타 담보의 경우 표준 상환 기간으로 계산됨.
+      - 만기일시상환은 원금을 주택담보 최대 10년, 기타 담보 8년에 나누어 상환하는 것으로 간주함.
+      - 체증식은 초기 상환액이 적더라도 원금을 대출기간에 균등 분할한 것으로 산정함.
 
       **계산 결과:**
-      - 계산된 DSR: ${result.dsrRatio.toFixed(2)}%
+      - 계산된 DSR (전체 대출 합산): ${result.dsrRatio.toFixed(2)}%
+      - 대출별 DSR 구성:
+${burdenText}
       - 총 이자비용: ${formattedInterest} 원
       - 월 평균 상환액: ${formattedMonthly} 원
 
+      **응답 언어:**
+      ${RESPONSE_LANGUAGE[locale]}
+  `;
+};
+
+const ANALYSIS_REQUEST = `
       **요청사항:**
-      1. 현재 DSR 수치가 안정적인지, 주의가 필요한지, 위험한 수준인지(규제 상한선 40~50% 기준 참고) 평가해주세요.
-      2. 스트레스 DSR 적용 및 거치기간 설정이 DSR 수치에 미친 영향에 대해 언급해주세요.
-      3. 상환 부담을 줄이기 위한 구체적인 조언을 3문장 내외로 요약해서 불렛포인트로 제공해주세요.
-      
-      매우 정중하고 전문적인 톤으로 작성해주세요. 마크다운 형식을 사용하세요.
-    `;
+      1. riskLevel: 현재 DSR 수치가 안정적인지(Safe), 주의가 필요한지(Caution), 위험한 수준인지(High Risk) 규제 상한선 40~50% 기준을 참고하여 평가해주세요.
+      2. summary: 평가 근거를 2~3문장으로 요약해주세요.
+      3. stressDsrImpact: 스트레스 DSR 적용 및 기존 대출이 DSR 수치에 미친 영향을 설명해주세요.
+      4. gracePeriodImpact: 거치기간 설정과 상환방식이 DSR 수치에 미친 영향을 설명해주세요.
+      5. suggestions: 상환 부담을 줄이기 위한 구체적인 조언을 3개 내외로 제공해주세요.
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
+      매우 정중하고 전문적인 톤으로, 마크다운 없이 일반 문장으로 작성해주세요.
+`;
 
-    return response.text || "분석을 생성할 수 없습니다.";
+const MODEL = 'gemini-2.5-flash';
+
+// Streams `message` into the chat, reporting the accumulated text after each chunk.
+// Returns the full text, or null when the request fails or is aborted.
+const streamMessage = async (
+  chat: Chat,
+  message: string,
+  config: GenerateContentConfig,
+  onText: (text: string) => void
+): Promise<string | null> => {
+  try {
+    const stream = await chat.sendMessageStream({ message, config });
+    let text = "";
+    for await (const chunk of stream) {
+      if (config.abortSignal?.aborted) return null;
+      text += chunk.text ?? "";
+      onText(text);
+    }
+    return text;
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "AI 분석 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
+    if (!config.abortSignal?.aborted) console.error("Gemini API Error:", error);
+    return null;
   }
-};
\ No newline at end of file
+};
+
+// One chat per scenario, so follow-up questions share the analysis history.
+// Per-request configs replace the chat config, so the scenario context is resent with each.
+const createGeminiSession = (inputs: LoanInputs, result: CalculationResult, locale: Locale): AnalysisSession => {
+  const systemInstruction = buildScenarioContext(inputs, result, locale);
+  const chat = getClient().chats.create({ model: MODEL, config: { systemInstruction } });
+
+  return {
+    // Output that does not match the schema counts as a failed analysis
+    analyze: async (onPartial, signal) => {
+      const config: GenerateContentConfig = {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA,
+        abortSignal: signal,
+      };
+      const text = (await streamMessage(chat, ANALYSIS_REQUEST, config, (t) => onPartial(previewAiAnalysis(t))))?.trim();
+      if (!text) return null;
+
+      return parseAiAnalysis(text);
+    },
+    ask: (question, onText, signal) =>
+      streamMessage(chat, question, { systemInstruction, abortSignal: signal }, onText),
+  };
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  isAvailable: () => Boolean(process.env.API_KEY),
+  requiresNetwork: true,
+  createSession: createGeminiSession,
+};
@@ -0,0 +1,133 @@
+import {
+  BorrowerStatus,
+  DebtType,
+  LoanInputs,
+  Locale,
+  PropertyInfo,
+  RegulationZone,
+  RegulatoryCheck,
+  RegulatoryLimit,
+} from "../types";
+import { calculateDebtBurden, calculateDsr, calculateNewLoanBurden } from "./dsrEngine";
+import { bisectMaxLoanAmount } from "./dsrSolver";
+import { formatCompactCurrency, translate } from "./i18n";
+
+// Absolute mortgage cap by property price in regulated zones (원)
+interface PriceCap {
+  maxPrice: number; // Applies to properties priced up to this amount
+  maxLoan: number;
+}
+
+interface ZoneRule {
+  ltv: Record<BorrowerStatus, number>; // LTV cap (%)
+  dti: number; // DTI cap (%)
+  priceCaps: PriceCap[];
+}
+
+export const ZONE_RULES: Record<RegulationZone, ZoneRule> = {
+  [RegulationZone.Speculative]: {
+    ltv: { [BorrowerStatus.NoHome]: 40, [BorrowerStatus.FirstTime]: 70, [BorrowerStatus.OneHome]: 0 },
+    dti: 40,
+    priceCaps: [
+      { maxPrice: 1500000000, maxLoan: 600000000 },
+      { maxPrice: 2500000000, maxLoan: 400000000 },
+      { maxPrice: Infinity, maxLoan: 200000000 },
+    ],
+  },
+  [RegulationZone.Adjusted]: {
+    ltv: { [BorrowerStatus.NoHome]: 40, [BorrowerStatus.FirstTime]: 70, [BorrowerStatus.OneHome]: 0 },
+    dti: 40,
+    priceCaps: [
+      { maxPrice: 1500000000, maxLoan: 600000000 },
+      { maxPrice: 2500000000, maxLoan: 400000000 },
+      { maxPrice: Infinity, maxLoan: 200000000 },
+    ],
+  },
+  [RegulationZone.NonRegulated]: {
+    ltv: { [BorrowerStatus.NoHome]: 70, [BorrowerStatus.FirstTime]: 80, [BorrowerStatus.OneHome]: 60 },
+    dti: 60,
+    priceCaps: [],
+  },
+};
+
+// DTI = (new mortgage principal + interest, existing mortgages' principal + interest,
+// other debts' interest only) / income. Unlike DSR, DTI uses the contract rate without stress.
+export const calculateDtiRatio = (inputs: LoanInputs): number => {
+  if (inputs.annualIncome <= 0) return 0;
+
+  const newLoan = calculateNewLoanBurden(inputs, inputs.interestRate);
+  const existing = inputs.existingDebts.reduce((sum, debt) => {
+    const burden = calculateDebtBurden(debt);
+    return sum + (debt.type === DebtType.Mortgage ? burden.annualPrincipal + burden.annualInterest : burden.annualInterest);
+  }, 0);
+
+  return ((newLoan.annualPrincipal + newLoan.annualInterest + existing) / inputs.annualIncome) * 100;
+};
+
+// LTV, DTI and DSR checked together; the limit allowing the smallest loan binds.
+// `dsrMaxLoanAmount` is the DSR solver's limit, shared with the limit panel rather than bisected again.
+export const checkRegulatoryLimits = (inputs: LoanInputs, dsrCap: number, dsrMaxLoanAmount: number): RegulatoryCheck => {
+  const { loanAmount, property } = inputs;
+  const rule = ZONE_RULES[property.zone];
+
+  // LTV
+  const ltvCap = rule.ltv[property.borrowerStatus];
+  const priceCap = rule.priceCaps.find((c) => property.price <= c.maxPrice);
+  const ltvMax = Math.min(property.price * (ltvCap / 100), priceCap ? priceCap.maxLoan : Infinity);
+  const ltvRatio = property.price > 0 ? (loanAmount / property.price) * 100 : 0;
+  const ltv: RegulatoryLimit = {
+    kind: 'LTV',
+    ratio: ltvRatio,
+    cap: ltvCap,
+    maxLoanAmount: Math.floor(ltvMax / 10000) * 10000,
+    passed: loanAmount <= ltvMax,
+    priceCapped: priceCap !== undefined && priceCap.maxLoan < property.price * (ltvCap / 100),
+  };
+
+  // DTI
+  const dtiRatio = calculateDtiRatio(inputs);
+  const dti: RegulatoryLimit = {
+    kind: 'DTI',
+    ratio: dtiRatio,
+    cap: rule.dti,
+    maxLoanAmount: bisectMaxLoanAmount(inputs, calculateDtiRatio, rule.dti),
+    passed: dtiRatio <= rule.dti,
+    priceCapped: false,
+  };
+
+  // DSR
+  const dsrRatio = calculateDsr(inputs).dsrRatio;
+  const dsr: RegulatoryLimit = {
+    kind: 'DSR',
+    ratio: dsrRatio,
+    cap: dsrCap,
+    maxLoanAmount: dsrMaxLoanAmount,
+    passed: dsrRatio <= dsrCap,
+    priceCapped: false,
+  };
+
+  const limits = [ltv, dti, dsr];
+  const binding = limits.reduce((min, l) => (l.maxLoanAmount < min.maxLoanAmount ? l : min));
+
+  return {
+    limits,
+    binding: binding.kind,
+    maxLoanAmount: binding.maxLoanAmount,
+    passed: limits.every((l) => l.passed),
+  };
+};
+
+// Basis of a limit for display, e.g. "투기과열지구 무주택 LTV 40%"
+export const regulatoryLimitNote = (limit: RegulatoryLimit, property: PropertyInfo, locale: Locale): string => {
+  const zone = translate(locale, `zone.${property.zone}`);
+  switch (limit.kind) {
+    case 'LTV':
+      return limit.priceCapped
+        ? translate(locale, 'regulation.priceCapNote', { zone, amount: formatCompactCurrency(locale, limit.maxLoanAmount) })
+        : translate(locale, 'regulation.ltvNote', { zone, status: translate(locale, `borrowerStatus.${property.borrowerStatus}`), cap: limit.cap });
+    case 'DTI':
+      return translate(locale, 'regulation.dtiNote', { zone, cap: limit.cap });
+    default:
+      return translate(locale, 'regulation.dsrNote', { cap: limit.cap });
+  }
+};
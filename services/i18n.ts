@@ -0,0 +1,68 @@
+import { Locale } from "../types";
+import { ko, MessageKey } from "../locales/ko";
+import { en } from "../locales/en";
+
+export type { MessageKey } from "../locales/ko";
+export type MessageParams = Record<string, string | number>;
+
+interface LocaleInfo {
+  id: Locale;
+  label: string; // Shown in the language switcher, in its own language
+  intl: string; // BCP 47 tag for Intl formatting
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'ko', label: '한국어', intl: 'ko-KR' },
+  { id: 'en', label: 'English', intl: 'en-US' },
+];
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { ko, en };
+
+const intlLocale = (locale: Locale) => LOCALES.find((l) => l.id === locale)?.intl ?? 'ko-KR';
+
+// Looks up `key` and fills its `{name}` placeholders. Unknown placeholders are left as is.
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = MESSAGES[locale][key] ?? ko[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export const formatNumber = (locale: Locale, val: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(intlLocale(locale), options).format(val);
+
+// Amounts are always in won: "1,234 원" in Korean, "₩1,234" elsewhere
+export const formatCurrency = (locale: Locale, val: number): string =>
+  locale === 'ko'
+    ? `${formatNumber(locale, Math.round(val))} 원`
+    : formatNumber(locale, Math.round(val), { style: 'currency', currency: 'KRW', maximumFractionDigits: 0 });
+
+// Short amounts for chart axes, e.g. "150만" or "1.5M"
+export const formatCompactCurrency = (locale: Locale, val: number): string =>
+  formatNumber(locale, val, { notation: 'compact', maximumFractionDigits: 1 });
+
+export const formatDate = (locale: Locale, date: Date): string => date.toLocaleDateString(intlLocale(locale));
+
+const STORAGE_KEY = 'smart-dsr:locale';
+
+const isLocale = (value: string | null | undefined): value is Locale => LOCALES.some((l) => l.id === value);
+
+// The user's choice, then the browser language. Korean is the default.
+export const loadLocale = (): Locale => {
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to load locale setting:", error);
+  }
+  if (isLocale(saved)) return saved;
+  const browser = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2) : undefined;
+  return isLocale(browser) ? browser : 'ko';
+};
+
+export const persistLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error("Failed to save locale setting:", error);
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { MINIMUM_RECOGNIZED_INCOME, recognizeIncome } from './incomeRules';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { IncomeOwner, IncomeSettings, IncomeSource, IncomeType } from '../types';
+
+const source = (type: IncomeType, amount: number, owner = IncomeOwner.Borrower): IncomeSource => ({
+  id: `${type}-${owner}-${amount}`,
+  type,
+  owner,
+  amount,
+});
+
+const settings = (sources: IncomeSource[], overrides: Partial<IncomeSettings> = {}): IncomeSettings => ({
+  ...DEFAULT_LOAN_INPUTS.income,
+  enabled: true,
+  sources,
+  ...overrides,
+});
+
+describe('recognizeIncome', () => {
+  it('recognizes earned and business income in full', () => {
+    const income = recognizeIncome(settings([source(IncomeType.Earned, 40000000), source(IncomeType.Business, 12345678)]));
+    expect(income.total).toBe(52345678);
+    expect(income.minimumApplied).toBe(false);
+  });
+
+  it('discounts recognized and declared income, rounding down to the won', () => {
+    // 인정소득 95%, 신고소득 90%
+    const income = recognizeIncome(settings([source(IncomeType.Recognized, 30000001), source(IncomeType.Declared, 20000000)]));
+    expect(income.lines.map((l) => l.recognized)).toEqual([28500000, 18000000]);
+  });
+
+  it('caps recognized and declared income at 5,000만원 per source', () => {
+    const income = recognizeIncome(settings([source(IncomeType.Recognized, 80000000), source(IncomeType.Declared, 70000000)]));
+    expect(income.lines.map((l) => l.recognized)).toEqual([50000000, 50000000]);
+    expect(income.lines[0].reported).toBe(80000000);
+  });
+
+  it('adds co-borrower income only when combined', () => {
+    const sources = [source(IncomeType.Earned, 40000000), source(IncomeType.Earned, 30000000, IncomeOwner.CoBorrower)];
+
+    const combined = recognizeIncome(settings(sources, { combineCoBorrower: true }));
+    expect(combined.coBorrowerIncome).toBe(30000000);
+    expect(combined.total).toBe(70000000);
+
+    const separate = recognizeIncome(settings(sources, { combineCoBorrower: false }));
+    expect(separate.lines[1].counted).toBe(false);
+    expect(separate.coBorrowerIncome).toBe(0);
+    expect(separate.total).toBe(40000000);
+  });
+
+  it('substitutes the minimum income when nothing is recognized', () => {
+    const none = recognizeIncome(settings([]));
+    expect(none.minimumApplied).toBe(true);
+    expect(none.total).toBe(MINIMUM_RECOGNIZED_INCOME);
+
+    const negative = recognizeIncome(settings([source(IncomeType.Earned, -1000000)]));
+    expect(negative.lines[0].recognized).toBe(0);
+    expect(negative.total).toBe(MINIMUM_RECOGNIZED_INCOME);
+  });
+});
@@ -0,0 +1,64 @@
+import { IncomeLine, IncomeOwner, IncomeSettings, IncomeType, RecognizedIncome } from "../types";
+
+// How each income source is recognized in the DSR denominator. Labels, evidence documents
+// and rule notes are the `incomeType.*`, `incomeEvidence.*` and `incomeRule.*` messages.
+interface IncomeRule {
+  recognitionRate: number; // Share of the evidenced amount that is recognized
+  cap?: number; // Maximum recognized amount per source (원)
+}
+
+export const INCOME_RULES: Record<IncomeType, IncomeRule> = {
+  [IncomeType.Earned]: {
+    recognitionRate: 1,
+  },
+  [IncomeType.Business]: {
+    recognitionRate: 1,
+  },
+  [IncomeType.Recognized]: {
+    recognitionRate: 0.95,
+    cap: 50000000,
+  },
+  [IncomeType.Declared]: {
+    recognitionRate: 0.9,
+    cap: 50000000,
+  },
+};
+
+// 소득 없음: annual income assumed when no income can be evidenced (최저생계비 기준)
+export const MINIMUM_RECOGNIZED_INCOME = 15000000;
+
+const recognizeSource = (type: IncomeType, amount: number): number => {
+  const rule = INCOME_RULES[type];
+  const recognized = Math.max(0, amount) * rule.recognitionRate;
+  return Math.floor(rule.cap !== undefined ? Math.min(recognized, rule.cap) : recognized);
+};
+
+// Recognized income from the individual sources. Co-borrower income only counts when
+// combined; with no recognized income at all the minimum is substituted.
+export const recognizeIncome = (settings: IncomeSettings): RecognizedIncome => {
+  const lines: IncomeLine[] = settings.sources.map((source) => {
+    const counted = source.owner === IncomeOwner.Borrower || settings.combineCoBorrower;
+    return {
+      id: source.id,
+      type: source.type,
+      owner: source.owner,
+      reported: source.amount,
+      recognized: recognizeSource(source.type, source.amount),
+      counted,
+    };
+  });
+
+  const sumFor = (owner: IncomeOwner) =>
+    lines.filter((l) => l.counted && l.owner === owner).reduce((sum, l) => sum + l.recognized, 0);
+  const borrowerIncome = sumFor(IncomeOwner.Borrower);
+  const coBorrowerIncome = sumFor(IncomeOwner.CoBorrower);
+  const minimumApplied = borrowerIncome + coBorrowerIncome <= 0;
+
+  return {
+    lines,
+    borrowerIncome,
+    coBorrowerIncome,
+    minimumApplied,
+    total: minimumApplied ? MINIMUM_RECOGNIZED_INCOME : borrowerIncome + coBorrowerIncome,
+  };
+};
@@ -0,0 +1,45 @@
+import { LoanInputs } from "../types";
+import { RULES_VERSION } from "../constants";
+import { withInputDefaults } from "./scenarioStorage";
+
+const STORAGE_KEY = 'smart-dsr:session';
+
+interface StoredSession {
+  rulesVersion: string; // RULES_VERSION the inputs were last calculated with
+  inputs: LoanInputs;
+}
+
+export interface LastSession {
+  inputs: LoanInputs;
+  // Set when the app has been updated to newer regulatory rules since the session was saved
+  previousRulesVersion?: string;
+}
+
+// Inputs from the previous launch, so a counter or field visit picks up where it stopped
+export const loadLastSession = (): LastSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: Partial<StoredSession> = JSON.parse(raw);
+    if (!parsed || typeof parsed.inputs !== 'object' || parsed.inputs === null) return null;
+
+    return {
+      inputs: withInputDefaults(parsed.inputs),
+      previousRulesVersion: typeof parsed.rulesVersion === 'string' && parsed.rulesVersion !== RULES_VERSION
+        ? parsed.rulesVersion
+        : undefined,
+    };
+  } catch (error) {
+    console.error("Failed to load last session:", error);
+    return null;
+  }
+};
+
+export const persistLastSession = (inputs: LoanInputs) => {
+  try {
+    const session: StoredSession = { rulesVersion: RULES_VERSION, inputs };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error("Failed to save last session:", error);
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createMockAnalysisProvider, MockAnalysisOptions } from './mockAnalysisProvider';
+import { calculateDsr } from './dsrEngine';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { AiAnalysisResult } from '../types';
+
+const session = (options: MockAnalysisOptions = {}) =>
+  createMockAnalysisProvider(options).createSession(DEFAULT_LOAN_INPUTS, calculateDsr(DEFAULT_LOAN_INPUTS), 'ko');
+
+const ANALYSIS: AiAnalysisResult = {
+  riskLevel: 'High Risk',
+  summary: 'DSR이 규제 상한을 넘습니다.',
+  stressDsrImpact: '',
+  gracePeriodImpact: '',
+  suggestions: ['대출기간을 늘리세요'],
+};
+
+describe('createMockAnalysisProvider', () => {
+  it('streams the summary word by word before the full analysis', async () => {
+    const partials: Partial<AiAnalysisResult>[] = [];
+    const result = await session({ analysis: ANALYSIS }).analyze((partial) => partials.push(partial));
+
+    expect(result).toEqual(ANALYSIS);
+    expect(partials.map((p) => p.summary)).toEqual(['DSR이 ', 'DSR이 규제 ', 'DSR이 규제 상한을 ', 'DSR이 규제 상한을 넘습니다.', ANALYSIS.summary]);
+    expect(partials.slice(0, -1).every((p) => p.riskLevel === 'High Risk' && p.suggestions === undefined)).toBe(true);
+    expect(partials[partials.length - 1]).toEqual(ANALYSIS);
+  });
+
+  it('stops streaming and returns null when aborted', async () => {
+    const controller = new AbortController();
+    const partials: Partial<AiAnalysisResult>[] = [];
+    const result = await session({ analysis: ANALYSIS, chunkDelayMs: 5 }).analyze((partial) => {
+      partials.push(partial);
+      if (partials.length === 2) controller.abort();
+    }, controller.signal);
+
+    expect(result).toBeNull();
+    expect(partials).toHaveLength(2);
+  });
+
+  it('returns null without partials when configured to fail', async () => {
+    const partials: unknown[] = [];
+    const failing = session({ fail: true });
+    expect(await failing.analyze((partial) => partials.push(partial))).toBeNull();
+    expect(await failing.ask('질문', (text) => partials.push(text))).toBeNull();
+    expect(partials).toHaveLength(0);
+  });
+
+  it('streams the follow-up answer', async () => {
+    const texts: string[] = [];
+    const answer = await session().ask('금리가 오르면?', (text) => texts.push(text));
+    expect(answer).toBe('"금리가 오르면?"에 대한 테스트 답변입니다.');
+    expect(texts[texts.length - 1]).toBe(answer);
+    expect(texts.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { AiAnalysisResult } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+
+export interface MockAnalysisOptions {
+  analysis?: AiAnalysisResult;
+  reply?: string; // Answer to every follow-up question
+  chunkDelayMs?: number; // Delay between streamed words
+  fail?: boolean; // Every request returns null, as a failed backend would
+}
+
+const DEFAULT_ANALYSIS: AiAnalysisResult = {
+  riskLevel: 'Caution',
+  summary: '테스트용 분석 결과입니다.',
+  stressDsrImpact: '스트레스 DSR 영향 테스트 문구입니다.',
+  gracePeriodImpact: '거치기간 영향 테스트 문구입니다.',
+  suggestions: ['첫 번째 제안', '두 번째 제안'],
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Emits `text` word by word; null when aborted or configured to fail
+const streamWords = async (
+  text: string,
+  options: MockAnalysisOptions,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string | null> => {
+  if (options.fail) return null;
+  const words = text.split(/(?<=\s)/);
+  let streamed = '';
+  for (const word of words) {
+    await wait(options.chunkDelayMs ?? 0, signal);
+    if (signal?.aborted) return null;
+    streamed += word;
+    onText(streamed);
+  }
+  return streamed;
+};
+
+// Canned, offline provider for tests and UI work. Streams its fixed answers so cancellation
+// and partial rendering can be exercised without a backend.
+export const createMockAnalysisProvider = (options: MockAnalysisOptions = {}): AnalysisProvider => ({
+  id: 'mock',
+  isAvailable: () => true,
+  requiresNetwork: false,
+  createSession: () => {
+    const analysis = options.analysis ?? DEFAULT_ANALYSIS;
+    return {
+      analyze: async (onPartial, signal) => {
+        const summary = await streamWords(analysis.summary, options, (text) => onPartial({ riskLevel: analysis.riskLevel, summary: text }), signal);
+        if (summary === null) return null;
+        onPartial(analysis);
+        return analysis;
+      },
+      ask: (question, onText, signal) =>
+        streamWords(options.reply ?? `"${question}"에 대한 테스트 답변입니다.`, options, onText, signal),
+    };
+  },
+});
@@ -0,0 +1,166 @@
+import { HistogramBin, LoanInputs, MonteCarloResult, MonteCarloSettings, PaymentBand } from "../types";
+import { generateSchedule, rateResetStarts, yearsToMonths } from "./dsrEngine";
+import { buildAccrualPeriods } from "./dayCount";
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  paths: 1000,
+  driftPerYear: 0,
+  volatility: 0.8,
+  floor: 2,
+  cap: 10,
+  paymentThreshold: 0, // Filled in from the current payment when the panel opens
+  seed: 1,
+};
+
+export const MAX_MONTE_CARLO_PATHS = 5000;
+
+const HISTOGRAM_BINS = 20;
+const PROGRESS_EVERY = 100; // Paths between progress reports
+
+// Messages posted by the simulation worker
+export type MonteCarloMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: MonteCarloResult };
+
+export interface MonteCarloRequest {
+  inputs: LoanInputs;
+  settings: MonteCarloSettings;
+}
+
+// mulberry32: small, fast and seedable, which Math.random is not
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Value at quantile `q` of an ascending array, interpolating between neighbours
+const quantile = (sorted: ArrayLike<number>, q: number): number => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+const buildHistogram = (sorted: Float64Array): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+// Applied rate for every month of one simulated path. The rate stays at the contract rate
+// until the first reset; the index moves monthly, but the loan only sees it at resets.
+const simulateMonthlyRates = (
+  inputs: LoanInputs,
+  settings: MonteCarloSettings,
+  resetStarts: Set<number>,
+  normal: () => number
+): number[] => {
+  const totalMonths = yearsToMonths(inputs.loanTermYear);
+  const monthlyDrift = settings.driftPerYear / 12;
+  const monthlyVolatility = settings.volatility / Math.sqrt(12);
+
+  const rates: number[] = new Array(totalMonths);
+  let index = inputs.ratePath.indexRate;
+  let rate = inputs.interestRate;
+  for (let m = 0; m < totalMonths; m++) {
+    if (m > 0) index += monthlyDrift + monthlyVolatility * normal();
+    if (resetStarts.has(m)) {
+      rate = Math.min(settings.cap, Math.max(settings.floor, index + inputs.ratePath.spread));
+    }
+    rates[m] = rate;
+  }
+  return rates;
+};
+
+// Runs the amortization schedule over `settings.paths` random rate paths. Prepayments are
+// left out so the spread reflects rate risk alone.
+export const simulateRatePaths = (
+  inputs: LoanInputs,
+  settings: MonteCarloSettings,
+  onProgress?: (completed: number, total: number) => void
+): MonteCarloResult => {
+  const paths = Math.max(1, Math.min(MAX_MONTE_CARLO_PATHS, Math.round(settings.paths)));
+  const totalMonths = yearsToMonths(inputs.loanTermYear);
+  const resetStarts = new Set(rateResetStarts(inputs));
+  const accrual = buildAccrualPeriods(inputs.calendar, totalMonths);
+  const normal = createNormal(createRandom(settings.seed));
+
+  // payments[month * paths + path], laid out so each month's column is contiguous
+  const payments = new Float64Array(totalMonths * paths);
+  const totalInterest = new Float64Array(paths);
+  let exceeded = 0;
+
+  for (let path = 0; path < paths; path++) {
+    const schedule = generateSchedule({
+      principal: inputs.loanAmount,
+      interestRate: inputs.interestRate,
+      totalMonths,
+      graceMonths: yearsToMonths(inputs.gracePeriodYear),
+      repaymentMethod: inputs.repaymentMethod,
+      monthlyRates: simulateMonthlyRates(inputs, settings, resetStarts, normal),
+      accrual,
+    });
+
+    let interest = 0;
+    let exceeds = false;
+    schedule.forEach((p, i) => {
+      payments[i * paths + path] = p.payment;
+      interest += p.interest;
+      if (settings.paymentThreshold > 0 && p.payment > settings.paymentThreshold) exceeds = true;
+    });
+    totalInterest[path] = interest;
+    if (exceeds) exceeded++;
+
+    if (onProgress && ((path + 1) % PROGRESS_EVERY === 0 || path + 1 === paths)) onProgress(path + 1, paths);
+  }
+
+  const paymentBands: PaymentBand[] = [];
+  for (let m = 0; m < totalMonths; m++) {
+    const column = payments.subarray(m * paths, (m + 1) * paths).sort();
+    paymentBands.push({
+      month: m + 1,
+      p5: quantile(column, 0.05),
+      p25: quantile(column, 0.25),
+      p50: quantile(column, 0.5),
+      p75: quantile(column, 0.75),
+      p95: quantile(column, 0.95),
+    });
+  }
+
+  const sortedInterest = totalInterest.slice().sort();
+  return {
+    paths,
+    paymentBands,
+    totalInterest: {
+      mean: sortedInterest.reduce((sum, v) => sum + v, 0) / paths,
+      p5: quantile(sortedInterest, 0.05),
+      p50: quantile(sortedInterest, 0.5),
+      p95: quantile(sortedInterest, 0.95),
+      histogram: buildHistogram(sortedInterest),
+    },
+    exceedProbability: exceeded / paths,
+  };
+};
@@ -0,0 +1,13 @@
+import { MonteCarloMessage, MonteCarloRequest, simulateRatePaths } from "./monteCarlo";
+
+// Runs the simulation off the main thread. One request per worker; the runner terminates
+// the worker to cancel.
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, settings } = event.data;
+  const post = (message: MonteCarloMessage) => worker.postMessage(message);
+
+  const result = simulateRatePaths(inputs, settings, (completed, total) => post({ type: 'progress', completed, total }));
+  post({ type: 'result', result });
+};
@@ -0,0 +1,50 @@
+import { LoanInputs, MonteCarloResult, MonteCarloSettings } from "../types";
+import { MonteCarloMessage, MonteCarloRequest, simulateRatePaths } from "./monteCarlo";
+
+// Runs the simulation in a Web Worker, so the form stays responsive during large runs.
+// Resolves with null when aborted. Where a worker cannot be started or loaded, the simulation
+// runs on the main thread instead.
+export const runMonteCarlo = (
+  inputs: LoanInputs,
+  settings: MonteCarloSettings,
+  onProgress: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<MonteCarloResult | null> => {
+  const runInline = () => {
+    const result = simulateRatePaths(inputs, settings, onProgress);
+    return signal?.aborted ? null : result;
+  };
+
+  if (signal?.aborted) return Promise.resolve(null);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn("Monte Carlo worker unavailable, simulating on the main thread:", error);
+    return Promise.resolve(runInline());
+  }
+
+  return new Promise((resolve) => {
+    const finish = (result: MonteCarloResult | null) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(result);
+    };
+    const handleAbort = () => finish(null);
+
+    worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') onProgress(message.completed, message.total);
+      else finish(message.result);
+    };
+    worker.onerror = (event) => {
+      console.warn("Monte Carlo worker failed, simulating on the main thread:", event.message);
+      finish(signal?.aborted ? null : runInline());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const request: MonteCarloRequest = { inputs, settings };
+    worker.postMessage(request);
+  });
+};
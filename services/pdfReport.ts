@@ -0,0 +1,423 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { AiAnalysisResult, CalculationResult, CollateralType, LoanInputs, Locale } from "../types";
+import { RULES_VERSION } from "../constants";
+import {
+  buildAssumptionRows,
+  buildScheduleRows,
+  groupScheduleByYear,
+  isDatedSchedule,
+  ScheduleRow,
+  ScheduleYear,
+  scheduleHeader,
+  scheduleKindColumn,
+  toScheduleRow,
+} from "./scheduleExport";
+import { checkRegulatoryLimits, regulatoryLimitNote } from "./housingRegulation";
+import { solveDsrLimits } from "./dsrSolver";
+import { burdenLabel } from "./debtRules";
+import { formatCompactCurrency, formatCurrency, formatDate, formatNumber, MessageKey, MessageParams, translate } from "./i18n";
+
+// Korean glyphs are not in the standard PDF fonts, so a TTF is fetched and embedded.
+// Text stays real text in the document and can be selected and searched.
+const FONT_FAMILY = 'NanumGothic';
+const FONT_SOURCES = {
+  normal: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/nanumgothic/NanumGothic-Regular.ttf',
+  bold: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/nanumgothic/NanumGothic-Bold.ttf',
+};
+
+type FontStyle = keyof typeof FONT_SOURCES;
+
+const PAGE_MARGIN = 15; // mm
+const COLORS = {
+  text: [15, 23, 42] as [number, number, number], // slate-900
+  muted: [100, 116, 139] as [number, number, number], // slate-500
+  grid: [226, 232, 240] as [number, number, number], // slate-200
+  primary: [59, 130, 246] as [number, number, number], // blue-500
+  secondary: [148, 163, 184] as [number, number, number], // slate-400
+};
+
+export interface ReportAnalysis {
+  analysis: AiAnalysisResult;
+  source: string; // Provider label shown next to the section title
+}
+
+export interface LoanReportOptions {
+  inputs: LoanInputs;
+  result: CalculationResult;
+  dsrCap: number;
+  analysis: ReportAnalysis;
+  locale: Locale; // Language of the report text
+}
+
+const RISK_LABELS: Record<AiAnalysisResult['riskLevel'], MessageKey> = {
+  'Safe': 'risk.Safe',
+  'Caution': 'risk.Caution',
+  'High Risk': 'risk.HighRisk',
+};
+
+let fontCache: Promise<Record<FontStyle, string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFonts = (): Promise<Record<FontStyle, string>> => {
+  if (!fontCache) {
+    fontCache = Promise.all(
+      (Object.keys(FONT_SOURCES) as FontStyle[]).map(async (style) => {
+        const response = await fetch(FONT_SOURCES[style]);
+        if (!response.ok) throw new Error(`Font download failed: ${response.status}`);
+        return [style, toBase64(await response.arrayBuffer())] as const;
+      })
+    ).then((entries) => Object.fromEntries(entries) as Record<FontStyle, string>);
+    // Allow a retry after a network failure
+    fontCache.catch(() => { fontCache = null; });
+  }
+  return fontCache;
+};
+
+const registerFonts = (doc: jsPDF, fonts: Record<FontStyle, string>) => {
+  (Object.keys(fonts) as FontStyle[]).forEach((style) => {
+    const file = `${FONT_FAMILY}-${style}.ttf`;
+    doc.addFileToVFS(file, fonts[style]);
+    doc.addFont(file, FONT_FAMILY, style);
+  });
+  doc.setFont(FONT_FAMILY, 'normal');
+};
+
+// Running layout state: the vertical cursor and page breaks, plus the report locale
+const createWriter = (doc: jsPDF, locale: Locale) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const text = (value: string, size = 10, style: FontStyle = 'normal', color = COLORS.text) => {
+    doc.setFont(FONT_FAMILY, style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * 0.5;
+    doc.splitTextToSize(value, contentWidth).forEach((line: string) => {
+      ensureSpace(lineHeight);
+      doc.text(line, PAGE_MARGIN, y + lineHeight * 0.8);
+      y += lineHeight;
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(14);
+    y += 4;
+    text(value, 13, 'bold');
+    doc.setDrawColor(...COLORS.grid);
+    doc.line(PAGE_MARGIN, y + 1, pageWidth - PAGE_MARGIN, y + 1);
+    y += 4;
+  };
+
+  // The cursor after the last drawn page is where the table ends
+  const table = (head: string[], body: (string | number)[][], options: Parameters<typeof autoTable>[1] = {}) => {
+    let finalY = y;
+    autoTable(doc, {
+      head: [head],
+      body,
+      startY: y,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: PAGE_MARGIN },
+      styles: { font: FONT_FAMILY, fontSize: 9, cellPadding: 1.8, textColor: COLORS.text },
+      headStyles: { fontStyle: 'bold', fillColor: [241, 245, 249], textColor: COLORS.text },
+      theme: 'grid',
+      ...options,
+      didDrawPage: (data) => {
+        finalY = data.cursor?.y ?? finalY;
+        options.didDrawPage?.(data);
+      },
+    });
+    y = finalY + 4;
+  };
+
+  return {
+    doc,
+    locale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    number: (val: number) => formatNumber(locale, val),
+    won: (val: number) => formatCurrency(locale, val),
+    contentWidth,
+    pageWidth,
+    get y() { return y; },
+    set y(value: number) { y = value; },
+    ensureSpace,
+    text,
+    heading,
+    table,
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const drawAxes = (w: Writer, x: number, top: number, width: number, height: number, maxValue: number) => {
+  const { doc } = w;
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...COLORS.muted);
+  doc.setDrawColor(...COLORS.grid);
+  for (let i = 0; i <= 4; i++) {
+    const value = (maxValue / 4) * i;
+    const lineY = top + height - (height / 4) * i;
+    doc.line(x, lineY, x + width, lineY);
+    doc.text(formatCompactCurrency(w.locale, value), x - 2, lineY + 1, { align: 'right' });
+  }
+};
+
+const drawYearLabels = (w: Writer, x: number, bottom: number, width: number, years: ScheduleYear[]) => {
+  const step = Math.max(1, Math.ceil(years.length / 10));
+  years.forEach((year, index) => {
+    if (index % step !== 0 && index !== years.length - 1) return;
+    const labelX = x + (width / years.length) * (index + 0.5);
+    w.doc.text(w.t('chart.yearTick', { year: year.year }), labelX, bottom + 4, { align: 'center' });
+  });
+};
+
+const drawLegend = (w: Writer, x: number, y: number, items: [string, [number, number, number]][]) => {
+  let cursor = x;
+  items.forEach(([label, color]) => {
+    w.doc.setFillColor(...color);
+    w.doc.rect(cursor, y - 2, 3, 3, 'F');
+    w.doc.setTextColor(...COLORS.text);
+    w.doc.text(label, cursor + 4.5, y + 0.5);
+    cursor += 6 + w.doc.getTextWidth(label) + 4;
+  });
+};
+
+// Year-end balance as a line chart, drawn as vectors
+const drawBalanceChart = (w: Writer, years: ScheduleYear[], loanAmount: number) => {
+  const height = 55;
+  w.ensureSpace(height + 18);
+  const x = PAGE_MARGIN + 12;
+  const top = w.y + 4;
+  const width = w.contentWidth - 12;
+  const maxValue = Math.max(loanAmount, ...years.map((y) => y.endBalance)) || 1;
+
+  drawAxes(w, x, top, width, height, maxValue);
+  drawYearLabels(w, x, top + height, width, years);
+
+  const points = [[x, top + height - (loanAmount / maxValue) * height]].concat(
+    years.map((year, index) => [x + (width / years.length) * (index + 1), top + height - (year.endBalance / maxValue) * height])
+  );
+  w.doc.setDrawColor(...COLORS.primary);
+  w.doc.setLineWidth(0.6);
+  for (let i = 1; i < points.length; i++) {
+    w.doc.line(points[i - 1][0], points[i - 1][1], points[i][0], points[i][1]);
+  }
+  w.doc.setLineWidth(0.2);
+
+  drawLegend(w, x, top + height + 10, [[w.t('pdf.loanBalance'), COLORS.primary]]);
+  w.y = top + height + 16;
+};
+
+// Yearly principal (including prepayments) and interest as stacked bars
+const drawPaymentChart = (w: Writer, years: ScheduleYear[]) => {
+  const height = 55;
+  w.ensureSpace(height + 18);
+  const x = PAGE_MARGIN + 12;
+  const top = w.y + 4;
+  const width = w.contentWidth - 12;
+  const totals = years.map((y) => ({ principal: y.principal + y.prepayment, interest: y.interest }));
+  const maxValue = Math.max(...totals.map((t) => t.principal + t.interest)) || 1;
+
+  drawAxes(w, x, top, width, height, maxValue);
+  drawYearLabels(w, x, top + height, width, years);
+
+  const slot = width / years.length;
+  const barWidth = Math.max(0.5, slot * 0.7);
+  totals.forEach((t, index) => {
+    const barX = x + slot * index + (slot - barWidth) / 2;
+    const principalHeight = (t.principal / maxValue) * height;
+    const interestHeight = (t.interest / maxValue) * height;
+    w.doc.setFillColor(...COLORS.primary);
+    w.doc.rect(barX, top + height - principalHeight, barWidth, principalHeight, 'F');
+    w.doc.setFillColor(...COLORS.secondary);
+    w.doc.rect(barX, top + height - principalHeight - interestHeight, barWidth, interestHeight, 'F');
+  });
+
+  drawLegend(w, x, top + height + 10, [[w.t('results.principal'), COLORS.primary], [w.t('results.interest'), COLORS.secondary]]);
+  w.y = top + height + 16;
+};
+
+const writeCover = (w: Writer, { inputs, result, dsrCap }: LoanReportOptions) => {
+  const { t } = w;
+  w.text(t('pdf.title'), 20, 'bold');
+  w.y += 2;
+  w.text(t('pdf.meta', { date: formatDate(w.locale, new Date()), version: RULES_VERSION }), 9, 'normal', COLORS.muted);
+  w.y += 6;
+
+  w.table([t('pdf.keyMetrics'), t('export.value')], [
+    ['DSR', t(result.dsrRatio <= dsrCap ? 'pdf.dsrWithinCap' : 'pdf.dsrOverCap', { dsr: result.dsrRatio.toFixed(2), cap: dsrCap })],
+    [t('comparison.dsrRate'), `${result.stressDsrRateUsed.toFixed(2)}%`],
+    [t('results.avgMonthlyPayment'), w.won(result.avgMonthlyPayment)],
+    [t('results.interestTotal'), w.won(result.totalInterest)],
+    [t('pdf.totalPayment'), w.won(result.totalPayment)],
+  ], { columnStyles: { 0: { cellWidth: 50, fontStyle: 'bold' } } });
+
+  w.heading(t('export.assumptionsSheet'));
+  w.table([t('export.item'), t('export.value')], buildAssumptionRows(inputs, result, w.locale).map(([label, value]) => [
+    label,
+    typeof value === 'number' ? w.number(value) : value,
+  ]), { columnStyles: { 0: { cellWidth: 50 } } });
+
+  if (inputs.existingDebts.length > 0) {
+    w.heading(t('results.loanBreakdownTitle'));
+    w.table(
+      [t('results.loan'), t('results.annualPrincipal'), t('results.annualInterest'), t('results.dsrContribution'), t('results.share')],
+      result.loanBurdens.map((b) => [
+        b.excluded ? `${t(burdenLabel(b))} ${t('results.excluded')}` : t(burdenLabel(b)),
+        w.won(b.annualPrincipal),
+        w.won(b.annualInterest),
+        `${b.dsrContribution.toFixed(2)}%`,
+        `${b.share.toFixed(1)}%`,
+      ]),
+      { columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } } }
+    );
+  }
+};
+
+const writeCharts = (w: Writer, inputs: LoanInputs, years: ScheduleYear[]) => {
+  w.heading(w.t('pdf.balanceTrend'));
+  drawBalanceChart(w, years, inputs.loanAmount);
+  w.heading(w.t('pdf.yearlyPayments'));
+  drawPaymentChart(w, years);
+};
+
+const writeAnalysis = (w: Writer, { analysis, source }: ReportAnalysis) => {
+  const { t } = w;
+  w.heading(t('pdf.analysis', { source }));
+  w.text(t('pdf.riskLevel', { level: t(RISK_LABELS[analysis.riskLevel]) }), 10, 'bold');
+  w.y += 1;
+  w.text(analysis.summary);
+
+  const sections: [string, string][] = [
+    [t('analysis.stressImpact'), analysis.stressDsrImpact],
+    [t('analysis.graceImpact'), analysis.gracePeriodImpact],
+  ];
+  sections.filter(([, body]) => body).forEach(([title, body]) => {
+    w.y += 3;
+    w.text(title, 10, 'bold');
+    w.text(body);
+  });
+
+  if (analysis.suggestions.length > 0) {
+    w.y += 3;
+    w.text(t('analysis.suggestions'), 10, 'bold');
+    analysis.suggestions.forEach((suggestion, index) => w.text(`${index + 1}. ${suggestion}`));
+  }
+};
+
+const writeRegulation = (w: Writer, { inputs, result, dsrCap }: LoanReportOptions) => {
+  const { t } = w;
+  w.heading(t('pdf.regulation'));
+
+  const { stressPolicy } = result;
+  const policy = stressPolicy.effectiveDate
+    ? t('pdf.policyEffective', { policy: t(stressPolicy.label), date: stressPolicy.effectiveDate })
+    : t(stressPolicy.label);
+  w.text(`${t('stressPolicy.title')}: ${stressPolicy.spread > 0
+    ? t('pdf.stressFormula', {
+        policy,
+        base: stressPolicy.baseSpread,
+        weight: Math.round(stressPolicy.weight * 100),
+        spread: stressPolicy.spread.toFixed(2),
+      })
+    : t('stressPolicy.none')}`);
+  w.y += 2;
+
+  const limits = solveDsrLimits(inputs, dsrCap);
+  if (inputs.collateralType === CollateralType.Housing) {
+    const check = checkRegulatoryLimits(inputs, dsrCap, limits.maxLoanAmount);
+    w.table(
+      [t('pdf.rule'), t('pdf.current'), t('pdf.cap'), t('limitSolver.maxLoan'), t('pdf.note')],
+      check.limits.map((l) => [
+        l.kind === check.binding ? `${l.kind} (${t('regulation.binding')})` : l.kind,
+        `${l.ratio.toFixed(1)}%`,
+        `${l.cap}%`,
+        w.won(l.maxLoanAmount),
+        regulatoryLimitNote(l, inputs.property, w.locale),
+      ]),
+      { columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } } }
+    );
+  } else {
+    w.table([t('pdf.dsrCap'), t('limitSolver.maxLoan'), t('limitSolver.minIncome'), t('limitSolver.minTerm')], [[
+      `${dsrCap}%`,
+      w.won(limits.maxLoanAmount),
+      w.won(limits.minAnnualIncome),
+      limits.minLoanTermYear !== null ? t('unit.years', { years: limits.minLoanTermYear }) : t('limitSolver.notApplicable'),
+    ]]);
+  }
+
+  w.text(
+    t('pdf.disclaimer'),
+    8, 'normal', COLORS.muted
+  );
+};
+
+const writeSchedule = (w: Writer, rows: ScheduleRow[]) => {
+  w.doc.addPage();
+  w.y = PAGE_MARGIN;
+  w.heading(w.t('pdf.schedule'));
+
+  const dated = isDatedSchedule(rows);
+  w.table(
+    scheduleHeader(dated, w.locale),
+    rows.map((row) => toScheduleRow(row, w.locale).map((cell) => (typeof cell === 'number' ? w.number(cell) : cell))),
+    {
+      styles: { font: FONT_FAMILY, fontSize: 6.5, cellPadding: 1, textColor: COLORS.text, halign: 'right' },
+      columnStyles: { [scheduleKindColumn(dated)]: { halign: 'center' } },
+      showHead: 'everyPage',
+    }
+  );
+};
+
+// Page numbers are stamped last, once the total page count is known
+const writeFooters = (doc: jsPDF) => {
+  const total = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT_FAMILY, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.muted);
+    doc.text(`${page} / ${total}`, pageWidth / 2, pageHeight - 7, { align: 'center' });
+  }
+};
+
+export const exportLoanReportPdf = async (options: LoanReportOptions) => {
+  const fonts = await loadFonts();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  registerFonts(doc, fonts);
+
+  const w = createWriter(doc, options.locale);
+  const { inputs, result } = options;
+  // With prepayments planned, the report follows the revised schedule
+  const rows = buildScheduleRows(result.prepayment?.monthlyPayments ?? result.monthlyPayments, inputs.gracePeriodYear * 12);
+  const years = groupScheduleByYear(rows);
+
+  writeCover(w, options);
+  writeCharts(w, inputs, years);
+  writeAnalysis(w, options.analysis);
+  writeRegulation(w, options);
+  writeSchedule(w, rows);
+  writeFooters(doc);
+
+  doc.save(`DSR_Report_${new Date().toISOString().slice(0, 10)}.pdf`);
+};
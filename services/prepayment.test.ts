@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePrepaymentFees, earlyRepaymentFee, expandPrepayments } from './prepayment';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { MonthlyPayment, Prepayment, PrepaymentFeeRule, PrepaymentSettings } from '../types';
+
+// 1.2% sliding over 3 years, no exemption
+const feeRule = (overrides: Partial<PrepaymentFeeRule> = {}): PrepaymentFeeRule => ({
+  ...DEFAULT_LOAN_INPUTS.prepayment.feeRule,
+  ...overrides,
+});
+
+const prepayment = (overrides: Partial<Prepayment> = {}): Prepayment => ({
+  id: 'p',
+  month: 12,
+  amount: 10000000,
+  repeatIntervalMonth: 0,
+  ...overrides,
+});
+
+const settings = (prepayments: Prepayment[]): PrepaymentSettings => ({
+  ...DEFAULT_LOAN_INPUTS.prepayment,
+  prepayments,
+});
+
+// Schedule rows carrying only the prepaid amounts that the fee calculation reads
+const prepaidRows = (entries: [month: number, amount: number][]): MonthlyPayment[] =>
+  entries.map(([month, amount]) => ({ month, payment: 0, principal: 0, interest: 0, balance: 0, rate: 4.5, prepayment: amount }));
+
+describe('expandPrepayments', () => {
+  it('places a one-off prepayment in its month', () => {
+    const extra = expandPrepayments(settings([prepayment()]), 24);
+    expect(extra[11]).toBe(10000000);
+    expect(extra.reduce((sum, v) => sum + v, 0)).toBe(10000000);
+  });
+
+  it('repeats a recurring prepayment until the end of the term', () => {
+    const extra = expandPrepayments(settings([prepayment({ month: 6, repeatIntervalMonth: 12 })]), 36);
+    expect(extra.flatMap((v, i) => (v > 0 ? [i + 1] : []))).toEqual([6, 18, 30]);
+  });
+
+  it('adds up prepayments in the same month and skips empty entries', () => {
+    const extra = expandPrepayments(
+      settings([prepayment(), prepayment({ id: 'q', amount: 5000000 }), prepayment({ id: 'r', amount: 0 })]),
+      24
+    );
+    expect(extra[11]).toBe(15000000);
+  });
+});
+
+describe('earlyRepaymentFee', () => {
+  it('slides the fee down linearly over the period', () => {
+    // 1,000만원 × 1.2% × (36 - 12) / 36 = 80,000원
+    expect(earlyRepaymentFee(10000000, 12, feeRule())).toBeCloseTo(80000, 6);
+    expect(earlyRepaymentFee(10000000, 0, feeRule())).toBeCloseTo(120000, 6);
+  });
+
+  it('charges nothing once the sliding period has passed', () => {
+    expect(earlyRepaymentFee(10000000, 36, feeRule())).toBe(0);
+    expect(earlyRepaymentFee(10000000, 48, feeRule())).toBe(0);
+    expect(earlyRepaymentFee(10000000, 1, feeRule({ slidingPeriodYear: 0 }))).toBe(0);
+  });
+});
+
+describe('calculatePrepaymentFees', () => {
+  it('exempts the yearly allowance before charging the fee', () => {
+    const [fee] = calculatePrepaymentFees(prepaidRows([[12, 10000000]]), feeRule({ annualExemptionAmount: 4000000 }));
+    expect(fee.chargeable).toBe(6000000);
+    expect(fee.fee).toBeCloseTo(48000, 6);
+  });
+
+  it('shares the exemption between prepayments of the same loan year', () => {
+    const fees = calculatePrepaymentFees(
+      prepaidRows([[3, 3000000], [9, 3000000], [15, 3000000]]),
+      feeRule({ annualExemptionAmount: 4000000 })
+    );
+    // Year 1: 3,000,000 exempt, then 1,000,000 of the allowance left. Year 2 starts over.
+    expect(fees.map((f) => f.chargeable)).toEqual([0, 2000000, 0]);
+  });
+
+  it('ignores months without a prepayment', () => {
+    const rows = prepaidRows([[12, 10000000]]);
+    rows.unshift({ ...rows[0], month: 11, prepayment: undefined });
+    expect(calculatePrepaymentFees(rows, feeRule())).toHaveLength(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { MonthlyPayment, PrepaymentFee, PrepaymentFeeRule, PrepaymentSettings } from "../types";
+
+// Extra principal planned for each month, expanding recurring prepayments
+export const expandPrepayments = (settings: PrepaymentSettings, totalMonths: number): number[] => {
+  const extra: number[] = new Array(totalMonths).fill(0);
+
+  settings.prepayments.forEach((p) => {
+    if (p.amount <= 0 || p.month < 1) return;
+    const interval = p.repeatIntervalMonth > 0 ? p.repeatIntervalMonth : totalMonths;
+    for (let m = p.month; m <= totalMonths; m += interval) {
+      extra[m - 1] += p.amount;
+    }
+  });
+
+  return extra;
+};
+
+// Fee on `chargeable` repaid `month` months after the loan was taken out: feeRate scaled
+// down linearly by the share of the sliding period still remaining
+export const earlyRepaymentFee = (chargeable: number, month: number, rule: PrepaymentFeeRule): number => {
+  const slidingMonths = rule.slidingPeriodYear * 12;
+  const remainingShare = slidingMonths > 0 ? Math.max(0, slidingMonths - month) / slidingMonths : 0;
+  return chargeable * (rule.feeRate / 100) * remainingShare;
+};
+
+// 중도상환수수료: amounts above the yearly exemption pay the early repayment fee
+export const calculatePrepaymentFees = (schedule: MonthlyPayment[], rule: PrepaymentFeeRule): PrepaymentFee[] => {
+  const prepaidByYear: Record<number, number> = {};
+  const fees: PrepaymentFee[] = [];
+
+  schedule.forEach((p) => {
+    if (!p.prepayment) return;
+
+    const loanYear = Math.ceil(p.month / 12);
+    const prepaidThisYear = prepaidByYear[loanYear] || 0;
+    const exemptionLeft = Math.max(0, rule.annualExemptionAmount - prepaidThisYear);
+    const chargeable = Math.max(0, p.prepayment - exemptionLeft);
+
+    prepaidByYear[loanYear] = prepaidThisYear + p.prepayment;
+    fees.push({
+      month: p.month,
+      amount: p.prepayment,
+      chargeable,
+      fee: earlyRepaymentFee(chargeable, p.month, rule),
+    });
+  });
+
+  return fees;
+};
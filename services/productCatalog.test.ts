@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { CATALOG_COLUMNS, InvalidProductError, parseProductCatalog } from './productCatalog';
+import { CollateralType, RateType, RepaymentMethod } from '../types';
+
+const HEADER = CATALOG_COLUMNS.join(',');
+const VALID_ROW = '예시은행,주택담보 혼합형,Housing,Mixed,3.1,1.2,5,40,0,PrincipalInterestEqual|PrincipalEqual,0|1,0,1.2,3,0';
+
+const csv = (...rows: string[]) => [HEADER, ...rows].join('\n');
+
+const importError = (source: string) => {
+  try {
+    parseProductCatalog(source);
+  } catch (error) {
+    if (error instanceof InvalidProductError) return { key: error.key, params: error.params };
+    throw error;
+  }
+  throw new Error('expected the import to fail');
+};
+
+describe('parseProductCatalog', () => {
+  it('reads the CSV template layout', () => {
+    const { products, errors } = parseProductCatalog('\uFEFF' + csv(VALID_ROW));
+    expect(errors).toEqual([]);
+    expect(products).toHaveLength(1);
+    expect(products[0]).toMatchObject({
+      lender: '예시은행',
+      collateralType: CollateralType.Housing,
+      rateType: RateType.Mixed,
+      baseRate: 3.1,
+      spread: 1.2,
+      fixedPeriodYear: 5,
+      repaymentMethods: [RepaymentMethod.PrincipalInterestEqual, RepaymentMethod.PrincipalEqual],
+      gracePeriodYears: [0, 1],
+      feeRule: { feeRate: 1.2, slidingPeriodYear: 3, annualExemptionAmount: 0 },
+    });
+  });
+
+  it('accepts the Korean labels of lenders\' rate sheets', () => {
+    const { products, errors } = parseProductCatalog(csv('A은행,신용,기타 담보,변동금리,3.5,2,,10,"50,000,000",만기일시|원리금균등,,,,,'));
+    expect(errors).toEqual([]);
+    expect(products[0]).toMatchObject({
+      collateralType: CollateralType.Other,
+      rateType: RateType.Variable,
+      fixedPeriodYear: 0,
+      maxLoanAmount: 50000000,
+      repaymentMethods: [RepaymentMethod.Bullet, RepaymentMethod.PrincipalInterestEqual],
+      gracePeriodYears: [0],
+    });
+  });
+
+  it('skips bad rows and reports them with message keys', () => {
+    const { products, errors } = parseProductCatalog(csv(
+      VALID_ROW,
+      ',이름없음,Housing,Fixed,3,0,0,30,0,Bullet,0,0,0,0,0',
+      'B은행,고금리,Housing,Fixed,19,2,0,30,0,Bullet,0,0,0,0,0',
+      'C은행,잘못된 방식,Housing,Fixed,3,0,0,30,0,분할,0,0,0,0,0',
+      'D은행,숫자 아님,Housing,Fixed,abc,0,0,30,0,Bullet,0,0,0,0,0',
+      'E은행,거치 초과,Housing,Fixed,3,0,0,10,0,Bullet,10,0,0,0,0',
+    ));
+    expect(products).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 2, error: 'catalog.error.missing', params: { field: 'lender' } },
+      { row: 3, error: 'catalog.error.outOfRange', params: { field: 'baseRate + spread', min: 0, max: 20 } },
+      { row: 4, error: 'catalog.error.unknownValue', params: { field: 'repaymentMethods', value: '분할' } },
+      { row: 5, error: 'catalog.error.invalid', params: { field: 'baseRate' } },
+      { row: 6, error: 'catalog.error.outOfRange', params: { field: 'gracePeriodYears', min: 0, max: 9 } },
+    ]);
+  });
+
+  it('reads JSON arrays and objects with a products list', () => {
+    const product = {
+      lender: 'F은행',
+      name: '고정형',
+      collateralType: 'Housing',
+      rateType: '고정',
+      baseRate: 4,
+      maxTermYear: 30,
+      repaymentMethods: ['PrincipalEqual'],
+    };
+    expect(parseProductCatalog(JSON.stringify([product])).products[0].rateType).toBe(RateType.Fixed);
+    const { products, errors } = parseProductCatalog(JSON.stringify({ products: [product, 'oops'] }));
+    expect(products).toHaveLength(1);
+    expect(errors).toEqual([{ row: 2, error: 'catalog.error.notProduct', params: undefined }]);
+  });
+
+  it('throws a message key when the file cannot be read', () => {
+    expect(importError('lender,name\nA,B')).toEqual({
+      key: 'catalog.error.missingColumns',
+      params: { columns: 'rateType, baseRate, maxTermYear, repaymentMethods' },
+    });
+    expect(importError('{"items": []}')).toEqual({ key: 'catalog.error.noProducts', params: undefined });
+    expect(importError('[{"lender": ')).toEqual({ key: 'catalog.error.unreadable', params: undefined });
+  });
+});
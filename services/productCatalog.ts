@@ -0,0 +1,419 @@
+import {
+  CollateralType,
+  LoanInputs,
+  LoanProduct,
+  ProductAdjustment,
+  ProductEvaluation,
+  ProductIneligibility,
+  ProductRankKey,
+  ProductRanking,
+  RatePathMode,
+  RateType,
+  RepaymentMethod,
+} from "../types";
+import { calculateDsr, yearsToMonths } from "./dsrEngine";
+import { MAX_SOLVER_TERM_YEAR } from "./dsrSolver";
+import { MAX_INTEREST_RATE } from "./validation";
+import { stampDuty } from "./refinance";
+import { downloadBlob } from "./scheduleExport";
+import { MessageKey, MessageParams } from "./i18n";
+
+const STORAGE_KEY = 'smart-dsr:product-catalog';
+
+// Column order of the CSV layout; JSON objects use the same keys. List columns separate
+// their values with '|', e.g. "PrincipalInterestEqual|PrincipalEqual" or "0|1|2".
+export const CATALOG_COLUMNS = [
+  'lender',
+  'name',
+  'collateralType',
+  'rateType',
+  'baseRate',
+  'spread',
+  'fixedPeriodYear',
+  'maxTermYear',
+  'maxLoanAmount',
+  'repaymentMethods',
+  'gracePeriodYears',
+  'upfrontFee',
+  'feeRate',
+  'slidingPeriodYear',
+  'annualExemptionAmount',
+] as const;
+
+const LIST_SEPARATOR = '|';
+
+// Korean labels accepted besides the enum values, as lenders' rate sheets use them
+const COLLATERAL_ALIASES: Record<string, CollateralType> = {
+  '주택': CollateralType.Housing,
+  '주택담보': CollateralType.Housing,
+  '기타': CollateralType.Other,
+  '기타담보': CollateralType.Other,
+};
+
+const RATE_TYPE_ALIASES: Record<string, RateType> = {
+  '변동': RateType.Variable,
+  '변동금리': RateType.Variable,
+  '혼합': RateType.Mixed,
+  '혼합형': RateType.Mixed,
+  '주기': RateType.Periodic,
+  '주기형': RateType.Periodic,
+  '고정': RateType.Fixed,
+  '고정금리': RateType.Fixed,
+};
+
+const METHOD_ALIASES: Record<string, RepaymentMethod> = {
+  '원리금균등': RepaymentMethod.PrincipalInterestEqual,
+  '원금균등': RepaymentMethod.PrincipalEqual,
+  '만기일시': RepaymentMethod.Bullet,
+  '만기일시상환': RepaymentMethod.Bullet,
+  '체증식': RepaymentMethod.Graduated,
+};
+
+export interface CatalogImportResult {
+  products: LoanProduct[];
+  errors: { row: number; error: MessageKey; params?: MessageParams }[]; // Rows that were skipped (1-based, data rows only)
+}
+
+// --- parsing ---
+
+// Thrown by `parseProductCatalog` when the file cannot be read at all; the message key
+// and params are translated by the caller
+export class InvalidProductError extends Error {
+  key: MessageKey;
+  params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key);
+    this.key = key;
+    this.params = params;
+  }
+}
+
+const missingField = (key: string) => new InvalidProductError('catalog.error.missing', { field: key });
+
+type RawProduct = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawProduct =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (source: RawProduct, key: string): string => {
+  const value = source[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw missingField(key);
+  }
+  return value.trim();
+};
+
+// Spreadsheets may quote numbers with digit grouping
+const toNumber = (value: unknown, key: string): number => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value.replace(/,/g, '')) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new InvalidProductError('catalog.error.invalid', { field: key });
+  }
+  return parsed;
+};
+
+// An empty cell or missing key uses the fallback, when the column has one
+const num = (source: RawProduct, key: string, fallback?: number): number => {
+  const value = source[key];
+  if ((value === undefined || value === '') && fallback !== undefined) return fallback;
+  return toNumber(value, key);
+};
+
+const inRange = (value: number, key: string, min: number, max: number, integer = false): number => {
+  if (value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new InvalidProductError('catalog.error.outOfRange', { field: key, min, max });
+  }
+  return value;
+};
+
+const oneOf = <T extends string>(value: unknown, key: string, allowed: Record<string, T>, aliases: Record<string, T>): T => {
+  const label = typeof value === 'string' ? value.trim() : value;
+  if (Object.values(allowed).includes(label as T)) return label as T;
+  if (typeof label === 'string' && aliases[label.replace(/\s/g, '')]) return aliases[label.replace(/\s/g, '')];
+  throw new InvalidProductError('catalog.error.unknownValue', { field: key, value: String(value ?? '') });
+};
+
+const listOf = (source: RawProduct, key: string): unknown[] => {
+  const value = source[key];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'number') return [value];
+  if (typeof value === 'string' && value.trim() !== '') return value.split(LIST_SEPARATOR);
+  throw missingField(key);
+};
+
+const parseProduct = (source: RawProduct): LoanProduct => {
+  const rateType = oneOf(source.rateType, 'rateType', RateType, RATE_TYPE_ALIASES);
+  const baseRate = num(source, 'baseRate');
+  const spread = num(source, 'spread', 0);
+  inRange(baseRate + spread, 'baseRate + spread', 0, MAX_INTEREST_RATE);
+
+  const maxTermYear = inRange(num(source, 'maxTermYear'), 'maxTermYear', 1, MAX_SOLVER_TERM_YEAR, true);
+  const repaymentMethods = [...new Set(
+    listOf(source, 'repaymentMethods').map((method) => oneOf(method, 'repaymentMethods', RepaymentMethod, METHOD_ALIASES))
+  )];
+  const gracePeriodYears = [...new Set(
+    source.gracePeriodYears === undefined || source.gracePeriodYears === ''
+      ? [0]
+      : listOf(source, 'gracePeriodYears').map((year) =>
+          inRange(toNumber(year, 'gracePeriodYears'), 'gracePeriodYears', 0, maxTermYear - 1, true))
+  )].sort((a, b) => a - b);
+
+  return {
+    id: crypto.randomUUID(),
+    lender: text(source, 'lender'),
+    name: text(source, 'name'),
+    collateralType: oneOf(source.collateralType, 'collateralType', CollateralType, COLLATERAL_ALIASES),
+    rateType,
+    baseRate,
+    spread,
+    fixedPeriodYear: rateType === RateType.Mixed || rateType === RateType.Periodic
+      ? inRange(num(source, 'fixedPeriodYear'), 'fixedPeriodYear', 1, maxTermYear, true)
+      : 0,
+    maxTermYear,
+    maxLoanAmount: inRange(num(source, 'maxLoanAmount', 0), 'maxLoanAmount', 0, Infinity),
+    repaymentMethods,
+    gracePeriodYears,
+    upfrontFee: inRange(num(source, 'upfrontFee', 0), 'upfrontFee', 0, Infinity),
+    feeRule: {
+      feeRate: inRange(num(source, 'feeRate', 0), 'feeRate', 0, 100),
+      slidingPeriodYear: inRange(num(source, 'slidingPeriodYear', 3), 'slidingPeriodYear', 0, MAX_SOLVER_TERM_YEAR),
+      annualExemptionAmount: inRange(num(source, 'annualExemptionAmount', 0), 'annualExemptionAmount', 0, Infinity),
+    },
+  };
+};
+
+// RFC 4180 fields: quoted fields may hold commas, line breaks and doubled quotes
+const parseCsv = (source: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+const csvRecords = (source: string): RawProduct[] => {
+  const [header, ...rows] = parseCsv(source);
+  if (!header) return [];
+  const keys = header.map((key) => key.trim());
+  const missing = ['lender', 'name', 'rateType', 'baseRate', 'maxTermYear', 'repaymentMethods'].filter((key) => !keys.includes(key));
+  if (missing.length > 0) throw new InvalidProductError('catalog.error.missingColumns', { columns: missing.join(', ') });
+  return rows.map((cells) => Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ''])));
+};
+
+// A JSON array of products, or an object with a `products` array
+const jsonRecords = (source: string): unknown[] => {
+  const parsed: unknown = JSON.parse(source);
+  if (Array.isArray(parsed)) return parsed;
+  if (isRecord(parsed) && Array.isArray(parsed.products)) return parsed.products;
+  throw new InvalidProductError('catalog.error.noProducts');
+};
+
+// Parses a catalog file. Invalid rows are skipped and reported so one typo does not
+// block the rest of the catalog; a file that cannot be read at all throws.
+export const parseProductCatalog = (source: string): CatalogImportResult => {
+  const content = source.replace(/^\uFEFF/, '');
+  const isJson = /^\s*[[{]/.test(content);
+
+  let records: unknown[];
+  try {
+    records = isJson ? jsonRecords(content) : csvRecords(content);
+  } catch (error) {
+    throw error instanceof InvalidProductError ? error : new InvalidProductError('catalog.error.unreadable');
+  }
+
+  const result: CatalogImportResult = { products: [], errors: [] };
+  records.forEach((record, index) => {
+    try {
+      if (!isRecord(record)) throw new InvalidProductError('catalog.error.notProduct');
+      result.products.push(parseProduct(record));
+    } catch (error) {
+      if (!(error instanceof InvalidProductError)) throw error;
+      result.errors.push({ row: index + 1, error: error.key, params: error.params });
+    }
+  });
+  return result;
+};
+
+const TEMPLATE_ROWS: (string | number)[][] = [
+  ['예시은행', '주택담보 혼합형', 'Housing', 'Mixed', 3.1, 1.2, 5, 40, 0, 'PrincipalInterestEqual|PrincipalEqual', '0|1', 0, 1.2, 3, 0],
+  ['예시저축은행', '신용대출 변동형', 'Other', 'Variable', 3.4, 3.5, 0, 10, 100000000, 'Bullet|PrincipalInterestEqual', 0, 200000, 0.7, 3, 0],
+];
+
+export const downloadCatalogTemplate = () => {
+  const lines = [[...CATALOG_COLUMNS], ...TEMPLATE_ROWS].map((row) => row.join(','));
+  // BOM so that Excel opens the Korean values as UTF-8
+  downloadBlob(new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8' }), 'DSR_Product_Catalog.csv');
+};
+
+// --- storage ---
+
+// Stored products go through the import checks again, since they may predate a rule change
+// or have been edited by hand. The fee rule is flattened back into the catalog columns.
+const storedProduct = (stored: unknown): LoanProduct | null => {
+  if (!isRecord(stored) || typeof stored.id !== 'string') return null;
+  try {
+    const feeRule = isRecord(stored.feeRule) ? stored.feeRule : {};
+    return { ...parseProduct({ ...stored, ...feeRule }), id: stored.id };
+  } catch (error) {
+    if (!(error instanceof InvalidProductError)) throw error;
+    return null;
+  }
+};
+
+export const loadProductCatalog = (): LoanProduct[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(storedProduct).filter((p): p is LoanProduct => p !== null);
+  } catch (error) {
+    console.error("Failed to load product catalog:", error);
+    return [];
+  }
+};
+
+export const persistProductCatalog = (products: LoanProduct[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(products));
+  } catch (error) {
+    console.error("Failed to save product catalog:", error);
+  }
+};
+
+// --- ranking ---
+
+export const productRate = (product: LoanProduct) => product.baseRate + product.spread;
+
+// The form's scenario with the product's terms. Borrower, amount, debts and the prepayment
+// plan stay as entered; the term, method and grace period move to the nearest option the
+// product offers when it does not offer the entered one.
+export const productInputs = (
+  inputs: LoanInputs,
+  product: LoanProduct
+): { inputs: LoanInputs; adjustments: ProductAdjustment[] } => {
+  const adjustments: ProductAdjustment[] = [];
+
+  const loanTermYear = Math.min(inputs.loanTermYear, product.maxTermYear);
+  if (loanTermYear !== inputs.loanTermYear) adjustments.push('term');
+
+  const repaymentMethod = product.repaymentMethods.includes(inputs.repaymentMethod)
+    ? inputs.repaymentMethod
+    : product.repaymentMethods[0];
+  if (repaymentMethod !== inputs.repaymentMethod) adjustments.push('method');
+
+  // Longest offered grace period not above the entered one, and shorter than the term
+  const graceOptions = product.gracePeriodYears.filter((year) => year < loanTermYear);
+  const gracePeriodYear = graceOptions.includes(inputs.gracePeriodYear)
+    ? inputs.gracePeriodYear
+    : [...graceOptions].reverse().find((year) => year <= inputs.gracePeriodYear) ?? 0;
+  if (gracePeriodYear !== inputs.gracePeriodYear) adjustments.push('grace');
+
+  return {
+    inputs: {
+      ...inputs,
+      interestRate: productRate(product),
+      rateType: product.rateType,
+      fixedPeriodYear: product.fixedPeriodYear || inputs.fixedPeriodYear,
+      // Later resets follow the product's index and spread
+      ratePath: {
+        ...inputs.ratePath,
+        mode: RatePathMode.Reset,
+        indexRate: product.baseRate,
+        spread: product.spread,
+      },
+      loanTermYear,
+      gracePeriodYear,
+      repaymentMethod,
+      prepayment: { ...inputs.prepayment, feeRule: product.feeRule },
+    },
+    adjustments,
+  };
+};
+
+const ineligibility = (inputs: LoanInputs, product: LoanProduct): ProductIneligibility[] => {
+  const reasons: ProductIneligibility[] = [];
+  if (product.collateralType !== inputs.collateralType) reasons.push('collateral');
+  if (product.maxLoanAmount > 0 && inputs.loanAmount > product.maxLoanAmount) reasons.push('amount');
+  return reasons;
+};
+
+export const evaluateProduct = (inputs: LoanInputs, product: LoanProduct, dsrCap: number): ProductEvaluation => {
+  const scenario = productInputs(inputs, product);
+  const result = calculateDsr(scenario.inputs);
+  const schedule = result.monthlyPayments;
+  const firstRepayment = schedule[Math.min(yearsToMonths(scenario.inputs.gracePeriodYear), schedule.length - 1)];
+
+  const totalInterest = result.prepayment ? result.prepayment.totalInterest : result.totalInterest;
+  const prepaymentFees = result.prepayment ? result.prepayment.totalFees : 0;
+  const upfrontCost = product.upfrontFee + stampDuty(inputs.loanAmount);
+
+  return {
+    product,
+    inputs: scenario.inputs,
+    adjustments: scenario.adjustments,
+    dsrRatio: result.dsrRatio,
+    passesDsrCap: result.dsrRatio <= dsrCap,
+    monthlyPayment: firstRepayment ? firstRepayment.payment : 0,
+    totalInterest,
+    upfrontCost,
+    prepaymentFees,
+    totalCost: totalInterest + upfrontCost + prepaymentFees,
+  };
+};
+
+const RANK_VALUE: Record<ProductRankKey, (evaluation: ProductEvaluation) => number> = {
+  dsr: (e) => e.dsrRatio,
+  monthlyPayment: (e) => e.monthlyPayment,
+  totalCost: (e) => e.totalCost,
+};
+
+// Eligible products ordered by the chosen measure, lowest first; ties go to the lower total cost
+export const rankProducts = (
+  inputs: LoanInputs,
+  products: LoanProduct[],
+  dsrCap: number,
+  rankBy: ProductRankKey
+): ProductRanking => {
+  const ranking: ProductRanking = { ranked: [], ineligible: [] };
+  products.forEach((product) => {
+    const reasons = ineligibility(inputs, product);
+    if (reasons.length > 0) ranking.ineligible.push({ product, reasons });
+    else ranking.ranked.push(evaluateProduct(inputs, product, dsrCap));
+  });
+
+  const value = RANK_VALUE[rankBy];
+  ranking.ranked.sort((a, b) => value(a) - value(b) || a.totalCost - b.totalCost);
+  return ranking;
+};
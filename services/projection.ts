@@ -0,0 +1,51 @@
+import { BurdenProjectionResult, MonthlyPayment, ProjectionSettings, ProjectionYear } from "../types";
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  incomeGrowth: 3,
+  inflation: 2,
+};
+
+// Payment-to-income ratio for every loan year, with income growing by incomeGrowth from
+// today's income in year 1. Unlike the DSR this uses the actual payments at the contract rate,
+// without stress rates or regulatory repayment periods. Real amounts discount each payment
+// to today's money by the inflation accumulated up to its month.
+export const projectBurden = (
+  schedule: MonthlyPayment[],
+  annualIncome: number,
+  settings: ProjectionSettings
+): BurdenProjectionResult => {
+  const years: ProjectionYear[] = [];
+  let nominalInterest = 0;
+  let realInterest = 0;
+  let nominalPayment = 0;
+  let realPayment = 0;
+
+  schedule.forEach((p) => {
+    const year = Math.ceil(p.month / 12);
+    let entry = years[years.length - 1];
+    if (!entry || entry.year !== year) {
+      entry = {
+        year,
+        ...(p.date ? { calendarYear: Number(p.date.slice(0, 4)) } : {}),
+        income: annualIncome * Math.pow(1 + settings.incomeGrowth / 100, year - 1),
+        payment: 0,
+        paymentToIncome: 0,
+      };
+      years.push(entry);
+    }
+    const paid = p.payment + (p.prepayment || 0);
+    entry.payment += paid;
+
+    const deflator = Math.pow(1 + settings.inflation / 100, p.month / 12);
+    nominalInterest += p.interest;
+    realInterest += p.interest / deflator;
+    nominalPayment += paid;
+    realPayment += paid / deflator;
+  });
+
+  years.forEach((entry) => {
+    entry.paymentToIncome = entry.income > 0 ? (entry.payment / entry.income) * 100 : 0;
+  });
+
+  return { years, nominalInterest, realInterest, nominalPayment, realPayment };
+};
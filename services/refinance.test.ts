@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { compareRefinance, DEFAULT_REFINANCE_SETTINGS, refinanceInputs, stampDuty } from './refinance';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { CollateralType, DebtType, ExistingDebt, LoanInputs, RateType, RefinanceSettings, RepaymentMethod } from '../types';
+
+const inputs = (overrides: Partial<LoanInputs> = {}): LoanInputs => ({
+  ...DEFAULT_LOAN_INPUTS,
+  rateType: RateType.Fixed,
+  ...overrides,
+});
+
+// Current loan: 3억 at 5.2% with 27 years left, 24 months into a 1.2% / 3-year sliding fee
+const settings = (candidate: Partial<RefinanceSettings['candidate']> = {}): RefinanceSettings => ({
+  ...DEFAULT_REFINANCE_SETTINGS,
+  candidate: { ...DEFAULT_REFINANCE_SETTINGS.candidate, rateType: RateType.Fixed, ...candidate },
+});
+
+describe('stampDuty', () => {
+  it('charges half of the bracket tax to the borrower', () => {
+    expect(stampDuty(50000000)).toBe(0);
+    expect(stampDuty(50000001)).toBe(35000);
+    expect(stampDuty(100000000)).toBe(35000);
+    expect(stampDuty(100000001)).toBe(75000);
+    expect(stampDuty(1000000000)).toBe(75000);
+    expect(stampDuty(1000000001)).toBe(175000);
+  });
+});
+
+describe('compareRefinance', () => {
+  it('adds the sliding prepayment fee and stamp duty to the upfront cost', () => {
+    const result = compareRefinance(inputs(), settings({ otherCosts: 500000 }));
+    // 3억 × 1.2% × (36 - 24) / 36
+    expect(result.prepaymentFee).toBeCloseTo(1200000, 6);
+    expect(result.stampDuty).toBe(75000);
+    expect(result.upfrontCost).toBeCloseTo(1775000, 6);
+  });
+
+  it('breaks even once the monthly savings cover the upfront cost', () => {
+    // Same remaining term, so the monthly saving is constant
+    const result = compareRefinance(inputs(), settings({ termYear: 27 }));
+    expect(result.monthlySavings).toBeGreaterThan(0);
+    expect(result.breakEvenMonth).toBe(Math.ceil(result.upfrontCost / result.monthlySavings));
+    expect(result.cumulativeSavings[result.breakEvenMonth! - 2]).toBeLessThan(0);
+    expect(result.cumulativeSavings[result.breakEvenMonth! - 1]).toBeGreaterThanOrEqual(0);
+    expect(result.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('never breaks even at a higher rate', () => {
+    const result = compareRefinance(inputs(), settings({ interestRate: 6, termYear: 27 }));
+    expect(result.breakEvenMonth).toBeNull();
+    expect(result.netPresentSavings).toBeLessThan(-result.upfrontCost);
+  });
+
+  it('charges no fee after the sliding period', () => {
+    const current = { ...DEFAULT_REFINANCE_SETTINGS.current, elapsedMonth: 36 };
+    const result = compareRefinance(inputs(), { ...settings(), current });
+    expect(result.prepaymentFee).toBe(0);
+    expect(result.upfrontCost).toBe(75000);
+  });
+});
+
+describe('refinanceInputs', () => {
+  const mortgage: ExistingDebt = {
+    id: 'mortgage',
+    type: DebtType.Mortgage,
+    balance: 300000000,
+    interestRate: 5.2,
+    remainingTermYear: 27,
+    repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+  };
+
+  it('replaces the refinanced debt with the candidate loan', () => {
+    const refinanced = refinanceInputs(inputs({ existingDebts: [mortgage] }), { ...settings(), sourceDebtId: 'mortgage' });
+    expect(refinanced.existingDebts).toEqual([]);
+    expect(refinanced.loanAmount).toBe(300000000);
+    expect(refinanced.interestRate).toBe(4.2);
+    expect(refinanced.loanTermYear).toBe(30);
+    expect(refinanced.collateralType).toBe(CollateralType.Housing);
+  });
+
+  it('counts the refinanced debt only once in the DSR before', () => {
+    const withDebt = inputs({ existingDebts: [mortgage] });
+    const result = compareRefinance(withDebt, { ...settings(), sourceDebtId: 'mortgage' });
+    const standalone = compareRefinance(inputs(), settings());
+    expect(result.dsrBefore).toBeCloseTo(standalone.dsrBefore, 10);
+  });
+});
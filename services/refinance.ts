@@ -0,0 +1,142 @@
+import {
+  CollateralType,
+  DebtType,
+  ExistingDebt,
+  LoanInputs,
+  MonthlyPayment,
+  RateType,
+  RefinanceResult,
+  RefinanceSettings,
+  RepaymentMethod,
+} from "../types";
+import { DEFAULT_LOAN_INPUTS } from "../constants";
+import { calculateDebtBurden, calculateDsr, generateSchedule, sumInterest, yearsToMonths } from "./dsrEngine";
+import { earlyRepaymentFee } from "./prepayment";
+
+export const DEFAULT_REFINANCE_SETTINGS: RefinanceSettings = {
+  sourceDebtId: null,
+  current: {
+    debtType: DebtType.Mortgage,
+    balance: 300000000,
+    interestRate: 5.2,
+    remainingTermYear: 27,
+    repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+    elapsedMonth: 24,
+    feeRule: { feeRate: 1.2, slidingPeriodYear: 3, annualExemptionAmount: 0 },
+  },
+  candidate: {
+    interestRate: 4.2,
+    termYear: 30,
+    repaymentMethod: RepaymentMethod.PrincipalInterestEqual,
+    rateType: RateType.Mixed,
+    fixedPeriodYear: 5,
+    mortgageSetupCost: 0,
+    otherCosts: 0,
+  },
+  discountRate: 3,
+};
+
+// 인지세 on a loan contract (인지세법 제3조), by loan amount. Lender and borrower each pay half.
+const STAMP_DUTY_BRACKETS = [
+  { upTo: 50000000, tax: 0 },
+  { upTo: 100000000, tax: 70000 },
+  { upTo: 1000000000, tax: 150000 },
+  { upTo: Infinity, tax: 350000 },
+];
+
+export const stampDuty = (amount: number): number =>
+  (STAMP_DUTY_BRACKETS.find((bracket) => amount <= bracket.upTo)?.tax ?? 0) / 2;
+
+const paymentAt = (schedule: MonthlyPayment[], index: number) => schedule[index]?.payment ?? 0;
+
+// Scenario inputs with the candidate as the new loan, replacing the refinanced debt. The
+// new loan keeps the balance (no top-up) and has no grace period or prepayments.
+export const refinanceInputs = (inputs: LoanInputs, settings: RefinanceSettings): LoanInputs => {
+  const { current, candidate } = settings;
+  return {
+    ...inputs,
+    loanAmount: current.balance,
+    interestRate: candidate.interestRate,
+    rateType: candidate.rateType,
+    fixedPeriodYear: candidate.fixedPeriodYear,
+    loanTermYear: candidate.termYear,
+    gracePeriodYear: 0,
+    repaymentMethod: candidate.repaymentMethod,
+    collateralType: current.debtType === DebtType.Mortgage ? CollateralType.Housing : CollateralType.Other,
+    existingDebts: inputs.existingDebts.filter((debt) => debt.id !== settings.sourceDebtId),
+    prepayment: { ...inputs.prepayment, prepayments: [] },
+    calendar: DEFAULT_LOAN_INPUTS.calendar,
+  };
+};
+
+// Keep vs switch. Both loans are assumed to stay at today's rate; the upfront cost is paid
+// out of pocket at the switch. Savings are the payments avoided on the kept loan minus the
+// payments on the new one, so a longer new term shows up as later negative months.
+export const compareRefinance = (inputs: LoanInputs, settings: RefinanceSettings): RefinanceResult => {
+  const { current, candidate } = settings;
+
+  const keepSchedule = generateSchedule({
+    principal: current.balance,
+    interestRate: current.interestRate,
+    totalMonths: yearsToMonths(current.remainingTermYear),
+    graceMonths: 0,
+    repaymentMethod: current.repaymentMethod,
+  });
+  const switchSchedule = generateSchedule({
+    principal: current.balance,
+    interestRate: candidate.interestRate,
+    totalMonths: yearsToMonths(candidate.termYear),
+    graceMonths: 0,
+    repaymentMethod: candidate.repaymentMethod,
+  });
+
+  const chargeable = Math.max(0, current.balance - current.feeRule.annualExemptionAmount);
+  const prepaymentFee = earlyRepaymentFee(chargeable, current.elapsedMonth, current.feeRule);
+  const duty = stampDuty(current.balance);
+  const upfrontCost = prepaymentFee + duty + candidate.mortgageSetupCost + candidate.otherCosts;
+
+  const horizon = Math.max(keepSchedule.length, switchSchedule.length);
+  const monthlyDiscount = 1 + settings.discountRate / 100 / 12;
+  const cumulativeSavings: number[] = [];
+  let cumulative = -upfrontCost;
+  let netPresentSavings = -upfrontCost;
+  let breakEvenMonth: number | null = null;
+  for (let i = 0; i < horizon; i++) {
+    const saved = paymentAt(keepSchedule, i) - paymentAt(switchSchedule, i);
+    cumulative += saved;
+    netPresentSavings += saved / Math.pow(monthlyDiscount, i + 1);
+    cumulativeSavings.push(cumulative);
+    if (breakEvenMonth === null && cumulative >= 0) breakEvenMonth = i + 1;
+  }
+
+  // DSR before: the current loan counted like any other existing debt
+  const currentDebt: ExistingDebt = {
+    id: 'refinance-current',
+    type: current.debtType,
+    balance: current.balance,
+    interestRate: current.interestRate,
+    remainingTermYear: current.remainingTermYear,
+    repaymentMethod: current.repaymentMethod,
+  };
+  const otherDebts = inputs.existingDebts.filter((debt) => debt.id !== settings.sourceDebtId);
+  const burdenBefore = [...otherDebts, currentDebt]
+    .map(calculateDebtBurden)
+    .reduce((sum, b) => sum + b.annualPrincipal + b.annualInterest, 0);
+  const after = calculateDsr(refinanceInputs(inputs, settings));
+
+  return {
+    keepSchedule,
+    switchSchedule,
+    prepaymentFee,
+    stampDuty: duty,
+    upfrontCost,
+    monthlySavings: paymentAt(keepSchedule, 0) - paymentAt(switchSchedule, 0),
+    interestSaved: sumInterest(keepSchedule) - sumInterest(switchSchedule),
+    cumulativeSavings,
+    breakEvenMonth,
+    netPresentSavings,
+    dsrBefore: inputs.annualIncome > 0 ? (burdenBefore / inputs.annualIncome) * 100 : 0,
+    dsrAfter: after.dsrRatio,
+    stressRateUsed: after.stressDsrRateUsed,
+  };
+};
@@ -0,0 +1,243 @@
+import { AiAnalysisResult, CalculationResult, CollateralType, LoanInputs, Locale, RateType, RepaymentMethod } from "../types";
+import { AnalysisProvider, AnalysisSession, riskLevelForDsr } from "./analysisProvider";
+import { calculateDsr } from "./dsrEngine";
+import { DSR_CAP_PRESETS, solveMaxLoanAmount, solveMinTerm } from "./dsrSolver";
+import { NO_STRESS_POLICY_ID } from "./stressPolicy";
+import { burdenLabel } from "./debtRules";
+import { formatCurrency, MessageKey, MessageParams, translate } from "./i18n";
+
+// Offline analyzer: thresholds and impact deltas come from rerunning the DSR engine with one
+// input changed, and the wording is templated. Deterministic for a given scenario.
+
+const MAX_SUGGESTIONS = 4;
+
+const pct = (val: number) => `${val.toFixed(2)}%`;
+const pctPoint = (val: number) => `${Math.abs(val).toFixed(2)}%p`;
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const translator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+const dsrWith = (inputs: LoanInputs, changes: Partial<LoanInputs>) => calculateDsr({ ...inputs, ...changes }).dsrRatio;
+
+const describeSummary = (inputs: LoanInputs, result: CalculationResult, t: Translate): string => {
+  const cap = DSR_CAP_PRESETS.Bank;
+  const nonBankCap = DSR_CAP_PRESETS.NonBank;
+  const { dsrRatio, loanBurdens } = result;
+  const newLoan = loanBurdens.find((b) => b.id === 'new');
+
+  const level = dsrRatio <= cap
+    ? t('rules.level.withinBank', { cap })
+    : dsrRatio <= nonBankCap
+      ? t('rules.level.nonBank', { cap, over: pctPoint(dsrRatio - cap), nonBankCap })
+      : t('rules.level.overAll', { nonBankCap });
+  const parts = [t('rules.summary', { dsr: pct(dsrRatio), level })];
+  if (newLoan && inputs.existingDebts.length > 0) {
+    parts.push(t('rules.newLoanShare', { share: newLoan.share.toFixed(1) }));
+  }
+
+  return parts.join(' ');
+};
+
+const describeStressImpact = (inputs: LoanInputs, result: CalculationResult, t: Translate): string => {
+  const { stressPolicy, stressDsrRateUsed, dsrRatio } = result;
+  const parts: string[] = [];
+
+  if (stressPolicy.spread > 0) {
+    const withoutStress = dsrWith(inputs, { stressDsr: { ...inputs.stressDsr, policyId: NO_STRESS_POLICY_ID } });
+    parts.push(t('rules.stress.applied', {
+      policy: t(stressPolicy.label),
+      spread: stressPolicy.spread.toFixed(2),
+      rate: pct(stressDsrRateUsed),
+      withoutStress: pct(withoutStress),
+      delta: pctPoint(dsrRatio - withoutStress),
+    }));
+  } else {
+    parts.push(t('rules.stress.none'));
+  }
+
+  const existing = result.loanBurdens.filter((b) => b.id !== 'new');
+  if (existing.length > 0) {
+    const contribution = existing.reduce((sum, b) => sum + b.dsrContribution, 0);
+    parts.push(t('rules.existingDebts', { count: existing.length, share: pctPoint(contribution) }));
+  }
+
+  return parts.join(' ');
+};
+
+const describeGraceImpact = (inputs: LoanInputs, result: CalculationResult, t: Translate): string => {
+  const parts: string[] = [];
+
+  if (inputs.gracePeriodYear > 0) {
+    const delta = result.dsrRatio - dsrWith(inputs, { gracePeriodYear: 0 });
+    const years = inputs.gracePeriodYear;
+    parts.push(
+      Math.abs(delta) < 0.01
+        ? t('rules.grace.noEffect', { years })
+        : t(delta > 0 ? 'rules.grace.raises' : 'rules.grace.lowers', { years, delta: pctPoint(delta) })
+    );
+  } else {
+    parts.push(t(inputs.collateralType === CollateralType.Housing ? 'rules.grace.noneHousing' : 'rules.grace.none'));
+  }
+
+  if (inputs.repaymentMethod !== RepaymentMethod.PrincipalInterestEqual) {
+    const delta = result.dsrRatio - dsrWith(inputs, { repaymentMethod: RepaymentMethod.PrincipalInterestEqual });
+    const method = t(`repaymentMethod.${inputs.repaymentMethod}`);
+    const base = t(`repaymentMethod.${RepaymentMethod.PrincipalInterestEqual}`);
+    parts.push(
+      Math.abs(delta) < 0.01
+        ? t('rules.method.noEffect', { method, base })
+        : t(delta > 0 ? 'rules.method.higher' : 'rules.method.lower', { method, base, delta: pctPoint(delta) })
+    );
+  }
+
+  return parts.join(' ');
+};
+
+const buildSuggestions = (inputs: LoanInputs, result: CalculationResult, locale: Locale): string[] => {
+  const t = translator(locale);
+  const won = (val: number) => formatCurrency(locale, val);
+  const cap = DSR_CAP_PRESETS.Bank;
+  const suggestions: string[] = [];
+
+  if (result.dsrRatio > cap) {
+    const maxLoan = solveMaxLoanAmount(inputs, cap);
+    if (maxLoan > 0) suggestions.push(t('rules.suggest.reduceAmount', { amount: won(maxLoan), cap }));
+    const minTerm = solveMinTerm(inputs, cap);
+    if (minTerm && minTerm > inputs.loanTermYear) {
+      suggestions.push(t('rules.suggest.extendTerm', { years: minTerm, cap }));
+    }
+  } else {
+    const headroom = solveMaxLoanAmount(inputs, cap) - inputs.loanAmount;
+    if (headroom > 0) suggestions.push(t('rules.suggest.headroom', { amount: won(headroom), cap }));
+  }
+
+  if (result.stressPolicy.spread > 0 && inputs.rateType !== RateType.Fixed) {
+    const delta = result.dsrRatio - dsrWith(inputs, { rateType: RateType.Fixed });
+    if (delta > 0.01) suggestions.push(t('rules.suggest.fixedRate', { delta: pctPoint(delta) }));
+  }
+
+  if (inputs.collateralType === CollateralType.Housing && inputs.gracePeriodYear > 0) {
+    const delta = result.dsrRatio - dsrWith(inputs, { gracePeriodYear: 0 });
+    if (delta > 0.01) suggestions.push(t('rules.suggest.noGrace', { delta: pctPoint(delta) }));
+  }
+
+  const largestDebt = result.loanBurdens
+    .filter((b) => b.id !== 'new' && b.dsrContribution > 0)
+    .sort((a, b) => b.dsrContribution - a.dsrContribution)[0];
+  if (largestDebt) {
+    suggestions.push(t('rules.suggest.repayDebt', { debt: t(burdenLabel(largestDebt)), delta: pctPoint(largestDebt.dsrContribution) }));
+  }
+
+  if (suggestions.length < MAX_SUGGESTIONS && inputs.prepayment.prepayments.length === 0) {
+    suggestions.push(t('rules.suggest.prepay'));
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+};
+
+export const analyzeScenario = (inputs: LoanInputs, result: CalculationResult, locale: Locale): AiAnalysisResult => {
+  const t = translator(locale);
+  return {
+    riskLevel: riskLevelForDsr(result.dsrRatio),
+    summary: describeSummary(inputs, result, t),
+    stressDsrImpact: describeStressImpact(inputs, result, t),
+    gracePeriodImpact: describeGraceImpact(inputs, result, t),
+    suggestions: buildSuggestions(inputs, result, locale),
+  };
+};
+
+// What-if changes recognized in a follow-up question, in either language,
+// e.g. "40년으로 늘리면?", "금리가 5%라면?", "What if the loan is 200 million?"
+const parseWhatIf = (inputs: LoanInputs, question: string, locale: Locale): { changes: Partial<LoanInputs>; labels: string[] } => {
+  const t = translator(locale);
+  const changes: Partial<LoanInputs> = {};
+  const labels: string[] = [];
+
+  const years = question.match(/(\d+)\s*(?:년|years?\b)/i);
+  if (years) {
+    const value = Number(years[1]);
+    if (/거치|grace/i.test(question)) {
+      changes.gracePeriodYear = value;
+      labels.push(t('rules.whatIf.grace', { years: value }));
+    } else {
+      changes.loanTermYear = value;
+      labels.push(t('rules.whatIf.term', { years: value }));
+    }
+  }
+
+  const rate = question.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (rate) {
+    changes.interestRate = Number(rate[1]);
+    labels.push(t('rules.whatIf.rate', { rate: rate[1] }));
+  }
+
+  const amount = question.match(/(\d+(?:\.\d+)?)\s*(억|million\b)/i);
+  if (amount) {
+    changes.loanAmount = Number(amount[1]) * (amount[2] === '억' ? 100000000 : 1000000);
+    labels.push(t('rules.whatIf.amount', { amount: formatCurrency(locale, changes.loanAmount) }));
+  }
+
+  if (/고정금리|fixed/i.test(question) && inputs.rateType !== RateType.Fixed) {
+    changes.rateType = RateType.Fixed;
+    labels.push(t(`rateType.${RateType.Fixed}`));
+  }
+
+  return { changes, labels };
+};
+
+const UNSUPPORTED_EXAMPLES: MessageKey[] = [
+  'rules.example.term',
+  'rules.example.rate',
+  'rules.example.amount',
+  'rules.example.grace',
+  'rules.example.fixed',
+];
+
+export const answerWhatIf = (inputs: LoanInputs, result: CalculationResult, question: string, locale: Locale): string => {
+  const t = translator(locale);
+  const won = (val: number) => formatCurrency(locale, val);
+  const { changes, labels } = parseWhatIf(inputs, question, locale);
+  if (labels.length === 0) {
+    return [t('rules.unsupported'), '', ...UNSUPPORTED_EXAMPLES.map((key) => `- ${t(key)}`)].join('\n');
+  }
+
+  const next = calculateDsr({ ...inputs, ...changes });
+  const delta = next.dsrRatio - result.dsrRatio;
+  const cap = DSR_CAP_PRESETS.Bank;
+  const capStatus = t(next.dsrRatio <= cap ? 'rules.answer.meetsCap' : 'rules.answer.exceedsCap', { cap });
+
+  return [
+    t('rules.answer.title', { changes: labels.join(', ') }),
+    '',
+    `- DSR: ${pct(result.dsrRatio)} → **${pct(next.dsrRatio)}**`,
+    `- ${t('results.avgMonthlyPayment')}: ${won(result.avgMonthlyPayment)} → **${won(next.avgMonthlyPayment)}**`,
+    `- ${t('results.interestTotal')}: ${won(result.totalInterest)} → **${won(next.totalInterest)}**`,
+    '',
+    Math.abs(delta) < 0.01
+      ? t('rules.answer.noChange')
+      : t(delta > 0 ? 'rules.answer.up' : 'rules.answer.down', { delta: pctPoint(delta), capStatus }),
+  ].join('\n');
+};
+
+const createRuleBasedSession = (inputs: LoanInputs, result: CalculationResult, locale: Locale): AnalysisSession => ({
+  analyze: async (onPartial, signal) => {
+    if (signal?.aborted) return null;
+    const analysis = analyzeScenario(inputs, result, locale);
+    onPartial(analysis);
+    return analysis;
+  },
+  ask: async (question, onText, signal) => {
+    if (signal?.aborted) return null;
+    const answer = answerWhatIf(inputs, result, question, locale);
+    onText(answer);
+    return answer;
+  },
+});
+
+export const ruleBasedProvider: AnalysisProvider = {
+  id: 'rules',
+  isAvailable: () => true,
+  requiresNetwork: false,
+  createSession: createRuleBasedSession,
+};
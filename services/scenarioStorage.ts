@@ -0,0 +1,57 @@
+import { LoanInputs, SavedScenario } from "../types";
+import { DEFAULT_LOAN_INPUTS } from "../constants";
+
+const STORAGE_KEY = 'smart-dsr:scenarios';
+
+export const MAX_COMPARED_SCENARIOS = 4;
+
+// Fill fields added after a scenario was saved so older entries keep loading
+export const withInputDefaults = (inputs: Partial<LoanInputs>): LoanInputs => ({
+  ...DEFAULT_LOAN_INPUTS,
+  ...inputs,
+  income: {
+    ...DEFAULT_LOAN_INPUTS.income,
+    manualAnnualIncome: inputs.annualIncome ?? DEFAULT_LOAN_INPUTS.annualIncome,
+    ...inputs.income,
+  },
+  ratePath: { ...DEFAULT_LOAN_INPUTS.ratePath, ...inputs.ratePath },
+  property: { ...DEFAULT_LOAN_INPUTS.property, ...inputs.property },
+  stressDsr: { ...DEFAULT_LOAN_INPUTS.stressDsr, ...inputs.stressDsr },
+  prepayment: {
+    ...DEFAULT_LOAN_INPUTS.prepayment,
+    ...inputs.prepayment,
+    feeRule: { ...DEFAULT_LOAN_INPUTS.prepayment.feeRule, ...inputs.prepayment?.feeRule },
+  },
+  calendar: { ...DEFAULT_LOAN_INPUTS.calendar, ...inputs.calendar },
+});
+
+export const loadScenarios = (): SavedScenario[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((s) => s && typeof s.id === 'string' && typeof s.name === 'string' && s.inputs)
+      .map((s) => ({ ...s, inputs: withInputDefaults(s.inputs) }));
+  } catch (error) {
+    console.error("Failed to load saved scenarios:", error);
+    return [];
+  }
+};
+
+export const persistScenarios = (scenarios: SavedScenario[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (error) {
+    console.error("Failed to save scenarios:", error);
+  }
+};
+
+export const createScenario = (name: string, inputs: LoanInputs): SavedScenario => ({
+  id: crypto.randomUUID(),
+  name,
+  inputs,
+  savedAt: new Date().toISOString(),
+});
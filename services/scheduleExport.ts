@@ -0,0 +1,175 @@
+import * as XLSX from "xlsx";
+import { CalculationResult, Locale, LoanInputs, MonthlyPayment } from "../types";
+import { MessageKey, MessageParams, translate } from "./i18n";
+
+export interface ScheduleRow extends MonthlyPayment {
+  year: number; // 연차
+  isGrace: boolean;
+  cumulativePrincipal: number; // Includes prepayments
+  cumulativeInterest: number;
+}
+
+export interface ScheduleYear {
+  year: number;
+  rows: ScheduleRow[];
+  payment: number;
+  principal: number;
+  interest: number;
+  prepayment: number;
+  endBalance: number;
+  hasGrace: boolean;
+}
+
+export const buildScheduleRows = (schedule: MonthlyPayment[], graceMonths: number): ScheduleRow[] => {
+  let cumulativePrincipal = 0;
+  let cumulativeInterest = 0;
+
+  return schedule.map((p) => {
+    cumulativePrincipal += p.principal + (p.prepayment || 0);
+    cumulativeInterest += p.interest;
+    return {
+      ...p,
+      year: Math.ceil(p.month / 12),
+      isGrace: p.month <= graceMonths,
+      cumulativePrincipal,
+      cumulativeInterest,
+    };
+  });
+};
+
+// Group schedule rows by loan year with yearly subtotals
+export const groupScheduleByYear = (rows: ScheduleRow[]): ScheduleYear[] => {
+  const years: ScheduleYear[] = [];
+
+  rows.forEach((row) => {
+    let group = years[years.length - 1];
+    if (!group || group.year !== row.year) {
+      group = { year: row.year, rows: [], payment: 0, principal: 0, interest: 0, prepayment: 0, endBalance: 0, hasGrace: false };
+      years.push(group);
+    }
+    group.rows.push(row);
+    group.payment += row.payment;
+    group.principal += row.principal;
+    group.interest += row.interest;
+    group.prepayment += row.prepayment || 0;
+    group.endBalance = row.balance;
+    group.hasGrace = group.hasGrace || row.isGrace;
+  });
+
+  return years;
+};
+
+// Input assumptions as label/value pairs for the export header
+export const buildAssumptionRows = (inputs: LoanInputs, result: CalculationResult, locale: Locale): (string | number)[][] => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const { stressPolicy } = result;
+  return [
+    [t(inputs.income.enabled ? 'inputs.recognizedIncome' : 'comparison.annualIncome'), Math.round(inputs.annualIncome)],
+    [t('inputs.loanAmount'), Math.round(inputs.loanAmount)],
+    [t('export.interestRate'), inputs.interestRate],
+    [t('inputs.rateType'), t(`rateType.${inputs.rateType}`)],
+    [t('export.loanTerm'), inputs.loanTermYear],
+    [t('export.gracePeriod'), inputs.gracePeriodYear],
+    [t('inputs.repaymentMethod'), t(`repaymentMethod.${inputs.repaymentMethod}`)],
+    ...(result.monthlyPayments[0]?.date
+      ? [
+          [t('calendar.startDate'), inputs.calendar.startDate],
+          [t('calendar.paymentDay'), t('export.paymentDayValue', { day: inputs.calendar.paymentDay })],
+          [t('calendar.dayCount'), t(`dayCount.${inputs.calendar.dayCount}`)],
+        ]
+      : []),
+    [t('inputs.collateralType'), t(`collateral.${inputs.collateralType}`)],
+    [t('stressPolicy.title'), stressPolicy.spread > 0 ? `${t(stressPolicy.label)} +${stressPolicy.spread.toFixed(2)}%p` : t('stressPolicy.none')],
+    ['DSR (%)', Number(result.dsrRatio.toFixed(2))],
+    [t('results.interestTotal'), Math.round(result.totalInterest)],
+    [t('results.avgMonthlyPayment'), Math.round(result.avgMonthlyPayment)],
+  ];
+};
+
+const SCHEDULE_COLUMNS: MessageKey[] = [
+  'results.installment',
+  'export.column.year',
+  'export.column.kind',
+  'export.column.rate',
+  'results.monthlyPayment',
+  'results.principal',
+  'results.interest',
+  'export.column.prepayment',
+  'schedule.cumulativePrincipal',
+  'schedule.cumulativeInterest',
+  'schedule.balance',
+];
+
+// Extra columns after the installment number for schedules with a start date
+const DATED_COLUMNS: MessageKey[] = ['export.column.paymentDate', 'export.column.interestDays'];
+
+export const isDatedSchedule = (rows: MonthlyPayment[]) => rows[0]?.date !== undefined;
+
+// Index of the grace/repayment column, which is centered in tables
+export const scheduleKindColumn = (dated: boolean) => (dated ? 2 + DATED_COLUMNS.length : 2);
+
+export const scheduleHeader = (dated: boolean, locale: Locale): string[] =>
+  (dated ? [SCHEDULE_COLUMNS[0], ...DATED_COLUMNS, ...SCHEDULE_COLUMNS.slice(1)] : SCHEDULE_COLUMNS)
+    .map((key) => translate(locale, key));
+
+export const toScheduleRow = (row: ScheduleRow, locale: Locale): (string | number)[] => [
+  row.month,
+  ...(row.date ? [row.date, row.days ?? 0] : []),
+  row.year,
+  translate(locale, row.isGrace ? 'schedule.grace' : 'export.repaying'),
+  Number(row.rate.toFixed(3)),
+  Math.round(row.payment),
+  Math.round(row.principal),
+  Math.round(row.interest),
+  Math.round(row.prepayment || 0),
+  Math.round(row.cumulativePrincipal),
+  Math.round(row.cumulativeInterest),
+  Math.round(row.balance),
+];
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const exportFilename = (extension: string) =>
+  `DSR_Schedule_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportScheduleCsv = (inputs: LoanInputs, result: CalculationResult, rows: ScheduleRow[], locale: Locale) => {
+  const lines = [
+    ...buildAssumptionRows(inputs, result, locale),
+    [],
+    scheduleHeader(isDatedSchedule(rows), locale),
+    ...rows.map((row) => toScheduleRow(row, locale)),
+  ].map((line) => line.map(csvCell).join(','));
+
+  // BOM so that Excel opens the headers as UTF-8
+  downloadBlob(new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8' }), exportFilename('csv'));
+};
+
+export const exportScheduleXlsx = (inputs: LoanInputs, result: CalculationResult, rows: ScheduleRow[], locale: Locale) => {
+  const workbook = XLSX.utils.book_new();
+
+  const assumptions = XLSX.utils.aoa_to_sheet([
+    [translate(locale, 'export.item'), translate(locale, 'export.value')],
+    ...buildAssumptionRows(inputs, result, locale),
+  ]);
+  assumptions['!cols'] = [{ wch: 16 }, { wch: 24 }];
+  XLSX.utils.book_append_sheet(workbook, assumptions, translate(locale, 'export.assumptionsSheet'));
+
+  const header = scheduleHeader(isDatedSchedule(rows), locale);
+  const schedule = XLSX.utils.aoa_to_sheet([header, ...rows.map((row) => toScheduleRow(row, locale))]);
+  schedule['!cols'] = header.map(() => ({ wch: 14 }));
+  XLSX.utils.book_append_sheet(workbook, schedule, translate(locale, 'schedule.title'));
+
+  XLSX.writeFile(workbook, exportFilename('xlsx'));
+};
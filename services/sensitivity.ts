@@ -0,0 +1,123 @@
+import { LoanInputs, SensitivityGrid, SensitivityVariable, TornadoBar } from "../types";
+import { calculateDsr } from "./dsrEngine";
+import { MAX_SOLVER_TERM_YEAR } from "./dsrSolver";
+
+// Grid points on each side of the current value
+const GRID_STEPS = 4;
+
+// Distance between neighbouring grid points
+const GRID_STEP: Record<SensitivityVariable, (current: number) => number> = {
+  interestRate: () => 0.5, // %p
+  loanTermYear: () => 5, // years
+  loanAmount: (current) => current * 0.1,
+  annualIncome: (current) => current * 0.1,
+  gracePeriodYear: () => 1,
+  existingDebts: (current) => current * 0.1,
+};
+
+// How far each input is moved down and up for the tornado chart
+const TORNADO_SHIFT: Record<SensitivityVariable, (current: number) => number> = {
+  interestRate: () => 1, // %p
+  loanTermYear: () => 5,
+  loanAmount: (current) => current * 0.2,
+  annualIncome: (current) => current * 0.2,
+  gracePeriodYear: () => 1,
+  existingDebts: (current) => current * 0.2,
+};
+
+const totalDebtBalance = (inputs: LoanInputs) => inputs.existingDebts.reduce((sum, d) => sum + d.balance, 0);
+
+export const sensitivityValue = (inputs: LoanInputs, variable: SensitivityVariable): number =>
+  variable === 'existingDebts' ? totalDebtBalance(inputs) : inputs[variable];
+
+const withValue = (inputs: LoanInputs, variable: SensitivityVariable, value: number): LoanInputs => {
+  if (variable !== 'existingDebts') return { ...inputs, [variable]: value };
+  const current = totalDebtBalance(inputs);
+  const scale = current > 0 ? value / current : 0;
+  return { ...inputs, existingDebts: inputs.existingDebts.map((d) => ({ ...d, balance: d.balance * scale })) };
+};
+
+// Values the engine can calculate: the term must outlast the grace period, and the
+// grace period must leave at least a year of repayment
+const isValid = (inputs: LoanInputs, variable: SensitivityVariable, value: number): boolean => {
+  switch (variable) {
+    case 'interestRate':
+      return value > 0;
+    case 'loanTermYear':
+      return value > inputs.gracePeriodYear && value <= MAX_SOLVER_TERM_YEAR;
+    case 'annualIncome':
+      return value > 0;
+    case 'gracePeriodYear':
+      return value >= 0 && value < inputs.loanTermYear;
+    default:
+      return value >= 0;
+  }
+};
+
+const dsrAt = (inputs: LoanInputs, variable: SensitivityVariable, value: number) =>
+  calculateDsr(withValue(inputs, variable, value)).dsrRatio;
+
+// Rounded so that 4.5 + 0.5 * k lands on tidy values for display and comparison
+const roundGridValue = (variable: SensitivityVariable, value: number) =>
+  variable === 'interestRate' ? Math.round(value * 100) / 100 : Math.round(value);
+
+const gridValues = (inputs: LoanInputs, variable: SensitivityVariable): number[] => {
+  const current = sensitivityValue(inputs, variable);
+  const step = GRID_STEP[variable](current);
+  if (step <= 0) return [current];
+
+  const values: number[] = [];
+  for (let k = -GRID_STEPS; k <= GRID_STEPS; k++) {
+    const value = roundGridValue(variable, current + k * step);
+    if (isValid(inputs, variable, value)) values.push(value);
+  }
+  return values;
+};
+
+// DSR over every combination of two inputs, each spread around its current value.
+// Rows and columns are in ascending order; the current scenario sits in the middle.
+export const buildDsrGrid = (
+  inputs: LoanInputs,
+  rowVariable: SensitivityVariable,
+  columnVariable: SensitivityVariable
+): SensitivityGrid => {
+  const rows = gridValues(inputs, rowVariable);
+  const columns = gridValues(inputs, columnVariable);
+  const dsr = rows.map((rowValue) => {
+    const rowInputs = withValue(inputs, rowVariable, rowValue);
+    return columns.map((columnValue) => dsrAt(rowInputs, columnVariable, columnValue));
+  });
+
+  return {
+    rowVariable,
+    columnVariable,
+    rows,
+    columns,
+    dsr,
+    currentRow: rows.indexOf(roundGridValue(rowVariable, sensitivityValue(inputs, rowVariable))),
+    currentColumn: columns.indexOf(roundGridValue(columnVariable, sensitivityValue(inputs, columnVariable))),
+  };
+};
+
+// One-at-a-time sensitivity: each input is moved down and up while the others stay put.
+// Sorted by how far the DSR swings, widest first.
+export const buildTornado = (inputs: LoanInputs): TornadoBar[] => {
+  const variables: SensitivityVariable[] = ['interestRate', 'loanTermYear', 'loanAmount', 'annualIncome', 'gracePeriodYear'];
+  if (inputs.existingDebts.length > 0) variables.push('existingDebts');
+
+  const clampTo = (variable: SensitivityVariable, current: number, value: number) =>
+    isValid(inputs, variable, value) ? value : current;
+
+  return variables
+    .map((variable): TornadoBar => {
+      const current = sensitivityValue(inputs, variable);
+      const shift = TORNADO_SHIFT[variable](current);
+      const lowValue = clampTo(variable, current, current - shift);
+      const highValue = clampTo(variable, current, current + shift);
+      const lowDsr = dsrAt(inputs, variable, lowValue);
+      const highDsr = dsrAt(inputs, variable, highValue);
+      return { variable, lowValue, highValue, lowDsr, highDsr, swing: Math.abs(highDsr - lowDsr) };
+    })
+    .filter((bar) => bar.lowValue !== bar.highValue)
+    .sort((a, b) => b.swing - a.swing);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShareLink, encodeShareLink, ShareLinkResult } from './shareLink';
+import { recognizeIncome } from './incomeRules';
+import { DEFAULT_LOAN_INPUTS, RULES_VERSION } from '../constants';
+import { DebtType, IncomeOwner, IncomeType, LoanInputs, RepaymentMethod } from '../types';
+
+const encodePayload = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decodeValid = (encoded: string) => {
+  const decoded = decodeShareLink(encoded);
+  if (!('inputs' in decoded)) throw new Error(decoded.error);
+  return decoded as Extract<ShareLinkResult, { ok: true }>;
+};
+
+const INPUTS: LoanInputs = {
+  ...DEFAULT_LOAN_INPUTS,
+  loanAmount: 250000000,
+  existingDebts: [{
+    id: 'debt-1',
+    type: DebtType.Credit,
+    balance: 20000000,
+    interestRate: 5.2,
+    remainingTermYear: 3,
+    repaymentMethod: RepaymentMethod.Bullet,
+  }],
+  prepayment: {
+    ...DEFAULT_LOAN_INPUTS.prepayment,
+    prepayments: [{ id: 'p-1', month: 12, amount: 10000000, repeatIntervalMonth: 12 }],
+  },
+};
+
+describe('encodeShareLink / decodeShareLink', () => {
+  it('round-trips the inputs with fresh client-side ids', () => {
+    const decoded = decodeValid(encodeShareLink(INPUTS));
+
+    expect(decoded.outdated).toBe(false);
+    expect(decoded.rulesVersion).toBe(RULES_VERSION);
+    expect(decoded.inputs.existingDebts[0].id).not.toBe('debt-1');
+    expect({
+      ...decoded.inputs,
+      existingDebts: decoded.inputs.existingDebts.map((d) => ({ ...d, id: 'debt-1' })),
+      prepayment: { ...decoded.inputs.prepayment, prepayments: decoded.inputs.prepayment.prepayments.map((p) => ({ ...p, id: 'p-1' })) },
+    }).toEqual(INPUTS);
+  });
+
+  it('uses URL-safe characters only', () => {
+    const encoded = encodeShareLink({ ...INPUTS, calendar: { ...INPUTS.calendar, startDate: '2025-03-01' } });
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeValid(encoded).inputs.calendar.startDate).toBe('2025-03-01');
+  });
+
+  it('recomputes the income from the builder sources', () => {
+    const income = {
+      ...INPUTS.income,
+      enabled: true,
+      sources: [{ id: 's-1', type: IncomeType.Earned, owner: IncomeOwner.Borrower, amount: 60000000 }],
+    };
+    const decoded = decodeValid(encodeShareLink({ ...INPUTS, annualIncome: 1, income }));
+    expect(decoded.inputs.annualIncome).toBe(recognizeIncome(income).total);
+  });
+
+  it('fills fields added after the link was created', () => {
+    const { calendar, ...older } = INPUTS;
+    const decoded = decodeValid(encodePayload({ v: 1, r: '2025.01', i: older }));
+    expect(decoded.outdated).toBe(true);
+    expect(decoded.inputs.calendar).toEqual(DEFAULT_LOAN_INPUTS.calendar);
+  });
+});
+
+describe('decodeShareLink errors', () => {
+  it('rejects a link from a newer format version', () => {
+    expect(decodeShareLink(encodePayload({ v: 99, r: RULES_VERSION, i: INPUTS }))).toEqual({ ok: false, error: 'shareLink.newerVersion' });
+  });
+
+  it('rejects a payload without a version', () => {
+    expect(decodeShareLink(encodePayload({ i: INPUTS }))).toEqual({ ok: false, error: 'shareLink.unrecognized' });
+  });
+
+  it('reports corrupt input as unreadable', () => {
+    expect(decodeShareLink('%%%')).toEqual({ ok: false, error: 'shareLink.unreadable' });
+    expect(decodeShareLink(encodeShareLink(INPUTS).slice(0, 40))).toEqual({ ok: false, error: 'shareLink.unreadable' });
+  });
+
+  it('names the field that fails validation', () => {
+    const payload = { v: 1, r: RULES_VERSION, i: { ...INPUTS, loanAmount: 'lots' } };
+    expect(decodeShareLink(encodePayload(payload))).toEqual({
+      ok: false,
+      error: 'shareLink.invalidField',
+      params: { field: 'loanAmount' },
+    });
+  });
+
+  it('reports a missing payload', () => {
+    expect(decodeShareLink(encodePayload({ v: 1, r: RULES_VERSION, i: null }))).toEqual({ ok: false, error: 'shareLink.missingInputs' });
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  BorrowerStatus,
+  CollateralType,
+  DayCountConvention,
+  DebtType,
+  ExistingDebt,
+  IncomeOwner,
+  IncomeSettings,
+  IncomeSource,
+  IncomeType,
+  LoanInputs,
+  Prepayment,
+  PrepaymentStrategy,
+  RateChange,
+  RatePathMode,
+  RateType,
+  Region,
+  RegulationZone,
+  RepaymentMethod,
+} from "../types";
+import { RULES_VERSION } from "../constants";
+import { withInputDefaults } from "./scenarioStorage";
+import { recognizeIncome } from "./incomeRules";
+import { parseLoanDate } from "./dayCount";
+import { MessageKey, MessageParams } from "./i18n";
+
+// Query parameter holding the encoded scenario
+export const SHARE_PARAM = 's';
+
+// Bump when the payload layout changes; older layouts need a migration in decodeShareLink
+const SHARE_FORMAT_VERSION = 1;
+
+interface SharePayload {
+  v: number; // Payload format version
+  r: string; // RULES_VERSION the link was created with
+  i: unknown; // LoanInputs without client-side ids
+}
+
+export type ShareLinkResult =
+  | { ok: true; inputs: LoanInputs; outdated: boolean; rulesVersion: string }
+  | { ok: false; error: MessageKey; params?: MessageParams }; // Translated by the caller
+
+// --- base64url over UTF-8 JSON ---
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+// --- validation ---
+
+class InvalidShareLinkError extends Error {
+  key: MessageKey;
+  params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key);
+    this.key = key;
+    this.params = params;
+  }
+}
+
+const invalidField = (key: string) => new InvalidShareLinkError('shareLink.invalidField', { field: key });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const num = (source: Record<string, unknown>, key: string): number => {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalidField(key);
+  return value;
+};
+
+const oneOf = <T extends string>(source: Record<string, unknown>, key: string, allowed: Record<string, T>): T => {
+  const value = source[key];
+  if (!Object.values(allowed).includes(value as T)) throw invalidField(key);
+  return value as T;
+};
+
+const record = (source: Record<string, unknown>, key: string): Record<string, unknown> => {
+  const value = source[key];
+  if (!isRecord(value)) throw new InvalidShareLinkError('shareLink.missingField', { field: key });
+  return value;
+};
+
+const list = (source: Record<string, unknown>, key: string): Record<string, unknown>[] => {
+  const value = source[key];
+  if (!Array.isArray(value) || !value.every(isRecord)) throw invalidField(key);
+  return value;
+};
+
+const parseInputs = (payloadInputs: unknown): LoanInputs => {
+  if (!isRecord(payloadInputs)) throw new InvalidShareLinkError('shareLink.missingInputs');
+
+  // Fields added after the link was created fall back to their defaults
+  const raw: Record<string, unknown> = { ...withInputDefaults(payloadInputs as Partial<LoanInputs>) };
+
+  const income = record(raw, 'income');
+  const ratePath = record(raw, 'ratePath');
+  const property = record(raw, 'property');
+  const stressDsr = record(raw, 'stressDsr');
+  const prepayment = record(raw, 'prepayment');
+  const feeRule = record(prepayment, 'feeRule');
+  const calendar = record(raw, 'calendar');
+
+  if (typeof stressDsr.policyId !== 'string') throw invalidField('policyId');
+  if (calendar.startDate !== '' && !(typeof calendar.startDate === 'string' && parseLoanDate(calendar.startDate))) {
+    throw invalidField('startDate');
+  }
+
+  const incomeSettings: IncomeSettings = {
+    enabled: income.enabled === true,
+    sources: list(income, 'sources').map((source): IncomeSource => ({
+      id: crypto.randomUUID(),
+      type: oneOf(source, 'type', IncomeType),
+      owner: oneOf(source, 'owner', IncomeOwner),
+      amount: num(source, 'amount'),
+    })),
+    combineCoBorrower: income.combineCoBorrower === true,
+    manualAnnualIncome: num(income, 'manualAnnualIncome'),
+  };
+
+  return {
+    // Recomputed rather than trusted, so the income always matches its breakdown
+    annualIncome: incomeSettings.enabled ? recognizeIncome(incomeSettings).total : num(raw, 'annualIncome'),
+    income: incomeSettings,
+    loanAmount: num(raw, 'loanAmount'),
+    interestRate: num(raw, 'interestRate'),
+    rateType: oneOf(raw, 'rateType', RateType),
+    fixedPeriodYear: num(raw, 'fixedPeriodYear'),
+    ratePath: {
+      mode: oneOf(ratePath, 'mode', RatePathMode),
+      indexRate: num(ratePath, 'indexRate'),
+      spread: num(ratePath, 'spread'),
+      indexStepPerReset: num(ratePath, 'indexStepPerReset'),
+      variableResetMonth: num(ratePath, 'variableResetMonth'),
+      changes: list(ratePath, 'changes').map((c): RateChange => ({ month: num(c, 'month'), rate: num(c, 'rate') })),
+    },
+    loanTermYear: num(raw, 'loanTermYear'),
+    gracePeriodYear: num(raw, 'gracePeriodYear'),
+    repaymentMethod: oneOf(raw, 'repaymentMethod', RepaymentMethod),
+    collateralType: oneOf(raw, 'collateralType', CollateralType),
+    property: {
+      price: num(property, 'price'),
+      zone: oneOf(property, 'zone', RegulationZone),
+      borrowerStatus: oneOf(property, 'borrowerStatus', BorrowerStatus),
+    },
+    stressDsr: {
+      policyId: stressDsr.policyId,
+      region: oneOf(stressDsr, 'region', Region),
+      customSpread: num(stressDsr, 'customSpread'),
+    },
+    existingDebts: list(raw, 'existingDebts').map((d): ExistingDebt => ({
+      id: crypto.randomUUID(),
+      type: oneOf(d, 'type', DebtType),
+      balance: num(d, 'balance'),
+      interestRate: num(d, 'interestRate'),
+      remainingTermYear: num(d, 'remainingTermYear'),
+      repaymentMethod: oneOf(d, 'repaymentMethod', RepaymentMethod),
+    })),
+    prepayment: {
+      prepayments: list(prepayment, 'prepayments').map((p): Prepayment => ({
+        id: crypto.randomUUID(),
+        month: num(p, 'month'),
+        amount: num(p, 'amount'),
+        repeatIntervalMonth: num(p, 'repeatIntervalMonth'),
+      })),
+      strategy: oneOf(prepayment, 'strategy', PrepaymentStrategy),
+      feeRule: {
+        feeRate: num(feeRule, 'feeRate'),
+        slidingPeriodYear: num(feeRule, 'slidingPeriodYear'),
+        annualExemptionAmount: num(feeRule, 'annualExemptionAmount'),
+      },
+    },
+    calendar: {
+      startDate: calendar.startDate as string,
+      paymentDay: num(calendar, 'paymentDay'),
+      dayCount: oneOf(calendar, 'dayCount', DayCountConvention),
+    },
+  };
+};
+
+// Client-side ids are regenerated on load, so they are left out of the link
+const stripIds = (inputs: LoanInputs) => ({
+  ...inputs,
+  income: { ...inputs.income, sources: inputs.income.sources.map(({ id, ...source }) => source) },
+  existingDebts: inputs.existingDebts.map(({ id, ...debt }) => debt),
+  prepayment: {
+    ...inputs.prepayment,
+    prepayments: inputs.prepayment.prepayments.map(({ id, ...p }) => p),
+  },
+});
+
+export const encodeShareLink = (inputs: LoanInputs): string => {
+  const payload: SharePayload = { v: SHARE_FORMAT_VERSION, r: RULES_VERSION, i: stripIds(inputs) };
+  return toBase64Url(JSON.stringify(payload));
+};
+
+export const decodeShareLink = (encoded: string): ShareLinkResult => {
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded));
+    if (!isRecord(payload) || typeof payload.v !== 'number' || typeof payload.r !== 'string') {
+      return { ok: false, error: 'shareLink.unrecognized' };
+    }
+    if (payload.v > SHARE_FORMAT_VERSION) {
+      return { ok: false, error: 'shareLink.newerVersion' };
+    }
+
+    return {
+      ok: true,
+      inputs: parseInputs(payload.i),
+      outdated: payload.r !== RULES_VERSION,
+      rulesVersion: payload.r,
+    };
+  } catch (error) {
+    if (error instanceof InvalidShareLinkError) {
+      return { ok: false, error: error.key, params: error.params };
+    }
+    return { ok: false, error: 'shareLink.unreadable' };
+  }
+};
+
+// Shareable URL of the current page for the given inputs
+export const buildShareUrl = (inputs: LoanInputs): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SHARE_PARAM, encodeShareLink(inputs));
+  return url.toString();
+};
+
+export const readShareParam = (): string | null =>
+  new URLSearchParams(window.location.search).get(SHARE_PARAM);
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUSTOM_STRESS_POLICY_ID,
+  findStressPolicy,
+  getCurrentStressPolicy,
+  NO_STRESS_POLICY_ID,
+  rateTypeWeight,
+  resolveStressPolicy,
+} from './stressPolicy';
+import { RateType, Region, StressDsrSettings } from '../types';
+
+const settings = (overrides: Partial<StressDsrSettings> = {}): StressDsrSettings => ({
+  policyId: 'stage3',
+  region: Region.Capital,
+  customSpread: 0,
+  ...overrides,
+});
+
+describe('getCurrentStressPolicy', () => {
+  it('picks the latest preset in force on the date', () => {
+    expect(getCurrentStressPolicy(new Date('2024-08-31')).id).toBe('stage1');
+    expect(getCurrentStressPolicy(new Date('2025-07-01')).id).toBe('stage3');
+    expect(getCurrentStressPolicy(new Date('2025-10-16')).id).toBe('stage3-2025-10');
+  });
+
+  it('falls back to the first preset before the rollout', () => {
+    expect(getCurrentStressPolicy(new Date('2023-01-01')).id).toBe('stage1');
+  });
+});
+
+describe('rateTypeWeight', () => {
+  const stage3 = findStressPolicy('stage3')!;
+
+  it('applies no spread to fixed and the full spread to variable loans', () => {
+    expect(rateTypeWeight(stage3, RateType.Fixed, 0)).toBe(0);
+    expect(rateTypeWeight(stage3, RateType.Variable, 0)).toBe(1);
+  });
+
+  it('weights mixed and periodic loans by their fixed period', () => {
+    expect(rateTypeWeight(stage3, RateType.Mixed, 5)).toBe(0.8);
+    expect(rateTypeWeight(stage3, RateType.Periodic, 10)).toBe(0.4);
+  });
+
+  it('treats a fixed period shorter than every bracket as variable', () => {
+    expect(rateTypeWeight(stage3, RateType.Mixed, 3)).toBe(1);
+    expect(rateTypeWeight(stage3, RateType.Periodic, 4)).toBe(1);
+  });
+});
+
+describe('resolveStressPolicy', () => {
+  it('uses the spread of the borrower region', () => {
+    expect(resolveStressPolicy(settings(), RateType.Variable, 0).spread).toBe(1.5);
+    expect(resolveStressPolicy(settings({ region: Region.NonCapital }), RateType.Variable, 0).spread).toBe(0.75);
+    // 2025.10.16 대책: 수도권·규제지역 3.0%p
+    expect(resolveStressPolicy(settings({ policyId: 'stage3-2025-10' }), RateType.Variable, 0).spread).toBe(3);
+  });
+
+  it('multiplies the base spread by the rate-type weight', () => {
+    const applied = resolveStressPolicy(settings({ policyId: 'stage2' }), RateType.Mixed, 5);
+    expect(applied.baseSpread).toBe(1.2);
+    expect(applied.weight).toBe(0.6);
+    expect(applied.spread).toBeCloseTo(0.72, 10);
+    expect(applied.effectiveDate).toBe('2024-09-01');
+  });
+
+  it('applies a custom spread in full regardless of rate type', () => {
+    const applied = resolveStressPolicy(settings({ policyId: CUSTOM_STRESS_POLICY_ID, customSpread: 2 }), RateType.Fixed, 0);
+    expect(applied.policyId).toBe(CUSTOM_STRESS_POLICY_ID);
+    expect(applied.spread).toBe(2);
+  });
+
+  it('applies no stress for an unknown or disabled policy', () => {
+    expect(resolveStressPolicy(settings({ policyId: NO_STRESS_POLICY_ID }), RateType.Variable, 0).spread).toBe(0);
+    expect(resolveStressPolicy(settings({ policyId: 'stage9' }), RateType.Variable, 0).policyId).toBe(NO_STRESS_POLICY_ID);
+  });
+});
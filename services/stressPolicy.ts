@@ -0,0 +1,129 @@
+import { AppliedStressPolicy, RateType, Region, StressDsrSettings } from "../types";
+import { MessageKey } from "./i18n";
+
+// Rate-type weight bracket: applies when the fixed/reset period is at least `minFixedYear`
+interface WeightBracket {
+  minFixedYear: number;
+  weight: number;
+}
+
+export interface StressPolicy {
+  id: string;
+  label: MessageKey;
+  effectiveDate: string; // YYYY-MM-DD
+  description: MessageKey;
+  spreads: Record<Region, number>; // 스트레스 금리 applied in full to variable-rate loans (%p)
+  mixedWeights: WeightBracket[]; // 혼합형, by fixed period
+  periodicWeights: WeightBracket[]; // 주기형, by reset period
+}
+
+export const NO_STRESS_POLICY_ID = 'none';
+export const CUSTOM_STRESS_POLICY_ID = 'custom';
+
+// Versioned presets of the phased stress DSR rollout, oldest first.
+// Mixed/periodic loans whose fixed period is shorter than every bracket are treated as variable.
+export const STRESS_POLICIES: StressPolicy[] = [
+  {
+    id: 'stage1',
+    label: 'stressPolicy.stage1.label',
+    effectiveDate: '2024-02-26',
+    description: 'stressPolicy.stage1.description',
+    spreads: { [Region.Capital]: 0.38, [Region.NonCapital]: 0.38 },
+    mixedWeights: [{ minFixedYear: 5, weight: 0.6 }],
+    periodicWeights: [{ minFixedYear: 5, weight: 0.3 }],
+  },
+  {
+    id: 'stage2',
+    label: 'stressPolicy.stage2.label',
+    effectiveDate: '2024-09-01',
+    description: 'stressPolicy.stage2.description',
+    spreads: { [Region.Capital]: 1.2, [Region.NonCapital]: 0.75 },
+    mixedWeights: [{ minFixedYear: 5, weight: 0.6 }],
+    periodicWeights: [{ minFixedYear: 5, weight: 0.3 }],
+  },
+  {
+    id: 'stage3',
+    label: 'stressPolicy.stage3.label',
+    effectiveDate: '2025-07-01',
+    description: 'stressPolicy.stage3.description',
+    spreads: { [Region.Capital]: 1.5, [Region.NonCapital]: 0.75 },
+    mixedWeights: [{ minFixedYear: 5, weight: 0.8 }],
+    periodicWeights: [{ minFixedYear: 5, weight: 0.4 }],
+  },
+  {
+    id: 'stage3-2025-10',
+    label: 'stressPolicy.stage3-2025-10.label',
+    effectiveDate: '2025-10-16',
+    description: 'stressPolicy.stage3-2025-10.description',
+    spreads: { [Region.Capital]: 3.0, [Region.NonCapital]: 0.75 },
+    mixedWeights: [{ minFixedYear: 5, weight: 0.8 }],
+    periodicWeights: [{ minFixedYear: 5, weight: 0.4 }],
+  },
+];
+
+export const findStressPolicy = (policyId: string): StressPolicy | undefined =>
+  STRESS_POLICIES.find((p) => p.id === policyId);
+
+// Latest preset already in force on `date`
+export const getCurrentStressPolicy = (date: Date = new Date()): StressPolicy => {
+  const today = date.toISOString().slice(0, 10);
+  const inForce = STRESS_POLICIES.filter((p) => p.effectiveDate <= today);
+  return inForce.length > 0 ? inForce[inForce.length - 1] : STRESS_POLICIES[0];
+};
+
+const bracketWeight = (brackets: WeightBracket[], fixedPeriodYear: number): number => {
+  let weight = 1;
+  for (const bracket of brackets) {
+    if (fixedPeriodYear >= bracket.minFixedYear) weight = bracket.weight;
+  }
+  return weight;
+};
+
+// Share of the stress spread applied to a loan of the given rate type
+export const rateTypeWeight = (policy: StressPolicy, rateType: RateType, fixedPeriodYear: number): number => {
+  switch (rateType) {
+    case RateType.Fixed:
+      return 0;
+    case RateType.Mixed:
+      return bracketWeight(policy.mixedWeights, fixedPeriodYear);
+    case RateType.Periodic:
+      return bracketWeight(policy.periodicWeights, fixedPeriodYear);
+    default:
+      return 1;
+  }
+};
+
+// Resolve the stress settings into the spread added to the contract rate for DSR
+export const resolveStressPolicy = (
+  settings: StressDsrSettings,
+  rateType: RateType,
+  fixedPeriodYear: number
+): AppliedStressPolicy => {
+  if (settings.policyId === CUSTOM_STRESS_POLICY_ID) {
+    return {
+      policyId: CUSTOM_STRESS_POLICY_ID,
+      label: 'stressPolicy.custom',
+      effectiveDate: null,
+      baseSpread: settings.customSpread,
+      weight: 1,
+      spread: settings.customSpread,
+    };
+  }
+
+  const policy = findStressPolicy(settings.policyId);
+  if (!policy) {
+    return { policyId: NO_STRESS_POLICY_ID, label: 'stressPolicy.none', effectiveDate: null, baseSpread: 0, weight: 0, spread: 0 };
+  }
+
+  const baseSpread = policy.spreads[settings.region];
+  const weight = rateTypeWeight(policy, rateType, fixedPeriodYear);
+
+  return {
+    policyId: policy.id,
+    label: policy.label,
+    effectiveDate: policy.effectiveDate,
+    baseSpread,
+    weight,
+    spread: baseSpread * weight,
+  };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { hasErrors, MAX_INTEREST_RATE, validateDsrCap, validateInputs, validateRefinance } from './validation';
+import { CUSTOM_STRESS_POLICY_ID } from './stressPolicy';
+import { DEFAULT_REFINANCE_SETTINGS } from './refinance';
+import { DEFAULT_LOAN_INPUTS } from '../constants';
+import { LoanInputs, RateType, Region, RegulationZone } from '../types';
+
+const validate = (overrides: Partial<LoanInputs> = {}) => validateInputs({ ...DEFAULT_LOAN_INPUTS, ...overrides });
+const issueFor = (issues: ReturnType<typeof validate>, field: string) => issues.find((i) => i.field === field);
+
+describe('validateInputs', () => {
+  it('accepts the default scenario', () => {
+    expect(validate()).toEqual([]);
+  });
+
+  it('reports the first broken rule of a field', () => {
+    expect(issueFor(validate({ loanAmount: 0 }), 'loanAmount')?.message).toBe('validation.greaterThan');
+    expect(issueFor(validate({ interestRate: MAX_INTEREST_RATE + 1 }), 'interestRate')).toMatchObject({
+      message: 'validation.atMost',
+      params: { max: MAX_INTEREST_RATE },
+      severity: 'error',
+    });
+    expect(issueFor(validate({ loanTermYear: 10.5 }), 'loanTermYear')?.message).toBe('validation.integer');
+    expect(issueFor(validate({ gracePeriodYear: NaN }), 'gracePeriodYear')?.message).toBe('validation.number');
+  });
+
+  it('skips the entered income while the income builder is on', () => {
+    expect(issueFor(validate({ annualIncome: 0 }), 'annualIncome')).toBeDefined();
+    const income = { ...DEFAULT_LOAN_INPUTS.income, enabled: true };
+    expect(issueFor(validate({ annualIncome: 0, income }), 'annualIncome')).toBeUndefined();
+  });
+
+  it('rejects a grace period as long as the term', () => {
+    const issues = validate({ loanTermYear: 5, gracePeriodYear: 5 });
+    expect(issueFor(issues, 'gracePeriodYear')?.message).toBe('validation.graceTooLong');
+    expect(hasErrors(issues)).toBe(true);
+    expect(validate({ loanTermYear: 5, gracePeriodYear: 4 })).toEqual([]);
+  });
+
+  it('warns when a mixed-rate fixed period covers the whole term', () => {
+    const issues = validate({ rateType: RateType.Mixed, fixedPeriodYear: 10, loanTermYear: 10 });
+    expect(issueFor(issues, 'fixedPeriodYear')).toMatchObject({ message: 'validation.fixedPeriodCoversTerm', severity: 'warning' });
+    expect(hasErrors(issues)).toBe(false);
+  });
+
+  it('warns about housing terms over 30 years in the capital area or regulated zones', () => {
+    const capital = validate({ loanTermYear: 40 });
+    expect(issueFor(capital, 'loanTermYear')).toMatchObject({ message: 'validation.housingTermCap', severity: 'warning' });
+
+    const stressDsr = { ...DEFAULT_LOAN_INPUTS.stressDsr, region: Region.NonCapital };
+    expect(validate({ loanTermYear: 40, stressDsr })).toEqual([]);
+    const property = { ...DEFAULT_LOAN_INPUTS.property, zone: RegulationZone.Adjusted };
+    expect(issueFor(validate({ loanTermYear: 40, stressDsr, property }), 'loanTermYear')).toBeDefined();
+  });
+
+  it('checks the rate path only for non-fixed loans', () => {
+    const ratePath = { ...DEFAULT_LOAN_INPUTS.ratePath, variableResetMonth: 0 };
+    expect(validate({ ratePath })).toEqual([]);
+    expect(issueFor(validate({ ratePath, rateType: RateType.Variable }), 'ratePath.variableResetMonth')).toBeDefined();
+  });
+
+  it('checks the custom stress spread only when selected', () => {
+    const stressDsr = { ...DEFAULT_LOAN_INPUTS.stressDsr, customSpread: -1 };
+    expect(validate({ stressDsr })).toEqual([]);
+    const custom = validate({ stressDsr: { ...stressDsr, policyId: CUSTOM_STRESS_POLICY_ID } });
+    expect(issueFor(custom, 'stressDsr.customSpread')?.message).toBe('validation.atLeast');
+  });
+
+  it('rejects a start date that does not exist', () => {
+    const calendar = { ...DEFAULT_LOAN_INPUTS.calendar, startDate: '2025-02-30' };
+    expect(issueFor(validate({ calendar }), 'calendar.startDate')?.message).toBe('validation.date');
+  });
+});
+
+describe('validateRefinance', () => {
+  it('accepts the default comparison', () => {
+    expect(validateRefinance(DEFAULT_REFINANCE_SETTINGS)).toEqual([]);
+  });
+
+  it('requires a balance and a term for the current loan', () => {
+    const current = { ...DEFAULT_REFINANCE_SETTINGS.current, balance: 0, remainingTermYear: 0 };
+    const issues = validateRefinance({ ...DEFAULT_REFINANCE_SETTINGS, current });
+    expect(issues.map((i) => i.field)).toEqual(['current.balance', 'current.remainingTermYear']);
+  });
+});
+
+describe('validateDsrCap', () => {
+  it('accepts caps above 0 up to 100%', () => {
+    expect(validateDsrCap(45)).toEqual([]);
+    expect(validateDsrCap(100)).toEqual([]);
+    expect(validateDsrCap(0)[0].message).toBe('validation.greaterThan');
+    expect(validateDsrCap(-10)[0].message).toBe('validation.greaterThan');
+    expect(validateDsrCap(120)[0].message).toBe('validation.atMost');
+  });
+});
@@ -0,0 +1,171 @@
+import { CollateralType, LoanInputs, RatePathMode, RateType, RefinanceSettings, Region, RegulationZone } from "../types";
+import { MAX_SOLVER_TERM_YEAR } from "./dsrSolver";
+import { CUSTOM_STRESS_POLICY_ID } from "./stressPolicy";
+import { DEBT_RULES } from "./debtRules";
+import { parseLoanDate } from "./dayCount";
+import { yearsToMonths } from "./dsrEngine";
+import { MessageKey, MessageParams } from "./i18n";
+
+// 법정 최고금리 (이자제한법·대부업법)
+export const MAX_INTEREST_RATE = 20;
+
+// 수도권·규제지역 주택담보대출 최장 만기 (2025.6.27 가계부채 관리방안)
+export const REGULATED_HOUSING_MAX_TERM_YEAR = 30;
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  field: string; // Input path, e.g. 'loanTermYear' or 'existingDebts.<id>.balance'
+  label: MessageKey; // Name of the field for the summary list
+  labelParams?: MessageParams;
+  message: MessageKey;
+  params?: MessageParams;
+  severity: ValidationSeverity;
+}
+
+interface FieldRule {
+  min?: number;
+  minExclusive?: boolean; // Require value > min instead of >= min
+  max?: number;
+  integer?: boolean;
+}
+
+type FieldLabel = Pick<ValidationIssue, 'label' | 'labelParams'>;
+
+// First broken rule of a numeric field, checked in the order a user would fix them
+const checkField = (
+  issues: ValidationIssue[],
+  field: string,
+  label: FieldLabel,
+  value: number,
+  rule: FieldRule
+) => {
+  const error = (message: MessageKey, params?: MessageParams) =>
+    issues.push({ field, ...label, message, params, severity: 'error' });
+
+  if (!Number.isFinite(value)) error('validation.number');
+  else if (rule.min !== undefined && rule.minExclusive && value <= rule.min) error('validation.greaterThan', { min: rule.min });
+  else if (rule.min !== undefined && value < rule.min) error('validation.atLeast', { min: rule.min });
+  else if (rule.max !== undefined && value > rule.max) error('validation.atMost', { max: rule.max });
+  else if (rule.integer && !Number.isInteger(value)) error('validation.integer');
+};
+
+const YEARS: FieldRule = { min: 0, integer: true };
+const RATE: FieldRule = { min: 0, max: MAX_INTEREST_RATE };
+const AMOUNT: FieldRule = { min: 0 };
+
+// Per-field rules plus cross-field checks. Errors make the scenario impossible to calculate
+// meaningfully; warnings flag scenarios that compute but would not be approved as entered.
+export const validateInputs = (inputs: LoanInputs): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const check = (field: string, label: MessageKey, value: number, rule: FieldRule) =>
+    checkField(issues, field, { label }, value, rule);
+  const cross = (field: string, label: MessageKey, message: MessageKey, severity: ValidationSeverity, params?: MessageParams) =>
+    issues.push({ field, label, message, params, severity });
+
+  // Income builder totals are always positive (the minimum income is substituted)
+  if (!inputs.income.enabled) check('annualIncome', 'inputs.annualIncome', inputs.annualIncome, { min: 0, minExclusive: true });
+  check('loanAmount', 'inputs.loanAmount', inputs.loanAmount, { min: 0, minExclusive: true });
+  check('interestRate', 'inputs.interestRate', inputs.interestRate, RATE);
+  check('loanTermYear', 'inputs.loanTerm', inputs.loanTermYear, { min: 1, max: MAX_SOLVER_TERM_YEAR, integer: true });
+  check('gracePeriodYear', 'inputs.gracePeriod', inputs.gracePeriodYear, YEARS);
+
+  if (inputs.gracePeriodYear >= inputs.loanTermYear && inputs.loanTermYear > 0) {
+    cross('gracePeriodYear', 'inputs.gracePeriod', 'validation.graceTooLong', 'error');
+  }
+
+  if (inputs.rateType === RateType.Mixed || inputs.rateType === RateType.Periodic) {
+    check('fixedPeriodYear', 'inputs.rateType', inputs.fixedPeriodYear, { min: 1, integer: true });
+    if (inputs.rateType === RateType.Mixed && inputs.fixedPeriodYear >= inputs.loanTermYear) {
+      cross('fixedPeriodYear', 'inputs.rateType', 'validation.fixedPeriodCoversTerm', 'warning');
+    }
+  }
+
+  if (inputs.rateType !== RateType.Fixed) {
+    const { ratePath } = inputs;
+    if (ratePath.mode === RatePathMode.Reset) {
+      check('ratePath.indexRate', 'validation.field.indexRate', ratePath.indexRate, RATE);
+      check('ratePath.variableResetMonth', 'validation.field.resetMonth', ratePath.variableResetMonth, { min: 1, integer: true });
+    } else {
+      const totalMonths = yearsToMonths(inputs.loanTermYear);
+      ratePath.changes.forEach((change, index) => {
+        const label: FieldLabel = { label: 'validation.field.rateChange', labelParams: { index: index + 1 } };
+        checkField(issues, `ratePath.changes.${index}.month`, label, change.month, { min: 1, max: totalMonths, integer: true });
+        checkField(issues, `ratePath.changes.${index}.rate`, label, change.rate, RATE);
+      });
+    }
+  }
+
+  if (inputs.collateralType === CollateralType.Housing) {
+    check('property.price', 'inputs.propertyPrice', inputs.property.price, AMOUNT);
+    const regulated = inputs.stressDsr.region === Region.Capital || inputs.property.zone !== RegulationZone.NonRegulated;
+    if (regulated && inputs.loanTermYear > REGULATED_HOUSING_MAX_TERM_YEAR) {
+      cross('loanTermYear', 'inputs.loanTerm', 'validation.housingTermCap', 'warning', { max: REGULATED_HOUSING_MAX_TERM_YEAR });
+    }
+  }
+
+  if (inputs.stressDsr.policyId === CUSTOM_STRESS_POLICY_ID) {
+    check('stressDsr.customSpread', 'validation.field.stressSpread', inputs.stressDsr.customSpread, { min: 0, max: MAX_INTEREST_RATE });
+  }
+
+  if (inputs.calendar.startDate !== '' && !parseLoanDate(inputs.calendar.startDate)) {
+    cross('calendar.startDate', 'calendar.startDate', 'validation.date', 'error');
+  }
+  check('calendar.paymentDay', 'calendar.paymentDay', inputs.calendar.paymentDay, { min: 1, max: 31, integer: true });
+
+  inputs.existingDebts.forEach((debt, index) => {
+    const rule = DEBT_RULES[debt.type];
+    if (rule.principalRule === 'Excluded') return;
+    const label = (field: MessageKey): FieldLabel => ({ label: field, labelParams: { index: index + 1 } });
+    checkField(issues, `existingDebts.${debt.id}.balance`, label('validation.field.debtBalance'), debt.balance, AMOUNT);
+    checkField(issues, `existingDebts.${debt.id}.interestRate`, label('validation.field.debtRate'), debt.interestRate, RATE);
+    if (rule.principalRule === 'Actual') {
+      checkField(issues, `existingDebts.${debt.id}.remainingTermYear`, label('validation.field.debtTerm'), debt.remainingTermYear, { min: 0, max: MAX_SOLVER_TERM_YEAR });
+    }
+  });
+
+  inputs.prepayment.prepayments.forEach((p, index) => {
+    const label: FieldLabel = { label: 'validation.field.prepayment', labelParams: { index: index + 1 } };
+    checkField(issues, `prepayment.${p.id}.amount`, label, p.amount, AMOUNT);
+    checkField(issues, `prepayment.${p.id}.month`, label, p.month, { min: 1, integer: true });
+    checkField(issues, `prepayment.${p.id}.repeatIntervalMonth`, label, p.repeatIntervalMonth, { min: 0, integer: true });
+  });
+  check('prepayment.feeRule.feeRate', 'validation.field.prepaymentFee', inputs.prepayment.feeRule.feeRate, { min: 0, max: 100 });
+
+  return issues;
+};
+
+// Terms of the refinance comparison. The borrower's own inputs are checked by validateInputs.
+export const validateRefinance = (settings: RefinanceSettings): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const check = (field: string, label: MessageKey, value: number, rule: FieldRule) =>
+    checkField(issues, field, { label }, value, rule);
+  const { current, candidate } = settings;
+
+  check('current.balance', 'refinance.balance', current.balance, { min: 0, minExclusive: true });
+  check('current.interestRate', 'validation.field.currentRate', current.interestRate, RATE);
+  check('current.remainingTermYear', 'refinance.remainingTerm', current.remainingTermYear, { min: 1, max: MAX_SOLVER_TERM_YEAR });
+  check('current.elapsedMonth', 'refinance.elapsed', current.elapsedMonth, { min: 0, integer: true });
+  check('current.feeRule.feeRate', 'refinance.feeRate', current.feeRule.feeRate, { min: 0, max: 100 });
+  check('current.feeRule.slidingPeriodYear', 'refinance.slidingPeriod', current.feeRule.slidingPeriodYear, YEARS);
+
+  check('candidate.interestRate', 'validation.field.candidateRate', candidate.interestRate, RATE);
+  check('candidate.termYear', 'validation.field.candidateTerm', candidate.termYear, { min: 1, max: MAX_SOLVER_TERM_YEAR, integer: true });
+  if (candidate.rateType === RateType.Mixed || candidate.rateType === RateType.Periodic) {
+    check('candidate.fixedPeriodYear', 'inputs.rateType', candidate.fixedPeriodYear, { min: 1, integer: true });
+  }
+  check('candidate.mortgageSetupCost', 'refinance.setupCost', candidate.mortgageSetupCost, AMOUNT);
+  check('candidate.otherCosts', 'refinance.otherCosts', candidate.otherCosts, AMOUNT);
+  check('discountRate', 'refinance.discountRate', settings.discountRate, RATE);
+
+  return issues;
+};
+
+// Custom DSR cap entered in the limit solver
+export const validateDsrCap = (dsrCap: number): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  checkField(issues, 'dsrCap', { label: 'validation.field.dsrCap' }, dsrCap, { min: 0, minExclusive: true, max: 100 });
+  return issues;
+};
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some((issue) => issue.severity === 'error');
@@ -1,6 +1,10 @@
+import { MessageKey } from "./locales/ko";
+
 export enum RepaymentMethod {
   PrincipalInterestEqual = 'PrincipalInterestEqual', // 원리금균등
   PrincipalEqual = 'PrincipalEqual', // 원금균등
+  Bullet = 'Bullet', // 만기일시상환
+  Graduated = 'Graduated', // 체증식 분할상환
 }
 
 export enum CollateralType {
@@ -8,15 +12,205 @@ export enum CollateralType {
   Other = 'Other', // 이외 담보대출
 }
 
+export enum RateType {
+  Variable = 'Variable', // 변동금리
+  Mixed = 'Mixed', // 혼합형 (고정 후 변동)
+  Periodic = 'Periodic', // 주기형 (주기적 금리 재산정)
+  Fixed = 'Fixed', // 전기간 고정금리
+}
+
+export enum RatePathMode {
+  Reset = 'Reset', // 재산정 규칙 + 가정 기준금리
+  Explicit = 'Explicit', // 회차별 금리 직접 입력
+}
+
+export interface RateChange {
+  month: number; // First installment the new rate applies to
+  rate: number; // Annual rate (%)
+}
+
+export interface RatePath {
+  mode: RatePathMode;
+  indexRate: number; // 가정 기준금리 (COFIX 등) at the first reset (%)
+  spread: number; // 가산금리 (%p)
+  indexStepPerReset: number; // Assumed index move at each later reset (%p)
+  variableResetMonth: number; // 변동금리 재산정 주기 (개월)
+  changes: RateChange[]; // Used in Explicit mode
+}
+
+export enum Region {
+  Capital = 'Capital', // 수도권
+  NonCapital = 'NonCapital', // 지방
+}
+
+export interface StressDsrSettings {
+  policyId: string; // Preset id from STRESS_POLICIES, 'none' or 'custom'
+  region: Region;
+  customSpread: number; // 직접 입력 스트레스 금리 (%p), used when policyId === 'custom'
+}
+
+// Stress DSR policy as resolved for a particular loan
+export interface AppliedStressPolicy {
+  policyId: string;
+  label: MessageKey;
+  effectiveDate: string | null; // YYYY-MM-DD, null for 'none'/'custom'
+  baseSpread: number; // 스트레스 금리 for the region before rate-type weighting (%p)
+  weight: number; // Rate-type weight (0-1)
+  spread: number; // baseSpread * weight, added to the contract rate (%p)
+}
+
+export enum RegulationZone {
+  Speculative = 'Speculative', // 투기과열지구
+  Adjusted = 'Adjusted', // 조정대상지역
+  NonRegulated = 'NonRegulated', // 비규제지역
+}
+
+export enum BorrowerStatus {
+  NoHome = 'NoHome', // 무주택
+  FirstTime = 'FirstTime', // 생애최초 주택구입
+  OneHome = 'OneHome', // 1주택
+}
+
+export interface PropertyInfo {
+  price: number; // 주택 가격 (KB시세/감정가)
+  zone: RegulationZone;
+  borrowerStatus: BorrowerStatus;
+}
+
+export enum DebtType {
+  Mortgage = 'Mortgage', // 주택담보대출
+  OtherSecured = 'OtherSecured', // 기타 담보대출 (토지/상가 등)
+  Credit = 'Credit', // 신용대출
+  StudentLoan = 'StudentLoan', // 학자금대출
+  CardLoan = 'CardLoan', // 카드론
+  AutoLoan = 'AutoLoan', // 자동차 할부/대출
+  Jeonse = 'Jeonse', // 전세자금대출
+  GroupLoan = 'GroupLoan', // 중도금/이주비 대출
+}
+
+export interface ExistingDebt {
+  id: string;
+  type: DebtType;
+  balance: number; // 대출 잔액
+  interestRate: number;
+  remainingTermYear: number; // 잔여 만기
+  repaymentMethod: RepaymentMethod;
+}
+
+export enum PrepaymentStrategy {
+  ShortenTerm = 'ShortenTerm', // 기간 단축 (월 상환액 유지)
+  ReducePayment = 'ReducePayment', // 월 상환액 감소 (만기 유지)
+}
+
+export interface Prepayment {
+  id: string;
+  month: number; // Installment after which the prepayment is made
+  amount: number;
+  repeatIntervalMonth: number; // 0 = one-off, otherwise repeats every N months
+}
+
+export interface PrepaymentFeeRule {
+  feeRate: number; // 중도상환수수료율 (%)
+  slidingPeriodYear: number; // Fee declines linearly to 0 over this period (usually 3 years)
+  annualExemptionAmount: number; // 연간 수수료 면제 한도 (원)
+}
+
+export interface PrepaymentSettings {
+  prepayments: Prepayment[];
+  strategy: PrepaymentStrategy;
+  feeRule: PrepaymentFeeRule;
+}
+
+export interface PrepaymentFee {
+  month: number;
+  amount: number; // Amount prepaid
+  chargeable: number; // Amount above the exemption
+  fee: number;
+}
+
+export interface PrepaymentResult {
+  monthlyPayments: MonthlyPayment[]; // Revised schedule
+  totalPrepaid: number;
+  totalInterest: number;
+  totalFees: number;
+  fees: PrepaymentFee[];
+  interestSaved: number; // Baseline interest - revised interest
+  netSavings: number; // interestSaved - totalFees
+  payoffMonth: number;
+  baselinePayoffMonth: number;
+}
+
+export enum IncomeType {
+  Earned = 'Earned', // 근로소득 (원천징수영수증)
+  Business = 'Business', // 사업소득 (소득금액증명원)
+  Recognized = 'Recognized', // 인정소득 (국민연금·건강보험료 납부액 환산)
+  Declared = 'Declared', // 신고소득 (카드 사용액·임대료 등 추정)
+}
+
+export enum IncomeOwner {
+  Borrower = 'Borrower', // 차주 본인
+  CoBorrower = 'CoBorrower', // 배우자 또는 공동차주
+}
+
+export interface IncomeSource {
+  id: string;
+  type: IncomeType;
+  owner: IncomeOwner;
+  amount: number; // Annual amount as shown on the evidence (원)
+}
+
+export interface IncomeSettings {
+  enabled: boolean; // When false, annualIncome is entered directly
+  sources: IncomeSource[];
+  combineCoBorrower: boolean; // 부부합산 / 공동차주 소득 합산
+  manualAnnualIncome: number; // Directly entered income, restored when the builder is turned off
+}
+
+export interface IncomeLine {
+  id: string;
+  type: IncomeType;
+  owner: IncomeOwner;
+  reported: number; // 증빙 금액
+  recognized: number; // DSR 인정 금액
+  counted: boolean; // False for co-borrower income when not combined
+}
+
+export interface RecognizedIncome {
+  lines: IncomeLine[];
+  borrowerIncome: number;
+  coBorrowerIncome: number; // Counted co-borrower income (0 when not combined)
+  minimumApplied: boolean; // 소득 없음: minimum income substituted
+  total: number; // Income used as the DSR denominator
+}
+
+export enum DayCountConvention {
+  Thirty360 = 'Thirty360', // 30/360 (매월 30일로 계산)
+  Actual365 = 'Actual365', // 실제 일수/365
+}
+
+export interface LoanCalendar {
+  startDate: string; // 대출 실행일 (YYYY-MM-DD); empty for an undated schedule
+  paymentDay: number; // 약정 납입일 (1-31, moved to the month's last day in shorter months)
+  dayCount: DayCountConvention;
+}
+
 export interface LoanInputs {
-  annualIncome: number; // 연소득 (Required for DSR)
+  annualIncome: number; // 연소득 (Required for DSR; derived from `income` when enabled)
+  income: IncomeSettings; // 소득 유형별 인정 소득 산정
   loanAmount: number;
   interestRate: number;
+  rateType: RateType;
+  fixedPeriodYear: number; // 혼합형 고정기간 / 주기형 금리 변동 주기
+  ratePath: RatePath; // Future rate assumptions for non-fixed loans
   loanTermYear: number;
   gracePeriodYear: number;
   repaymentMethod: RepaymentMethod;
   collateralType: CollateralType;
-  applyStressDsr: boolean;
+  property: PropertyInfo; // 담보 주택 정보 (LTV/DTI)
+  stressDsr: StressDsrSettings;
+  existingDebts: ExistingDebt[]; // 보유 중인 기존 대출
+  prepayment: PrepaymentSettings; // 중도상환 계획
+  calendar: LoanCalendar; // 실행일·납입일 기준 이자 일할 계산
 }
 
 export interface MonthlyPayment {
@@ -25,18 +219,270 @@ export interface MonthlyPayment {
   principal: number; // Principal portion
   interest: number; // Interest portion
   balance: number; // Remaining balance
+  rate: number; // Annual rate applied this month (%)
+  prepayment?: number; // 중도상환액 paid at the end of this month
+  date?: string; // Payment date (YYYY-MM-DD) for dated schedules
+  days?: number; // Days of interest in this period under the day-count convention
+}
+
+export interface RateReset {
+  month: number;
+  previousRate: number;
+  rate: number;
+  previousPayment: number;
+  payment: number; // Recomputed payment from this month
+}
+
+export interface LoanBurden {
+  id: string; // 'new' for the loan being applied for
+  debtType: DebtType | null; // null for the new loan
+  annualPrincipal: number; // 연간 원금상환액 (DSR 기준)
+  annualInterest: number; // 연간 이자상환액 (DSR 기준)
+  annualTotal: number;
+  dsrContribution: number; // DSR percentage points this loan adds
+  share: number; // Share of the total annual repayment (%)
+  excluded: boolean; // DSR 산정 제외 대출
 }
 
 export interface CalculationResult {
   dsrRatio: number;
+  loanBurdens: LoanBurden[];
+  annualRepaymentForDsr: number;
   monthlyPayments: MonthlyPayment[];
   totalInterest: number;
   totalPayment: number;
   avgMonthlyPayment: number;
+  rateResets: RateReset[]; // Months where the applied rate changes
+  prepayment: PrepaymentResult | null; // Revised schedule when prepayments are planned
   stressDsrRateUsed: number; // The interest rate used for DSR check
+  stressPolicy: AppliedStressPolicy;
+}
+
+export interface SolverResult {
+  dsrCap: number; // Target DSR cap (%)
+  maxLoanAmount: number; // 최대 대출 가능 금액
+  maxLoanMonthlyPayment: number; // Monthly payment at the maximum amount (after grace)
+  minAnnualIncome: number; // 필요 최소 연소득
+  minLoanTermYear: number | null; // 필요 최소 대출 기간 (null if no term qualifies)
+  headroom: number; // maxLoanAmount - current loanAmount
+}
+
+// Inputs the sensitivity analysis varies. `existingDebts` scales every existing balance.
+export type SensitivityVariable =
+  | 'interestRate'
+  | 'loanTermYear'
+  | 'loanAmount'
+  | 'annualIncome'
+  | 'gracePeriodYear'
+  | 'existingDebts';
+
+export interface SensitivityGrid {
+  rowVariable: SensitivityVariable;
+  columnVariable: SensitivityVariable;
+  rows: number[];
+  columns: number[];
+  dsr: number[][]; // dsr[row][column] (%)
+  currentRow: number; // Index of the current scenario's value, -1 if not on the grid
+  currentColumn: number;
+}
+
+// One bar of the tornado chart: DSR with the input moved down and up from its current value
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  lowValue: number;
+  highValue: number;
+  lowDsr: number;
+  highDsr: number;
+  swing: number; // |highDsr - lowDsr|, the sort key
+}
+
+// Stochastic index rate model for the Monte Carlo simulation. The index follows a random walk
+// with drift; at every reset the loan rate becomes index + spread, kept within floor and cap.
+export interface MonteCarloSettings {
+  paths: number; // Number of simulated rate paths
+  driftPerYear: number; // Expected index move per year (%p)
+  volatility: number; // Standard deviation of the index move over a year (%p)
+  floor: number; // Lowest applied loan rate (%)
+  cap: number; // Highest applied loan rate (%)
+  paymentThreshold: number; // Monthly payment the client can afford (원)
+  seed: number; // Fixes the random draws so reruns are reproducible
+}
+
+export interface PaymentBand {
+  month: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
 }
 
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  paymentBands: PaymentBand[]; // Monthly payment percentiles, one entry per month
+  totalInterest: {
+    mean: number;
+    p5: number;
+    p50: number;
+    p95: number;
+    histogram: HistogramBin[];
+  };
+  exceedProbability: number; // Share of paths whose payment exceeds the threshold in any month (0-1)
+}
+
+export type LimitKind = 'LTV' | 'DTI' | 'DSR';
+
+export interface RegulatoryLimit {
+  kind: LimitKind;
+  ratio: number; // Current ratio (%)
+  cap: number; // Regulatory cap (%)
+  maxLoanAmount: number; // Largest loan amount this limit allows
+  passed: boolean;
+  priceCapped: boolean; // LTV limit set by the price-band cap rather than the ratio
+}
+
+export interface RegulatoryCheck {
+  limits: RegulatoryLimit[];
+  binding: LimitKind; // The limit with the smallest maximum loan amount
+  maxLoanAmount: number; // Smallest maximum across all limits
+  passed: boolean; // Current loan amount satisfies every limit
+}
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  inputs: LoanInputs;
+  savedAt: string; // ISO timestamp
+}
+
+export type AiRiskLevel = 'Safe' | 'Caution' | 'High Risk';
+
 export interface AiAnalysisResult {
-  advice: string;
-  riskLevel: 'Safe' | 'Caution' | 'High Risk';
-}
\ No newline at end of file
+  riskLevel: AiRiskLevel;
+  summary: string;
+  stressDsrImpact: string; // Effect of the stress rate on the DSR
+  gracePeriodImpact: string; // Effect of the grace period and repayment method
+  suggestions: string[]; // Actionable steps to lower the repayment burden
+}
+export interface AiChatMessage {
+  role: 'user' | 'model';
+  text: string; // Markdown for model replies
+}
+
+export type Locale = 'ko' | 'en';
+
+// Assumptions for projecting the repayment burden over the life of the loan
+export interface ProjectionSettings {
+  incomeGrowth: number; // 연 소득 증가율 (%)
+  inflation: number; // 연 물가상승률 (%)
+}
+
+export interface ProjectionYear {
+  year: number; // Loan year (1-based)
+  calendarYear?: number; // Calendar year of the year's first payment, for dated schedules
+  income: number; // Projected annual income
+  payment: number; // Payments made during the loan year
+  paymentToIncome: number; // payment / income (%)
+}
+
+export interface BurdenProjectionResult {
+  years: ProjectionYear[];
+  nominalInterest: number;
+  realInterest: number; // In today's money, deflated by the assumed inflation
+  nominalPayment: number;
+  realPayment: number;
+}
+
+// The loan a client already has, as it would run if kept
+export interface RefinanceCurrentLoan {
+  debtType: DebtType;
+  balance: number; // 잔액
+  interestRate: number;
+  remainingTermYear: number;
+  repaymentMethod: RepaymentMethod;
+  elapsedMonth: number; // Months since the loan was taken out, for the prepayment fee
+  feeRule: PrepaymentFeeRule;
+}
+
+// The loan offered to replace it (대환대출)
+export interface RefinanceCandidate {
+  interestRate: number;
+  termYear: number;
+  repaymentMethod: RepaymentMethod;
+  rateType: RateType;
+  fixedPeriodYear: number;
+  mortgageSetupCost: number; // 근저당 설정비 중 본인 부담분
+  otherCosts: number; // 감정평가·법무사 등 기타 부대비용
+}
+
+export interface RefinanceSettings {
+  sourceDebtId: string | null; // Existing debt being refinanced; left out of the DSR after switching
+  current: RefinanceCurrentLoan;
+  candidate: RefinanceCandidate;
+  discountRate: number; // 순현재가치 할인율 (%/yr)
+}
+
+export interface RefinanceResult {
+  keepSchedule: MonthlyPayment[];
+  switchSchedule: MonthlyPayment[];
+  prepaymentFee: number;
+  stampDuty: number; // 인지세 (borrower's half)
+  upfrontCost: number; // Everything paid at the switch
+  monthlySavings: number; // First month's payment difference
+  interestSaved: number; // Interest on the kept loan - interest on the new loan
+  cumulativeSavings: number[]; // Net savings after each month, upfront cost included
+  breakEvenMonth: number | null; // First month the switch has paid for itself
+  netPresentSavings: number;
+  dsrBefore: number;
+  dsrAfter: number; // Under the current stress rules, the new loan replacing the old one
+  stressRateUsed: number;
+}
+
+// A lender's loan product, as imported from a catalog file
+export interface LoanProduct {
+  id: string;
+  lender: string; // 금융기관
+  name: string; // 상품명
+  collateralType: CollateralType;
+  rateType: RateType;
+  baseRate: number; // 기준금리 (COFIX, 금융채 등, %)
+  spread: number; // 가산금리 net of preferential discounts (%p)
+  fixedPeriodYear: number; // 혼합형 고정기간 / 주기형 재산정 주기; 0 for other rate types
+  maxTermYear: number; // 최장 대출기간
+  maxLoanAmount: number; // 상품 한도 (원), 0 = no product limit
+  repaymentMethods: RepaymentMethod[]; // Methods the lender offers, in order of preference
+  gracePeriodYears: number[]; // 거치기간 options; [0] when the product has none
+  upfrontFee: number; // 취급수수료 등 실행 시 부담 비용 (원)
+  feeRule: PrepaymentFeeRule; // 중도상환수수료
+}
+
+export type ProductRankKey = 'dsr' | 'monthlyPayment' | 'totalCost';
+
+// Where a product could not take the form's terms as entered and the nearest offered option was used
+export type ProductAdjustment = 'term' | 'method' | 'grace';
+
+export type ProductIneligibility = 'collateral' | 'amount';
+
+export interface ProductEvaluation {
+  product: LoanProduct;
+  inputs: LoanInputs; // The form's scenario with the product's terms
+  adjustments: ProductAdjustment[];
+  dsrRatio: number;
+  passesDsrCap: boolean;
+  monthlyPayment: number; // First installment after any grace period
+  totalInterest: number; // Including the effect of planned prepayments
+  upfrontCost: number; // upfrontFee + 인지세 (borrower's half)
+  prepaymentFees: number; // Fees on the planned prepayments
+  totalCost: number; // totalInterest + upfrontCost + prepaymentFees
+}
+
+export interface ProductRanking {
+  ranked: ProductEvaluation[]; // Eligible products, best first
+  ineligible: { product: LoanProduct; reasons: ProductIneligibility[] }[];
+}
@@ -1,6 +1,13 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
+
+// Korean font the PDF report embeds (services/pdfReport.ts), precached so exports work offline
+const PDF_FONT_URLS = [
+  'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/nanumgothic/NanumGothic-Regular.ttf',
+  'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/nanumgothic/NanumGothic-Bold.ttf',
+];
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +16,58 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        VitePWA({
+          // Ask before switching versions, so a calculation in progress is never reloaded away
+          registerType: 'prompt',
+          manifest: {
+            name: 'Smart DSR 계산기',
+            short_name: 'DSR 계산기',
+            description: '단계별 스트레스 DSR 시뮬레이션 및 상환 분석',
+            lang: 'ko',
+            start_url: '/',
+            display: 'standalone',
+            theme_color: '#2563eb',
+            background_color: '#f8fafc',
+            icons: [
+              { src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
+            // The bundle includes xlsx, jspdf and recharts
+            maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+            additionalManifestEntries: PDF_FONT_URLS.map((url) => ({ url, revision: null })),
+            navigateFallback: 'index.html',
+            runtimeCaching: [
+              {
+                // Tailwind is loaded from its CDN at runtime
+                urlPattern: ({ url }) => url.origin === 'https://cdn.tailwindcss.com',
+                handler: 'StaleWhileRevalidate',
+                options: {
+                  cacheName: 'tailwind-cdn',
+                  cacheableResponse: { statuses: [0, 200] },
+                },
+              },
+              {
+                urlPattern: ({ url }) => url.origin === 'https://fonts.googleapis.com' || url.origin === 'https://fonts.gstatic.com',
+                handler: 'CacheFirst',
+                options: {
+                  cacheName: 'google-fonts',
+                  cacheableResponse: { statuses: [0, 200] },
+                  expiration: { maxEntries: 30, maxAgeSeconds: 365 * 24 * 60 * 60 },
+                },
+              },
+            ],
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER)
       },
       resolve: {
         alias: {